@@ -1,19 +1,27 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { HashRouter } from 'react-router-dom';
-import { Transaction, Category, CategorizationRule, Session, ImportSelection } from './types';
+import { Transaction, Category, CategorizationRule, Session, ImportSelection, TransactionSplit } from './types';
 import Dashboard from './components/Dashboard';
 import TransactionList from './components/TransactionList';
 import AIConsultant from './components/AIConsultant';
 import TransactionDetailModal from './components/TransactionDetailModal';
+import { TransactionEditorModal } from './components/TransactionEditorModal';
 import Sidebar from './components/Sidebar';
 import SettingsView from './components/SettingsView';
 import { RuleProgressModal, SanitizationProposalModal, SanitizationResultModal, BulkUpdateModal } from './components/StatusModals';
 import { ImportSelectionModal } from './components/ImportSelectionModal';
-import { SmartImportModal } from './components/SmartImportModal';
-import { useSessionData, applyRulesToTransactions } from './hooks/useSessionData';
+import { SmartImportModal, AssetBalanceUpdate } from './components/SmartImportModal';
+import { HistoryPanel } from './components/HistoryPanel';
+import { useSessionData } from './hooks/useSessionData';
+import { applyRulesToTransactions, createRuleApplier, createRuleMatcher, findMatchingRule, createDescriptionRule, keywordOfRule, ruleSignature } from './utils/rules';
 import { categorizeTransactionsAI, generateRulesFromHistory } from './services/gemini';
 import { parseFile } from './utils/parser';
-import { BrainCircuit, ShieldCheck, LayoutDashboard, List, MessageSquareText, Settings, Target } from 'lucide-react';
+import { parseSessionData, formatValidationErrors } from './utils/sessionSchema';
+import { createFormatter } from './utils/format';
+import { isSplit, categoryParts, applySplits, collectTags, retag } from './utils/transactions';
+import { defineCategory } from './utils/categories';
+import { findTransferPairs, linkTransfers, unlinkTransfer, dropOrphanTransfers, TRANSFER_MATCH_DAYS, TransferPair } from './utils/transfers';
+import { BrainCircuit, ShieldCheck, LayoutDashboard, List, MessageSquareText, Settings, Target, Loader2 } from 'lucide-react';
 import { GoalManager } from './components/GoalManager';
 
 const App: React.FC = () => {
@@ -26,6 +34,7 @@ const App: React.FC = () => {
     activeSession, 
     activeSessionId, 
     setActiveSessionId, 
+    isLoaded,
     addSession, 
     removeSession, 
     importSession,
@@ -33,22 +42,35 @@ const App: React.FC = () => {
     updateTransactions,
     updateSettings,
     updateCategories,
+    updateCategoryDefinition,
     updateRules,
+    setRuleMatchMode,
     updateAssets,
     updateGoals,
     updateDashboardWidgets,
+    updateImportProfiles,
+    updateExchangeRates,
+    setBaseCurrency,
+    setDisplayLocale,
     updateSessionRaw,
-    deleteSource
+    deleteSource,
+    history,
+    undo,
+    redo,
+    jumpToHistory
   } = useSessionData();
 
   // UI Local State
   const [isCategorizing, setIsCategorizing] = useState(false);
   const [isGeneratingRules, setIsGeneratingRules] = useState(false);
   const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null);
+  const [isTransactionEditorOpen, setIsTransactionEditorOpen] = useState(false);
+  const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null); // null while creating
   
   // Import State
   const [importCandidate, setImportCandidate] = useState<Session | null>(null);
   const [isSmartImportOpen, setIsSmartImportOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Modal States
   const [bulkUpdateProposal, setBulkUpdateProposal] = useState<{
@@ -75,8 +97,39 @@ const App: React.FC = () => {
   } | null>(null);
 
 
+  // --- Undo / Redo Shortcuts ---
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave native undo alone while the user is typing in a field
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Display formatting follows the active session's locale and base currency
+  const format = useMemo(
+    () => createFormatter(activeSession.displayLocale, activeSession.baseCurrency),
+    [activeSession.displayLocale, activeSession.baseCurrency]
+  );
+
   // --- Logic for Modals & Data Operations ---
 
+  const availableTags = useMemo(() => collectTags(activeSession.transactions), [activeSession.transactions]);
+  const categoryNames = useMemo(() => activeSession.categories.map(c => c.name), [activeSession.categories]);
+
   const derivedTransactionData = useMemo(() => {
     if (!selectedTransactionId) return null;
     const transaction = activeSession.transactions.find(t => t.id === selectedTransactionId);
@@ -85,16 +138,14 @@ const App: React.FC = () => {
     const similar = activeSession.transactions.filter(t => 
         t.description.toLowerCase().trim() === transaction.description.toLowerCase().trim()
     );
-    const inCategory = activeSession.transactions.filter(t => t.category === transaction.category);
-    const sortedRules = [...activeSession.rules].sort((a, b) => b.keyword.length - a.keyword.length);
-    const activeRule = sortedRules.find(r => {
-        if (r.isRegex) {
-            try { return new RegExp(r.keyword, 'i').test(transaction.description); } catch(e) { return false; }
-        }
-        return transaction.description.toLowerCase().includes(r.keyword.toLowerCase());
-    });
+    const inCategory = activeSession.transactions.filter(t => categoryParts(t).some(p => p.category === transaction.category));
+    const activeRule = findMatchingRule(transaction, activeSession.rules);
+
+    const transferCounterpart = transaction.transfer
+        ? activeSession.transactions.find(t => t.id === transaction.transfer!.counterpartId)
+        : undefined;
 
-    return { transaction, similar, inCategory, activeRule };
+    return { transaction, similar, inCategory, activeRule, transferCounterpart };
   }, [selectedTransactionId, activeSession]);
 
 
@@ -116,17 +167,23 @@ const App: React.FC = () => {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (event) => {
+      let json: unknown;
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (!json.transactions || !Array.isArray(json.transactions) || !json.categories || !Array.isArray(json.categories)) {
-            throw new Error("Invalid file structure");
-        }
-        // Instead of importing immediately, set candidate to show selection modal
-        setImportCandidate(json);
+        json = JSON.parse(event.target?.result as string);
       } catch (err) {
         console.error(err);
-        alert("Failed to read session file. Invalid format.");
+        alert("Failed to read session file. The file is not valid JSON.");
+        return;
       }
+      // Upgrade older backups and reject anything malformed before it can touch the session
+      const parsed = parseSessionData(json);
+      if (!parsed.session) {
+        console.error("Session backup rejected", parsed.errors);
+        alert(`Failed to import session backup. ${parsed.errors.length} problem(s) found:\n\n${formatValidationErrors(parsed.errors)}`);
+        return;
+      }
+      // Instead of importing immediately, set candidate to show selection modal
+      setImportCandidate(parsed.session);
     };
     reader.readAsText(file);
     e.target.value = '';
@@ -140,23 +197,101 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSmartImportComplete = (newTransactions: Transaction[], newCategories: string[], source: string) => {
-      // 1. Tag transactions with the source
-      const taggedTransactions = newTransactions.map(t => ({ ...t, source }));
+  const handleSmartImportComplete = (newTransactions: Transaction[], newCategories: string[], source: string, assetBalances: AssetBalanceUpdate[]) => {
+      // 1. Tag transactions with the source, unless the importer already assigned one (multi-statement files)
+      const existingIds = new Set(activeSession.transactions.map(t => t.id));
+      const taggedTransactions = newTransactions
+          .map(t => ({ ...t, source: t.source || source }))
+          // Statement formats carry stable bank ids, so re-importing a file must not duplicate them
+          .filter(t => !existingIds.has(t.id));
+      const skipped = newTransactions.length - taggedTransactions.length;
       
-      // 2. Add source to session sources list if new
+      // 2. Add sources to session sources list if new
       const currentSources = activeSession.sources || [];
-      const updatedSources = currentSources.includes(source) ? currentSources : [...currentSources, source];
+      const importedSources = Array.from(new Set(taggedTransactions.map(t => t.source)));
+      const updatedSources = [...currentSources, ...importedSources.filter(src => !currentSources.includes(src))];
+
+      // 3. Statement closing balances become the linked asset's value, and the link is remembered
+      const balanceByAsset = new Map(assetBalances.map(b => [b.assetId, b]));
+
+      // 4. New rows that mirror a movement in another source are proposed as transfers once imported
+      const combined = [...activeSession.transactions, ...taggedTransactions];
+      const transferPairs = findTransferPairs(combined, TRANSFER_MATCH_DAYS, new Set(taggedTransactions.map(t => t.id)));
 
       updateSessionRaw(s => ({
           ...s,
-          categories: [...s.categories, ...newCategories],
+          categories: newCategories.reduce((defined, name) => [...defined, defineCategory(name, defined)], s.categories),
           transactions: [...s.transactions, ...taggedTransactions],
-          sources: updatedSources
-      }));
+          sources: updatedSources,
+          assets: s.assets.map(a => {
+              const update = balanceByAsset.get(a.id);
+              return update ? { ...a, value: update.amount, balanceDate: update.date, linkedSource: update.sourceName, currency: update.currency || a.currency } : a;
+          })
+      }), `Imported ${taggedTransactions.length} transactions into "${importedSources.join('", "') || source}"`);
+      if (skipped > 0) alert(`Skipped ${skipped} transactions that were already imported.`);
+      // A separate step, so the links can be undone without undoing the import
+      if (transferPairs.length > 0 && confirmTransferLinks(transferPairs)) {
+          updateTransactions(prev => linkTransfers(prev, transferPairs), `Linked ${transferPairs.length} imported transfers`);
+      }
       setActiveTab('transactions');
   };
 
+  // Linking hides both sides from income and expenses, so pairs are always shown before they are linked
+  const confirmTransferLinks = (pairs: TransferPair[]): boolean => {
+    const preview = pairs.slice(0, 5)
+        .map(p => `${p.outgoing.date} ${p.outgoing.source} → ${p.incoming.source}: ${format.money(p.outgoing.amount, { currency: p.outgoing.currency, decimals: 2 })} "${p.outgoing.description}"`)
+        .join('\n');
+    return confirm(`Link ${pairs.length} transfers between your accounts?\n\n${preview}${pairs.length > 5 ? '\n…' : ''}\n\nTransfers are left out of income, expenses and savings.`);
+  };
+
+  const handleDetectTransfers = () => {
+    const pairs = findTransferPairs(activeSession.transactions);
+    if (pairs.length === 0) {
+        alert(`No transfers found. Transfers are matched by equal amounts leaving one source and arriving in another within ${TRANSFER_MATCH_DAYS} days, with a description that reads like a transfer or names the other account.`);
+        return;
+    }
+    if (!confirmTransferLinks(pairs)) return;
+    updateTransactions(prev => linkTransfers(prev, pairs), `Linked ${pairs.length} transfers`);
+  };
+
+  const openTransactionEditor = (transactionId: string | null) => {
+    setSelectedTransactionId(null);
+    setEditingTransactionId(transactionId);
+    setIsTransactionEditorOpen(true);
+  };
+
+  const handleSaveTransaction = (transaction: Transaction) => {
+    const original = activeSession.transactions.find(t => t.id === transaction.id);
+    updateTransactions(prev => {
+        // An edit that breaks the mirror amount also turns the other side back into income or expense
+        const base = original?.transfer && !transaction.transfer ? unlinkTransfer(prev, transaction.id) : prev;
+        return original ? base.map(t => t.id === transaction.id ? transaction : t) : [...base, transaction];
+    }, original ? `Edited "${transaction.description}"` : `Added "${transaction.description}"`);
+    setIsTransactionEditorOpen(false);
+  };
+
+  const handleDeleteTransactions = (transactionIds: string[]) => {
+    const ids = new Set(transactionIds);
+    const single = transactionIds.length === 1 ? activeSession.transactions.find(t => t.id === transactionIds[0]) : undefined;
+    updateTransactions(
+        prev => dropOrphanTransfers(prev.filter(t => !ids.has(t.id))),
+        single ? `Deleted "${single.description}"` : `Deleted ${transactionIds.length} transactions`
+    );
+    if (selectedTransactionId && ids.has(selectedTransactionId)) setSelectedTransactionId(null);
+    setIsTransactionEditorOpen(false);
+  };
+
+  const handleBulkTag = (transactionIds: string[], add: string[], remove: string[]) => {
+    const ids = new Set(transactionIds);
+    const summary = [...add.map(t => `+#${t}`), ...remove.map(t => `-#${t}`)].join(' ');
+    updateTransactions(prev => prev.map(t => ids.has(t.id) ? retag(t, add, remove) : t), `Tagged ${transactionIds.length} transactions ${summary}`);
+  };
+
+  const handleUnlinkTransfer = (transactionId: string) => {
+    const target = activeSession.transactions.find(t => t.id === transactionId);
+    updateTransactions(prev => unlinkTransfer(prev, transactionId), `Unlinked transfer "${target?.description ?? transactionId}"`);
+  };
+
   const handleAutoCategorize = async () => {
     const currentTransactions = activeSession.transactions;
     const uncategorized = currentTransactions.filter(t => 
@@ -172,13 +307,13 @@ const App: React.FC = () => {
     try {
         const results = await categorizeTransactionsAI(
             uncategorized.map(t => ({ id: t.id, description: t.description, amount: t.amount })),
-            activeSession.categories
+            categoryNames
         );
 
         updateTransactions(prev => prev.map(t => {
             const match = results.find(r => r.id === t.id);
             return match ? { ...t, category: match.category } : t;
-        }));
+        }), `AI categorized ${results.length} transactions`);
     } catch (err) {
         console.error(err);
         alert("AI Categorization failed.");
@@ -191,10 +326,11 @@ const App: React.FC = () => {
     const targetTransaction = activeSession.transactions.find(t => t.id === transactionId);
     if (!targetTransaction) return;
 
-    updateTransactions(prev => prev.map(t => t.id === transactionId ? { ...t, category: newCategory } : t));
+    updateTransactions(prev => prev.map(t => t.id === transactionId ? { ...t, category: newCategory } : t), `Set category of "${targetTransaction.description}" to ${newCategory}`);
 
     const similarTransactions = activeSession.transactions.filter(t => 
       t.id !== transactionId && 
+      !isSplit(t) &&
       t.description.trim().toLowerCase() === targetTransaction.description.trim().toLowerCase() &&
       t.category !== newCategory
     );
@@ -211,66 +347,93 @@ const App: React.FC = () => {
 
   const confirmBulkUpdate = (createRule: boolean) => {
     if (!bulkUpdateProposal) return;
-    updateTransactions(prev => prev.map(t => 
-      bulkUpdateProposal.transactionIds.includes(t.id) ? { ...t, category: bulkUpdateProposal.newCategory } : t
-    ));
-
-    if (createRule) {
-      updateRules(prev => [...prev, {
-        id: `rule-${Date.now()}`,
-        keyword: bulkUpdateProposal.targetDescription.toLowerCase(),
-        category: bulkUpdateProposal.newCategory
-      }]);
-    }
+    const { transactionIds, newCategory, targetDescription, count } = bulkUpdateProposal;
+    // Transactions and the optional rule change together so a single undo reverts both
+    updateSessionRaw(s => ({
+      ...s,
+      transactions: s.transactions.map(t => transactionIds.includes(t.id) ? { ...t, category: newCategory } : t),
+      rules: createRule
+        ? [...s.rules, createDescriptionRule(targetDescription.toLowerCase(), newCategory)]
+        : s.rules
+    }), `Moved ${count} similar transactions to ${newCategory}`);
     setBulkUpdateProposal(null);
   };
 
-  const handleSaveDetails = (transactionId: string, newCategory: string, applyToSimilar: boolean, newRule: { keyword: string, category: string, isRegex: boolean } | null) => {
+  const handleSaveDetails = (
+    transactionId: string,
+    newCategory: string,
+    applyToSimilar: boolean,
+    newRule: { keyword: string, category: string, isRegex: boolean } | null,
+    splits: TransactionSplit[] | null,
+    annotations: { tags: string[], notes: string }
+  ) => {
     let currentRules = [...activeSession.rules];
     if (newRule) {
-        // Remove existing rule if we are "overwriting" based on keyword
-        currentRules = currentRules.filter(r => r.keyword !== newRule.keyword.toLowerCase());
-        currentRules.push({
-            id: `rule-${Date.now()}`,
-            keyword: newRule.keyword,
-            category: newRule.category,
-            isRegex: newRule.isRegex
-        });
-        updateRules(() => currentRules);
+        // Overwrite the existing rule with the same keyword in place, keeping its priority and the tags it adds.
+        // A new rule goes on top so it wins over the rules that categorized this transaction so far.
+        const replacedIndex = currentRules.findIndex(r => keywordOfRule(r)?.keyword.toLowerCase() === newRule.keyword.toLowerCase());
+        const replaced = currentRules[replacedIndex];
+        const rule = {
+            ...createDescriptionRule(newRule.keyword, newRule.category, newRule.isRegex),
+            ...(replaced?.addTags ? { addTags: replaced.addTags } : {})
+        };
+        if (replaced) currentRules[replacedIndex] = rule;
+        else currentRules.unshift(rule);
     }
 
     const targetTransaction = activeSession.transactions.find(t => t.id === transactionId);
-    if (targetTransaction) {
-        updateTransactions(prev => {
-            let nextTransactions = [...prev];
+    const label = newRule
+        ? `Added rule "${newRule.keyword}" → ${newRule.category}`
+        : splits
+            ? `Split "${targetTransaction?.description ?? transactionId}" into ${splits.length} parts`
+            : newCategory !== targetTransaction?.category
+                ? `Set category of "${targetTransaction?.description ?? transactionId}" to ${newCategory}`
+                : `Edited "${targetTransaction?.description ?? transactionId}"`;
+
+    updateSessionRaw(s => {
+        // Splits are saved first so the rules below leave the split transaction alone
+        let nextTransactions = s.transactions.map(t => {
+            if (t.id !== transactionId) return t;
+            const { tags: _tags, notes: _notes, ...rest } = applySplits({ ...t, category: newCategory }, splits);
+            return {
+                ...rest,
+                ...(annotations.tags.length > 0 ? { tags: annotations.tags } : {}),
+                ...(annotations.notes.trim() ? { notes: annotations.notes.trim() } : {})
+            };
+        });
+        if (targetTransaction) {
             if (newRule) {
                // Re-apply all rules including the new one
-               nextTransactions = applyRulesToTransactions(nextTransactions, currentRules);
+               nextTransactions = applyRulesToTransactions(nextTransactions, currentRules, s.ruleMatchMode);
             } else {
                 if (applyToSimilar) {
                     const descToMatch = targetTransaction.description.toLowerCase().trim();
-                    nextTransactions = nextTransactions.map(t => t.description.toLowerCase().trim() === descToMatch ? { ...t, category: newCategory } : t);
-                } else {
-                    nextTransactions = nextTransactions.map(t => t.id === transactionId ? { ...t, category: newCategory } : t);
+                    nextTransactions = nextTransactions.map(t => !isSplit(t) && t.description.toLowerCase().trim() === descToMatch ? { ...t, category: newCategory } : t);
                 }
             }
-            return nextTransactions;
-        });
-    }
+        }
+        return { ...s, rules: newRule ? currentRules : s.rules, transactions: nextTransactions };
+    }, label);
     setSelectedTransactionId(null);
   };
 
   const handleGenerateRules = async () => {
     setIsGeneratingRules(true);
     try {
-        const newRules = await generateRulesFromHistory(activeSession.transactions, activeSession.categories);
+        const newRules = await generateRulesFromHistory(activeSession.transactions, categoryNames);
         if (newRules.length > 0) {
-            const existingKeywords = activeSession.rules.map(r => r.keyword);
-            const uniqueNewRules = newRules.filter(r => !existingKeywords.includes(r.keyword));
-            updateRules(prev => [...prev, ...uniqueNewRules]);
+            const existingSignatures = new Set(activeSession.rules.map(ruleSignature));
+            const uniqueNewRules = newRules.filter(r => !existingSignatures.has(ruleSignature(r)));
+            updateRules(prev => [...prev, ...uniqueNewRules], `Generated ${uniqueNewRules.length} AI rules`);
             alert(`Generated ${uniqueNewRules.length} new rules!`);
             if(confirm("Apply these new rules to existing transactions?")) {
-                 updateTransactions(prev => applyRulesToTransactions(prev, uniqueNewRules));
+                 // Generated rules rank below the existing ones, so only transactions they match are re-evaluated
+                 const matchesNewRule = createRuleMatcher(uniqueNewRules);
+                 const apply = createRuleApplier([...activeSession.rules, ...uniqueNewRules], activeSession.ruleMatchMode);
+                 updateTransactions(
+                     prev => prev.map(t => matchesNewRule(t, true).length > 0 ? apply(t) : t),
+                     `Applied ${uniqueNewRules.length} generated rules`
+                 );
             }
         } else {
             alert("Not enough data pattern found to generate rules.");
@@ -292,43 +455,31 @@ const App: React.FC = () => {
     const total = transactions.length;
     setRuleApplicationStatus({ active: true, progress: 0, total, updated: 0, finished: false });
 
-    // Sort rules, handling regex vs normal is tricky but length is a decent proxy for specificity in simple cases
-    const sortedRules = rules.sort((a, b) => b.keyword.length - a.keyword.length);
     const BATCH_SIZE = 500;
     const newTransactions: Transaction[] = [];
     let updatedCount = 0;
+    const apply = createRuleApplier(rules, activeSession.ruleMatchMode);
 
     for (let i = 0; i < total; i += BATCH_SIZE) {
         await new Promise(resolve => setTimeout(resolve, 10));
         const end = Math.min(i + BATCH_SIZE, total);
         const chunk = transactions.slice(i, end);
         chunk.forEach(t => {
-            // Updated matching logic
-            const matchingRule = sortedRules.find(r => {
-                if (r.isRegex) {
-                     try { return new RegExp(r.keyword, 'i').test(t.description); } catch(e) { return false; }
-                }
-                return t.description.toLowerCase().includes(r.keyword.toLowerCase());
-            });
-
-            if (matchingRule) {
-                if (t.category !== matchingRule.category) updatedCount++;
-                newTransactions.push({ ...t, category: matchingRule.category });
-            } else {
-                newTransactions.push(t);
-            }
+            const updated = apply(t);
+            if (updated !== t) updatedCount++;
+            newTransactions.push(updated);
         });
         setRuleApplicationStatus({ active: true, progress: end, total, updated: updatedCount, finished: false });
     }
-    updateTransactions(() => newTransactions);
+    updateTransactions(() => newTransactions, `Applied ${rules.length} rules to ${total} transactions`);
     setRuleApplicationStatus({ active: true, progress: total, total, updated: updatedCount, finished: true });
   };
 
   const handleSanitizeCategories = () => {
     try {
         const transactions = activeSession.transactions || [];
-        const categories = activeSession.categories || [];
-        const usedCategories = new Set(transactions.map(t => t.category));
+        const categories = categoryNames;
+        const usedCategories = new Set(transactions.flatMap(t => categoryParts(t).map(p => p.category)));
         const categoriesToRemove = categories.filter(c => !usedCategories.has(c) && c !== 'Uncategorized');
 
         setSanitizationProposal({
@@ -346,13 +497,22 @@ const App: React.FC = () => {
     if (!sanitizationProposal) return;
     if (sanitizationProposal.unusedCount > 0) {
         const categoriesToRemove = sanitizationProposal.unusedCategories;
-        const newCategories = activeSession.categories.filter(c => !categoriesToRemove.includes(c));
-        updateCategories(newCategories);
+        const newCategories = categoryNames.filter(c => !categoriesToRemove.includes(c));
+        updateCategories(newCategories, undefined, undefined, `Removed ${categoriesToRemove.length} unused categories`);
         setSanitizationResult({ count: categoriesToRemove.length, categories: categoriesToRemove });
     }
     setSanitizationProposal(null);
   };
 
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-3 text-slate-400">
+        <Loader2 size={32} className="animate-spin text-indigo-400" />
+        <span className="text-sm">Loading your sessions...</span>
+      </div>
+    );
+  }
+
   return (
     <HashRouter>
       <div className="min-h-screen bg-background text-slate-200 font-sans selection:bg-indigo-500/30 relative overflow-x-hidden">
@@ -360,6 +520,7 @@ const App: React.FC = () => {
         {/* --- GLOBAL COMPONENTS --- */}
         <AIConsultant 
             transactions={activeSession.transactions} 
+            categories={activeSession.categories}
             isOpen={isChatOpen} 
             onClose={() => setIsChatOpen(false)}
         />
@@ -381,9 +542,18 @@ const App: React.FC = () => {
             onClose={() => setIsSmartImportOpen(false)}
             onImportComplete={handleSmartImportComplete}
             existingRules={activeSession.rules}
-            existingCategories={activeSession.categories}
+            ruleMatchMode={activeSession.ruleMatchMode}
+            existingCategories={categoryNames}
             defaultSettings={activeSession.importSettings}
             existingSources={activeSession.sources || []}
+            existingTransactions={activeSession.transactions}
+            existingAssets={activeSession.assets || []}
+            baseCurrency={activeSession.baseCurrency}
+            importProfiles={activeSession.importProfiles}
+            onSaveProfile={(profile) => updateImportProfiles(
+                prev => prev.some(p => p.id === profile.id) ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile],
+                `Saved import profile "${profile.name}"`
+            )}
         />
 
         <RuleProgressModal 
@@ -408,6 +578,14 @@ const App: React.FC = () => {
             onCancel={() => setBulkUpdateProposal(null)}
         />
         
+        <HistoryPanel
+            isOpen={isHistoryOpen}
+            entries={history.entries}
+            currentIndex={history.index}
+            onJump={jumpToHistory}
+            onClose={() => setIsHistoryOpen(false)}
+        />
+
         {importCandidate && (
             <ImportSelectionModal 
                 importData={importCandidate}
@@ -422,9 +600,26 @@ const App: React.FC = () => {
                 similarTransactions={derivedTransactionData.similar}
                 categoryTransactions={derivedTransactionData.inCategory}
                 activeRule={derivedTransactionData.activeRule}
-                availableCategories={activeSession.categories}
+                transferCounterpart={derivedTransactionData.transferCounterpart}
+                availableCategories={categoryNames}
+                availableTags={availableTags}
+                format={format}
                 onClose={() => setSelectedTransactionId(null)}
                 onSave={handleSaveDetails}
+                onUnlinkTransfer={handleUnlinkTransfer}
+                onEdit={() => openTransactionEditor(derivedTransactionData.transaction.id)}
+            />
+        )}
+
+        {isTransactionEditorOpen && (
+            <TransactionEditorModal
+                transaction={editingTransactionId ? activeSession.transactions.find(t => t.id === editingTransactionId) : undefined}
+                availableCategories={categoryNames}
+                availableSources={activeSession.sources || []}
+                format={format}
+                onSave={handleSaveTransaction}
+                onDelete={(id) => handleDeleteTransactions([id])}
+                onClose={() => setIsTransactionEditorOpen(false)}
             />
         )}
 
@@ -444,6 +639,13 @@ const App: React.FC = () => {
             onImportFile={() => setIsSmartImportOpen(true)}
             onToggleChat={() => setIsChatOpen(prev => !prev)}
             isChatOpen={isChatOpen}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
+            undoLabel={history.canUndo ? history.entries[history.index].label : undefined}
+            redoLabel={history.canRedo ? history.entries[history.index + 1].label : undefined}
+            onUndo={undo}
+            onRedo={redo}
+            onOpenHistory={() => setIsHistoryOpen(true)}
         />
 
         {/* Mobile Header */}
@@ -508,14 +710,21 @@ const App: React.FC = () => {
                     onUpdateAssets={updateAssets}
                     activeSession={activeSession}
                     onUpdateDashboardWidgets={updateDashboardWidgets}
+                    format={format}
                 />
             )}
             {activeTab === 'transactions' && (
                 <TransactionList 
                     transactions={activeSession.transactions} 
-                    availableCategories={activeSession.categories} 
+                    categories={activeSession.categories}
+                    format={format}
                     onCategoryChange={handleTransactionCategoryChange} 
                     onTransactionClick={setSelectedTransactionId} 
+                    onDetectTransfers={handleDetectTransfers}
+                    onAddTransaction={() => openTransactionEditor(null)}
+                    onDeleteTransactions={handleDeleteTransactions}
+                    availableTags={availableTags}
+                    onBulkTag={handleBulkTag}
                 />
             )}
             {activeTab === 'goals' && (
@@ -523,6 +732,9 @@ const App: React.FC = () => {
                     goals={activeSession.goals || []} 
                     assets={activeSession.assets || []}
                     transactions={activeSession.transactions}
+                    categories={activeSession.categories}
+                    format={format}
+                    exchangeRates={activeSession.exchangeRates}
                     onUpdateGoals={updateGoals}
                /> 
             )}
@@ -531,7 +743,9 @@ const App: React.FC = () => {
                     activeSession={activeSession}
                     onUpdateSettings={updateSettings}
                     onUpdateRules={updateRules}
+                    onSetRuleMatchMode={setRuleMatchMode}
                     onUpdateCategories={updateCategories}
+                    onUpdateCategoryDefinition={updateCategoryDefinition}
                     onUpdateTransactions={updateTransactions}
                     onExportSession={handleExportSession}
                     onImportSession={handleImportSessionFile}
@@ -542,6 +756,11 @@ const App: React.FC = () => {
                     onUpdateDashboardWidgets={updateDashboardWidgets}
                     transactions={activeSession.transactions}
                     onDeleteSource={deleteSource}
+                    onUpdateImportProfiles={updateImportProfiles}
+                    onSetBaseCurrency={setBaseCurrency}
+                    onUpdateExchangeRates={updateExchangeRates}
+                    onSetDisplayLocale={setDisplayLocale}
+                    format={format}
                 />
             )}
         </main>
@@ -1,12 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { analyzeFinancesDeeply, chatWithFinanceAssistant } from '../services/gemini';
-import { Transaction } from '../types';
+import { Transaction, CategoryDefinition } from '../types';
 import { Sparkles, Send, BrainCircuit, Loader2, Bot, X, Globe } from 'lucide-react';
 import { marked } from 'marked';
 import DOMPurify from 'dompurify';
 
 interface AIConsultantProps {
   transactions: Transaction[];
+  categories: CategoryDefinition[];
   isOpen: boolean;
   onClose: () => void;
 }
@@ -19,7 +20,7 @@ interface Message {
   groundingChunks?: any[];
 }
 
-const AIConsultant: React.FC<AIConsultantProps> = ({ transactions, isOpen, onClose }) => {
+const AIConsultant: React.FC<AIConsultantProps> = ({ transactions, categories, isOpen, onClose }) => {
   const [messages, setMessages] = useState<Message[]>([
     { id: 'welcome', role: 'model', content: "Hello! I'm your financial AI assistant. I can help categorize your spending, analyze trends, or search for financial info. How can I help today?" }
   ]);
@@ -56,11 +57,11 @@ const AIConsultant: React.FC<AIConsultantProps> = ({ transactions, isOpen, onClo
 
       if (useThinkingModel) {
         // Use Gemini 3 Pro with Thinking
-        responseData = await analyzeFinancesDeeply(sortedTransactions, userMessage.content);
+        responseData = await analyzeFinancesDeeply(sortedTransactions, userMessage.content, categories);
       } else {
         // Use standard chat (Flash + Search)
         const history = messages.map(m => ({ role: m.role, content: m.content }));
-        responseData = await chatWithFinanceAssistant(history, userMessage.content, sortedTransactions);
+        responseData = await chatWithFinanceAssistant(history, userMessage.content, sortedTransactions, categories);
       }
 
       const modelMessage: Message = {
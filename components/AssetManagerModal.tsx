@@ -1,9 +1,14 @@
-import React, { useState } from 'react';
-import { Asset } from '../types';
-import { X, Plus, Trash2, Edit2, Check, Wallet, PieChart, Briefcase, Coins, Building, CircleDollarSign } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Asset, ExchangeRate } from '../types';
+import { COMMON_CURRENCIES, createCurrencyConverter } from '../utils/currency';
+import { Formatter } from '../utils/format';
+import { X, Plus, Trash2, Edit2, Check, Wallet, PieChart, Briefcase, Coins, Building, CircleDollarSign, Link } from 'lucide-react';
 
 interface AssetManagerModalProps {
   assets: Asset[];
+  sources: string[];
+  format: Formatter;
+  exchangeRates: ExchangeRate[];
   onUpdateAssets: (updater: (assets: Asset[]) => Asset[]) => void;
   onClose: () => void;
 }
@@ -11,8 +16,11 @@ interface AssetManagerModalProps {
 const COLORS = ['#10b981', '#34d399', '#6366f1', '#8b5cf6', '#f59e0b', '#ec4899', '#06b6d4', '#84cc16'];
 const ASSET_TYPES = ['Cash', 'Stock', 'Crypto', 'Real Estate', 'Other'];
 
-export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, onUpdateAssets, onClose }) => {
-  const [newAsset, setNewAsset] = useState<Partial<Asset>>({ name: '', value: 0, type: 'Cash', color: COLORS[0] });
+export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, sources, format, exchangeRates, onUpdateAssets, onClose }) => {
+  const baseCurrency = format.currency;
+  const [newAsset, setNewAsset] = useState<Partial<Asset>>({ name: '', value: 0, type: 'Cash', color: COLORS[0], currency: baseCurrency });
+  const converter = useMemo(() => createCurrencyConverter(baseCurrency, exchangeRates), [baseCurrency, exchangeRates]);
+  const currencyOptions = Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES, ...exchangeRates.map(r => r.currency)]));
   const [editingId, setEditingId] = useState<string | null>(null);
 
   const handleAdd = () => {
@@ -22,10 +30,11 @@ export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, on
       name: newAsset.name,
       value: Number(newAsset.value),
       type: newAsset.type as any || 'Other',
-      color: newAsset.color || COLORS[0]
+      color: newAsset.color || COLORS[0],
+      currency: newAsset.currency || baseCurrency
     };
     onUpdateAssets(prev => [...prev, asset]);
-    setNewAsset({ name: '', value: 0, type: 'Cash', color: COLORS[0] });
+    setNewAsset({ name: '', value: 0, type: 'Cash', color: COLORS[0], currency: newAsset.currency });
   };
 
   const handleUpdate = (id: string, updates: Partial<Asset>) => {
@@ -72,14 +81,20 @@ export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, on
                         onChange={e => setNewAsset({...newAsset, name: e.target.value})}
                         className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
                     />
-                    <div className="relative">
-                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500">$</span>
+                    <div className="flex">
+                        <select
+                            value={newAsset.currency || baseCurrency}
+                            onChange={e => setNewAsset({...newAsset, currency: e.target.value})}
+                            className="bg-slate-900 border border-r-0 border-slate-600 rounded-l px-2 py-2 text-xs text-slate-400 focus:border-indigo-500 focus:outline-none"
+                        >
+                            {currencyOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
                         <input 
                             type="number" 
                             placeholder="Value" 
                             value={newAsset.value || ''}
                             onChange={e => setNewAsset({...newAsset, value: parseFloat(e.target.value)})}
-                            className="w-full bg-slate-900 border border-slate-600 rounded px-3 pl-6 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                            className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded-r px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
                         />
                     </div>
                 </div>
@@ -124,11 +139,31 @@ export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, on
                                 </div>
                                 <div>
                                     <h4 className="font-medium text-white text-sm">{asset.name}</h4>
-                                    <p className="text-xs text-slate-400">{asset.type}</p>
+                                    <p className="text-xs text-slate-400">{asset.type}{asset.balanceDate ? ` · balance as of ${format.date(asset.balanceDate)}` : ''}</p>
+                                    {sources.length > 0 && (
+                                        <label className="flex items-center gap-1 text-xs text-slate-500 mt-1" title="Imports from this source offer to update the value with the closing balance">
+                                            <Link size={12} />
+                                            <select
+                                                value={asset.linkedSource || ''}
+                                                onChange={e => handleUpdate(asset.id, { linkedSource: e.target.value || undefined })}
+                                                className="bg-transparent border-none text-xs text-slate-400 focus:outline-none cursor-pointer"
+                                            >
+                                                <option value="">Not linked to a source</option>
+                                                {sources.map(src => <option key={src} value={src}>{src}</option>)}
+                                            </select>
+                                        </label>
+                                    )}
                                 </div>
                             </div>
                             <div className="flex items-center gap-4">
-                                <span className="font-bold text-white font-mono">${asset.value.toLocaleString()}</span>
+                                <div className="text-right">
+                                    <span className="font-bold text-white font-mono">{format.money(asset.value, { currency: asset.currency })}</span>
+                                    {asset.currency && asset.currency !== baseCurrency && (
+                                        <p className="text-[10px] text-slate-500 font-mono">
+                                            {converter.hasRate(asset.currency) ? `≈ ${format.money(converter.toBase(asset.value, asset.currency))}` : `no ${asset.currency} rate`}
+                                        </p>
+                                    )}
+                                </div>
                                 <button 
                                     onClick={() => handleDelete(asset.id)}
                                     className="text-slate-500 hover:text-red-400 transition-colors"
@@ -143,7 +178,7 @@ export const AssetManagerModal: React.FC<AssetManagerModalProps> = ({ assets, on
         </div>
         
         <div className="p-4 bg-slate-800/50 border-t border-slate-700 text-center text-xs text-slate-400">
-            Total Assets: <span className="text-emerald-400 font-bold text-sm ml-1">${assets.reduce((sum, a) => sum + a.value, 0).toLocaleString()}</span>
+            Total Assets: <span className="text-emerald-400 font-bold text-sm ml-1">{format.money(assets.reduce((sum, a) => sum + converter.toBase(a.value, a.currency), 0))}</span>
         </div>
       </div>
     </div>
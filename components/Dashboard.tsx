@@ -11,7 +11,13 @@ import { Transaction, TransactionType, Asset, Session, DashboardWidget } from '.
 import { AssetManagerModal } from './AssetManagerModal';
 import { ExpandedChartModal } from './ExpandedChartModal';
 import { generateDynamicChart } from '../services/gemini';
-import { TrendingUp, TrendingDown, DollarSign, Calendar, PieChart as PieIcon, Layers, Activity, Edit2, Sparkles, Loader2, RefreshCw, AlertCircle, Save, Check, X, Maximize2 } from 'lucide-react';
+import { createCurrencyConverter, convertToBase } from '../utils/currency';
+import { MissingRatesWarning } from './MissingRatesWarning';
+import { Formatter } from '../utils/format';
+import { expandSplits } from '../utils/transactions';
+import { isTransfer } from '../utils/transfers';
+import { rollupCategory, hasChildren, leafName, ancestorsOf, createCategoryLookup } from '../utils/categories';
+import { TrendingUp, TrendingDown, DollarSign, Calendar, PieChart as PieIcon, Layers, Activity, Edit2, Sparkles, Loader2, RefreshCw, AlertCircle, Save, Check, X, Maximize2, Hash, ChevronRight } from 'lucide-react';
 
 interface DashboardProps {
   transactions: Transaction[];
@@ -19,18 +25,19 @@ interface DashboardProps {
   onUpdateAssets: (updater: (assets: Asset[]) => Asset[]) => void;
   activeSession: Session;
   onUpdateDashboardWidgets: (updater: (widgets: DashboardWidget[]) => DashboardWidget[]) => void;
+  format: Formatter;
 }
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, format }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-slate-900 border border-slate-700 p-3 rounded-lg shadow-xl z-50">
-        <p className="text-slate-200 text-sm font-medium mb-1">{label || payload[0].name}</p>
+        <p className="text-slate-200 text-sm font-medium mb-1">{format.label(label || payload[0].name)}</p>
         {payload.map((entry: any, index: number) => (
           <p key={index} className="text-xs" style={{ color: entry.color || entry.fill }}>
-            {entry.name}: <span className="font-bold font-mono">${(typeof entry.value === 'number') ? entry.value.toLocaleString(undefined, {minimumFractionDigits: 0, maximumFractionDigits: 0}) : entry.value}</span>
+            {entry.name}: <span className="font-bold font-mono">{(typeof entry.value === 'number') ? format.money(entry.value) : entry.value}</span>
           </p>
         ))}
       </div>
@@ -39,8 +46,13 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+// Sankey node filled with the node's own color (category color, or fixed ones for income and savings)
+const SankeyNode = ({ x, y, width, height, payload }: any) => (
+  <rect x={x} y={y} width={width} height={height} fill={payload?.color || '#6366f1'} fillOpacity={0.9} />
+);
+
 // Generic Chart Renderer
-const GenericChartRenderer = ({ config }: { config: any }) => {
+const GenericChartRenderer = ({ config, format }: { config: any; format: Formatter }) => {
     if (!config || config.chartType === 'error') {
         return <div className="flex items-center justify-center h-full text-red-400 text-sm">{config?.title || "Error loading chart"}</div>
     }
@@ -52,9 +64,9 @@ const GenericChartRenderer = ({ config }: { config: any }) => {
             return (
                 <BarChart data={data}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} />
-                    <YAxis stroke="#64748b" fontSize={10} />
-                    <RechartsTooltip content={<CustomTooltip />} />
+                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} tickFormatter={format.label} />
+                    <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => format.number(val)} />
+                    <RechartsTooltip content={<CustomTooltip format={format} />} />
                     <Legend />
                     {series.map((s: any) => (
                         <Bar key={s.dataKey} dataKey={s.dataKey} name={s.name} fill={s.color} radius={[4, 4, 0, 0]} />
@@ -65,9 +77,9 @@ const GenericChartRenderer = ({ config }: { config: any }) => {
             return (
                 <LineChart data={data}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} />
-                    <YAxis stroke="#64748b" fontSize={10} />
-                    <RechartsTooltip content={<CustomTooltip />} />
+                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} tickFormatter={format.label} />
+                    <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => format.number(val)} />
+                    <RechartsTooltip content={<CustomTooltip format={format} />} />
                     <Legend />
                     {series.map((s: any) => (
                         <Line key={s.dataKey} type="monotone" dataKey={s.dataKey} name={s.name} stroke={s.color} strokeWidth={2} />
@@ -86,9 +98,9 @@ const GenericChartRenderer = ({ config }: { config: any }) => {
                         ))}
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} />
-                    <YAxis stroke="#64748b" fontSize={10} />
-                    <RechartsTooltip content={<CustomTooltip />} />
+                    <XAxis dataKey={xAxisKey} stroke="#64748b" fontSize={10} tickFormatter={format.label} />
+                    <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => format.number(val)} />
+                    <RechartsTooltip content={<CustomTooltip format={format} />} />
                     <Legend />
                     {series.map((s: any, i: number) => (
                         <Area key={s.dataKey} type="monotone" dataKey={s.dataKey} name={s.name} stroke={s.color} fill={`url(#color${i})`} />
@@ -109,10 +121,10 @@ const GenericChartRenderer = ({ config }: { config: any }) => {
                         paddingAngle={5}
                      >
                         {data.map((entry: any, index: number) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.2)" />
+                            <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.2)" />
                         ))}
                      </Pie>
-                     <RechartsTooltip content={<CustomTooltip />} />
+                     <RechartsTooltip content={<CustomTooltip format={format} />} />
                      <Legend />
                  </PieChart>
              );
@@ -122,7 +134,19 @@ const GenericChartRenderer = ({ config }: { config: any }) => {
 };
 
 
-const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAssets, activeSession, onUpdateDashboardWidgets }) => {
+const Dashboard: React.FC<DashboardProps> = ({ transactions: rawTransactions, assets: rawAssets, onUpdateAssets, activeSession, onUpdateDashboardWidgets, format }) => {
+  // --- Currency Conversion ---
+  // Every chart works on base-currency amounts; the stored records keep their own currency
+  const currency = activeSession.baseCurrency;
+  const converter = useMemo(
+    () => createCurrencyConverter(activeSession.baseCurrency, activeSession.exchangeRates),
+    [activeSession.baseCurrency, activeSession.exchangeRates]
+  );
+  const { transactions, assets, missingRates } = useMemo(
+    () => convertToBase(rawTransactions, rawAssets, converter),
+    [rawTransactions, rawAssets, converter]
+  );
+
   // Date State
   const [startDate, setStartDate] = useState(() => {
     const d = new Date();
@@ -134,6 +158,8 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
   // UI State
   const [isAssetModalOpen, setIsAssetModalOpen] = useState(false);
   const [expandedChartConfig, setExpandedChartConfig] = useState<any>(null);
+  // Category the spending donut and Sankey are drilled into; null shows top-level categories
+  const [categoryDrill, setCategoryDrill] = useState<string | null>(null);
 
   // Dynamic Chart State (Playground)
   const [customQuery, setCustomQuery] = useState('');
@@ -189,13 +215,16 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
     return transactions.filter(t => t.date >= startDate && t.date <= endDate);
   }, [transactions, startDate, endDate]);
 
+  // Custom charts aggregate by category, so splits count per part and transfers not at all
+  const chartTransactions = useMemo(() => expandSplits(transactions.filter(t => !isTransfer(t))), [transactions]);
+
   // --- AI Chart Generator (Playground) ---
   const handleGenerateCustomChart = async () => {
     if (!customQuery.trim()) return;
     setIsGeneratingChart(true);
     setCustomChartConfig(null);
     try {
-        const config = await generateDynamicChart(transactions, customQuery);
+        const config = await generateDynamicChart(chartTransactions, customQuery, activeSession.categories);
         setCustomChartConfig(config);
     } catch (e) {
         console.error(e);
@@ -228,7 +257,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
       if (!widget.query) return;
       setRefreshingWidgetId(widget.id);
       try {
-          const config = await generateDynamicChart(transactions, widget.query);
+          const config = await generateDynamicChart(chartTransactions, widget.query, activeSession.categories);
           onUpdateDashboardWidgets(prev => prev.map(w => w.id === widget.id ? { ...w, cachedConfig: config } : w));
       } catch(e) {
           console.error(e);
@@ -254,7 +283,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
     setRefreshingWidgetId(widgetId); // Use refreshing state to show loading
     
     try {
-        const config = await generateDynamicChart(transactions, editWidgetQuery);
+        const config = await generateDynamicChart(chartTransactions, editWidgetQuery, activeSession.categories);
         onUpdateDashboardWidgets(prev => prev.map(w => w.id === widgetId ? { 
             ...w, 
             query: editWidgetQuery, 
@@ -279,7 +308,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
     allSorted.forEach(t => {
         const curr = txByDate.get(t.date) || { income: 0, expense: 0 };
         if (t.type === TransactionType.INCOME) curr.income += t.amount;
-        else curr.expense += t.amount;
+        else if (t.type === TransactionType.EXPENSE) curr.expense += t.amount;
         txByDate.set(t.date, curr);
     });
 
@@ -306,8 +335,9 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
       const month = date.getUTCMonth() + 1;
       const key = `${year}-${String(month).padStart(2, '0')}`;
       const current = grouped.get(key) || { income: 0, expense: 0 };
+      // Transfers between own accounts are neither income nor expense
       if (t.type === TransactionType.INCOME) current.income += t.amount;
-      else current.expense += t.amount;
+      else if (t.type === TransactionType.EXPENSE) current.expense += t.amount;
       grouped.set(key, current);
     });
     return Array.from(grouped.entries())
@@ -316,22 +346,54 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
   }, [filteredTransactions]);
 
   // --- 3. Spending Breakdown (Donut) ---
+  const categoryInfo = useMemo(() => createCategoryLookup(activeSession.categories), [activeSession.categories]);
+
   const spendingData = useMemo(() => {
-    const expenses = filteredTransactions.filter(t => t.type === TransactionType.EXPENSE);
+    // Split transactions count once per part, in each part's category
+    const expenses = expandSplits(filteredTransactions).filter(t => t.type === TransactionType.EXPENSE);
+    // Subcategories roll up into the level being viewed
     const grouped = new Map<string, number>();
     expenses.forEach(t => {
-      const current = grouped.get(t.category) || 0;
-      grouped.set(t.category, current + t.amount);
+      const path = rollupCategory(t.category, categoryDrill);
+      if (path === null) return;
+      grouped.set(path, (grouped.get(path) || 0) + t.amount);
     });
+    const categoryPaths = expenses.map(t => t.category);
     return Array.from(grouped.entries())
-      .map(([name, value]) => ({ name, value }))
+      .map(([path, value]) => ({
+        name: path === categoryDrill ? `${leafName(path)} (direct)` : leafName(path),
+        value,
+        path,
+        color: categoryInfo(path).color,
+        icon: categoryInfo(path).icon,
+        drillable: path !== categoryDrill && hasChildren(path, categoryPaths)
+      }))
       .sort((a, b) => b.value - a.value);
-  }, [filteredTransactions]);
+  }, [filteredTransactions, categoryDrill, categoryInfo]);
 
   const totalSpent = spendingData.reduce((acc, curr) => acc + curr.value, 0);
 
+  // How much of the spending in view is fixed or essential, from the flags of each transaction's own category
+  const spendingProfile = useMemo(() => {
+    const expenses = expandSplits(filteredTransactions)
+      .filter(t => t.type === TransactionType.EXPENSE && rollupCategory(t.category, categoryDrill) !== null);
+    return {
+      fixed: expenses.filter(t => categoryInfo(t.category).fixed).reduce((sum, t) => sum + t.amount, 0),
+      essential: expenses.filter(t => categoryInfo(t.category).essential).reduce((sum, t) => sum + t.amount, 0)
+    };
+  }, [filteredTransactions, categoryDrill, categoryInfo]);
+
   // --- 4. Sankey Data ---
   const sankeyData = useMemo(() => {
+    if (categoryDrill !== null) {
+        // Drilled in: the category flows into its subcategories
+        const nodes: { name: string; path?: string; color?: string }[] = [
+            { name: leafName(categoryDrill), path: categoryDrill, color: categoryInfo(categoryDrill).color },
+            ...spendingData.map(c => ({ name: c.name, path: c.path, color: c.color }))
+        ];
+        const links = spendingData.map((c, idx) => ({ source: 0, target: idx + 1, value: c.value }));
+        return { nodes, links };
+    }
     const incomeTotal = filteredTransactions
         .filter(t => t.type === TransactionType.INCOME)
         .reduce((sum, t) => sum + t.amount, 0);
@@ -339,16 +401,55 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
     const otherExpense = spendingData.slice(6).reduce((sum, t) => sum + t.value, 0);
     const totalExpense = totalSpent;
     const surplus = Math.max(0, incomeTotal - totalExpense);
-    const nodes = [ { name: 'Income' }, ...expenseCats.map(c => ({ name: c.name })) ];
-    if (otherExpense > 0) nodes.push({ name: 'Other' });
-    if (surplus > 0) nodes.push({ name: 'Savings' });
+    const nodes: { name: string; path?: string; color?: string }[] = [ { name: 'Income', color: '#10b981' }, ...expenseCats.map(c => ({ name: c.name, path: c.path, color: c.color })) ];
+    if (otherExpense > 0) nodes.push({ name: 'Other', color: '#64748b' });
+    if (surplus > 0) nodes.push({ name: 'Savings', color: '#22c55e' });
     const links = [];
     expenseCats.forEach((cat, idx) => { links.push({ source: 0, target: idx + 1, value: cat.value }); });
     if (otherExpense > 0) links.push({ source: 0, target: expenseCats.length + 1, value: otherExpense });
     if (surplus > 0) links.push({ source: 0, target: nodes.length - 1, value: surplus });
     if (incomeTotal === 0 && totalExpense > 0) nodes[0].name = "Capital";
     return { nodes, links };
-  }, [filteredTransactions, spendingData, totalSpent]);
+  }, [filteredTransactions, spendingData, totalSpent, categoryDrill, categoryInfo]);
+
+  const drillInto = (path: string | undefined) => {
+    const entry = spendingData.find(c => c.path === path);
+    if (entry?.drillable) setCategoryDrill(entry.path);
+  };
+
+  const renderDrillBreadcrumb = () => (
+      categoryDrill !== null ? (
+        <div className="flex items-center flex-wrap gap-1 text-xs mb-3">
+            <button onClick={() => setCategoryDrill(null)} className="text-indigo-400 hover:text-indigo-300">All categories</button>
+            {ancestorsOf(categoryDrill).map(path => (
+                <React.Fragment key={path}>
+                    <ChevronRight size={12} className="text-slate-600" />
+                    {path === categoryDrill
+                        ? <span className="text-slate-300 font-medium">{leafName(path)}</span>
+                        : <button onClick={() => setCategoryDrill(path)} className="text-indigo-400 hover:text-indigo-300">{leafName(path)}</button>}
+                </React.Fragment>
+            ))}
+        </div>
+      ) : null
+  );
+
+  // --- 5. Tags ---
+  // A tag counts the full amount of each transaction carrying it, so tags may overlap
+  const tagData = useMemo(() => {
+    const grouped = new Map<string, { income: number; expense: number }>();
+    filteredTransactions.forEach(t => {
+      t.tags?.forEach(tag => {
+        const current = grouped.get(tag) || { income: 0, expense: 0 };
+        if (t.type === TransactionType.INCOME) current.income += t.amount;
+        else if (t.type === TransactionType.EXPENSE) current.expense += t.amount;
+        grouped.set(tag, current);
+      });
+    });
+    return Array.from(grouped.entries())
+      .map(([name, data]) => ({ name: `#${name}`, ...data }))
+      .filter(d => d.income > 0 || d.expense > 0)
+      .sort((a, b) => b.expense - a.expense || b.income - a.income);
+  }, [filteredTransactions]);
 
   // --- RENDERERS FOR PREDEFINED CHARTS ---
   const renderNetWorth = () => (
@@ -361,9 +462,9 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
             </linearGradient>
           </defs>
           <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-          <XAxis dataKey="date" stroke="#64748b" fontSize={10} tickFormatter={(val) => { const d = new Date(val); return `${d.getUTCMonth() + 1}/${d.getUTCDate()}`; }} minTickGap={40} />
-          <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => `$${val/1000}k`} />
-          <RechartsTooltip content={<CustomTooltip />} />
+          <XAxis dataKey="date" stroke="#64748b" fontSize={10} tickFormatter={format.shortDate} minTickGap={40} />
+          <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => format.money(val, { compact: true })} />
+          <RechartsTooltip content={<CustomTooltip format={format} />} />
           <Area type="monotone" dataKey="value" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorValue)" />
         </AreaChart>
       </ResponsiveContainer>
@@ -377,12 +478,12 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                     <Pie data={assets as any[]} cx="50%" cy="50%" innerRadius={60} outerRadius={80} dataKey="value">
                         {assets.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.5)" />)}
                     </Pie>
-                    <RechartsTooltip content={<CustomTooltip />} />
+                    <RechartsTooltip content={<CustomTooltip format={format} />} />
                 </PieChart>
             </ResponsiveContainer>
              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
                 <span className="text-xs text-slate-400">Total</span>
-                <span className="text-lg font-bold text-white">${assets.reduce((sum, a) => sum + a.value, 0).toLocaleString()}</span>
+                <span className="text-lg font-bold text-white">{format.money(assets.reduce((sum, a) => sum + a.value, 0))}</span>
             </div>
         </div>
     ) : (
@@ -397,40 +498,65 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
     <ResponsiveContainer width="100%" height={300}>
         <BarChart data={cashFlowData}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-            <XAxis dataKey="name" stroke="#64748b" fontSize={10} />
-            <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => `$${val}`} />
-            <RechartsTooltip content={<CustomTooltip />} />
+            <XAxis dataKey="name" stroke="#64748b" fontSize={10} tickFormatter={format.month} />
+            <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => format.money(val, { compact: true })} />
+            <RechartsTooltip content={<CustomTooltip format={format} />} />
             <Bar dataKey="income" fill="#10b981" radius={[4, 4, 0, 0]} maxBarSize={40} />
             <Bar dataKey="expense" fill="#ef4444" radius={[4, 4, 0, 0]} maxBarSize={40} />
         </BarChart>
      </ResponsiveContainer>
   );
 
+  const renderTags = () => (
+      tagData.length > 0 ? (
+        <ResponsiveContainer width="100%" height={Math.max(200, Math.min(tagData.length, 10) * 36)}>
+            <BarChart data={tagData.slice(0, 10)} layout="vertical" margin={{ left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                <XAxis type="number" stroke="#64748b" fontSize={10} tickFormatter={(val) => format.money(val, { compact: true })} />
+                <YAxis type="category" dataKey="name" stroke="#64748b" fontSize={11} width={110} />
+                <RechartsTooltip content={<CustomTooltip format={format} />} />
+                <Bar dataKey="expense" name="Expenses" fill="#ef4444" radius={[0, 4, 4, 0]} maxBarSize={18} />
+                <Bar dataKey="income" name="Income" fill="#10b981" radius={[0, 4, 4, 0]} maxBarSize={18} />
+            </BarChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="h-[200px] flex items-center justify-center text-center text-slate-500 text-sm px-6">
+            No tagged transactions in this period. Add tags in the transaction list or with a rule.
+        </div>
+      )
+  );
+
   const renderSpending = () => (
       spendingData.length > 0 ? (
         <div className="flex-1 flex items-center gap-4">
             <div className="w-1/2 h-[250px] relative">
                 <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
-                        <Pie data={spendingData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
-                            {spendingData.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.2)" />)}
+                        <Pie data={spendingData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value" onClick={(entry: any) => drillInto(entry?.path)}>
+                            {spendingData.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.color} stroke="rgba(0,0,0,0.2)" className={entry.drillable ? 'cursor-pointer' : ''} />)}
                         </Pie>
-                        <RechartsTooltip content={<CustomTooltip />} />
+                        <RechartsTooltip content={<CustomTooltip format={format} />} />
                     </PieChart>
                 </ResponsiveContainer>
                 <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
                     <span className="text-xs text-slate-400">Total Spent</span>
-                    <span className="text-lg font-bold text-white">${totalSpent.toLocaleString()}</span>
+                    <span className="text-lg font-bold text-white">{format.money(totalSpent)}</span>
                 </div>
             </div>
             <div className="w-1/2 max-h-[250px] overflow-y-auto space-y-2 pr-2 custom-scrollbar">
                 {spendingData.map((entry, index) => (
-                    <div key={index} className="flex justify-between items-center text-xs">
+                    <div key={entry.path} className="flex justify-between items-center text-xs">
                         <div className="flex items-center gap-2">
-                            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
-                            <span className="text-slate-300 truncate max-w-[100px]">{entry.name}</span>
+                            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }}></div>
+                            {entry.drillable ? (
+                                <button onClick={() => drillInto(entry.path)} className="text-slate-300 hover:text-white truncate max-w-[100px] flex items-center gap-0.5" title={`Show subcategories of ${entry.path}`}>
+                                    {entry.icon} {entry.name} <ChevronRight size={10} className="shrink-0 text-slate-500" />
+                                </button>
+                            ) : (
+                                <span className="text-slate-300 truncate max-w-[100px]">{entry.icon} {entry.name}</span>
+                            )}
                         </div>
-                        <span className="font-mono text-slate-400">${entry.value.toLocaleString()}</span>
+                        <span className="font-mono text-slate-400">{format.money(entry.value)}</span>
                     </div>
                 ))}
             </div>
@@ -445,12 +571,13 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
         <ResponsiveContainer width="100%" height={350}>
             <Sankey
                 data={sankeyData}
-                node={{ stroke: '#1e293b', strokeWidth: 0, fill: '#6366f1' }}
+                node={<SankeyNode />}
                 link={{ stroke: '#64748b' }}
                 nodePadding={50}
                 margin={{ left: 10, right: 10, top: 10, bottom: 10 }}
+                onClick={(item: any, type: string) => { if (type === 'node') drillInto(item?.payload?.path); }}
             >
-                <RechartsTooltip content={<CustomTooltip />} />
+                <RechartsTooltip content={<CustomTooltip format={format} />} />
             </Sankey>
         </ResponsiveContainer>
      ) : (
@@ -489,7 +616,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
         config = {
             chartType: 'pie',
             title: widget.title,
-            description: "Breakdown of expenses by category.",
+            description: categoryDrill ? `Breakdown of ${categoryDrill} by subcategory.` : "Breakdown of expenses by category.",
             data: spendingData,
             xAxisKey: 'name', // Label
             series: [{ dataKey: 'value' }] // Value
@@ -503,11 +630,23 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
             xAxisKey: 'name',
             series: [{ dataKey: 'value' }]
         };
+    } else if (widget.type === 'tags') {
+        config = {
+            chartType: 'bar',
+            title: widget.title,
+            description: "Income and expenses per tag. Transactions with several tags count for each of them.",
+            data: tagData,
+            xAxisKey: 'name',
+            series: [
+                { dataKey: 'expense', name: 'Expenses', color: '#ef4444' },
+                { dataKey: 'income', name: 'Income', color: '#10b981' }
+            ]
+        };
     } else if (widget.type === 'sankey') {
          config = {
              chartType: 'sankey',
              title: widget.title,
-             description: "Flow of money from income sources to expense categories.",
+             description: categoryDrill ? `Flow of ${categoryDrill} into its subcategories.` : "Flow of money from income sources to expense categories.",
              data: sankeyData,
              // Sankey doesn't use standard axis keys
              xAxisKey: '', 
@@ -544,7 +683,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                         </div>
                         <div className="flex items-center gap-4">
                              <div className="text-right">
-                                <p className="text-2xl font-bold text-white">${(netWorthData[netWorthData.length - 1]?.value || 0).toLocaleString()}</p>
+                                <p className="text-2xl font-bold text-white">{format.money(netWorthData[netWorthData.length - 1]?.value || 0)}</p>
                                 <p className="text-xs text-emerald-400">Current Estimate</p>
                             </div>
                             <ExpandButton />
@@ -553,7 +692,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                     {assets.length === 0 && (
                         <div className="mb-4 bg-amber-500/10 border border-amber-500/30 p-2 rounded flex items-center gap-2 text-xs text-amber-300">
                             <AlertCircle size={14} />
-                            <span>Wealth starts at $0. Add your assets.</span>
+                            <span>Wealth starts at {format.money(0)}. Add your assets.</span>
                             <button onClick={() => setIsAssetModalOpen(true)} className="underline font-bold">Add Assets</button>
                         </div>
                     )}
@@ -601,13 +740,30 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                         <div className="mb-4 flex justify-between items-start">
                             <div>
                                 <h3 className="text-xl font-bold text-white flex items-center gap-2"><Layers className="text-amber-400" size={20}/> {widget.title}</h3>
-                                <p className="text-xs text-slate-500">Distribution of expenses</p>
+                                <p className="text-xs text-slate-500">
+                                    Distribution of expenses
+                                    {totalSpent > 0 && ` · ${Math.round(spendingProfile.fixed / totalSpent * 100)}% fixed · ${Math.round(spendingProfile.essential / totalSpent * 100)}% essential`}
+                                </p>
                             </div>
                             <ExpandButton />
                         </div>
+                        {renderDrillBreadcrumb()}
                         {renderSpending()}
                    </div>
                );
+            case 'tags':
+                return (
+                    <div className="flex flex-col h-full">
+                        <div className="mb-4 flex justify-between items-start">
+                            <div>
+                                <h3 className="text-xl font-bold text-white flex items-center gap-2"><Hash className="text-indigo-400" size={20}/> {widget.title}</h3>
+                                <p className="text-xs text-slate-500">Labels across categories</p>
+                            </div>
+                            <ExpandButton />
+                        </div>
+                        {renderTags()}
+                    </div>
+                );
             case 'sankey':
                 return (
                     <div className="flex flex-col h-full">
@@ -618,6 +774,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                             </div>
                             <ExpandButton />
                         </div>
+                        {renderDrillBreadcrumb()}
                         {renderSankey()}
                     </div>
                 );
@@ -675,7 +832,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                         </div>
                         <div className="flex-1 min-h-[250px]">
                             <ResponsiveContainer width="100%" height="100%">
-                                {GenericChartRenderer({ config: widget.cachedConfig }) || <div>No data</div>}
+                                {GenericChartRenderer({ config: widget.cachedConfig, format }) || <div>No data</div>}
                             </ResponsiveContainer>
                         </div>
                     </div>
@@ -688,11 +845,16 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
 
   return (
     <div className="space-y-6 animate-fade-in pb-10">
+
+      <MissingRatesWarning currencies={missingRates} baseCurrency={currency} />
       
       {/* Asset Manager Modal */}
       {isAssetModalOpen && (
         <AssetManagerModal 
-            assets={assets} 
+            assets={rawAssets} 
+            sources={activeSession.sources || []}
+            format={format}
+            exchangeRates={activeSession.exchangeRates}
             onUpdateAssets={onUpdateAssets} 
             onClose={() => setIsAssetModalOpen(false)} 
         />
@@ -701,6 +863,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
       {/* Expanded Chart Overlay */}
       <ExpandedChartModal 
         config={expandedChartConfig} 
+        format={format}
         onClose={() => setExpandedChartConfig(null)} 
       />
 
@@ -750,7 +913,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, assets, onUpdateAss
                         </div>
                      </div>
                      <ResponsiveContainer width="100%" height={250}>
-                        {GenericChartRenderer({ config: customChartConfig }) || <div></div>}
+                        {GenericChartRenderer({ config: customChartConfig, format }) || <div></div>}
                      </ResponsiveContainer>
                  </div>
              )}
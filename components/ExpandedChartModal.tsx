@@ -8,23 +8,30 @@ import {
   LineChart, Line, Brush
 } from 'recharts';
 import { X, ZoomIn } from 'lucide-react';
+import { Formatter } from '../utils/format';
 
 interface ExpandedChartModalProps {
   config: any;
+  format: Formatter;
   onClose: () => void;
 }
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+// Sankey nodes carry their own color (see sankeyData in Dashboard)
+const SankeyNode = ({ x, y, width, height, payload }: any) => (
+  <rect x={x} y={y} width={width} height={height} fill={payload?.color || '#6366f1'} fillOpacity={0.9} />
+);
+
+const CustomTooltip = ({ active, payload, label, format }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl z-50">
-        <p className="text-slate-200 text-base font-bold mb-2">{label || payload[0].name}</p>
+        <p className="text-slate-200 text-base font-bold mb-2">{format.label(label || payload[0].name)}</p>
         {payload.map((entry: any, index: number) => (
           <p key={index} className="text-sm flex items-center gap-2" style={{ color: entry.color || entry.fill }}>
             <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color || entry.fill }}></span>
-            {entry.name}: <span className="font-mono font-bold text-white">${(typeof entry.value === 'number') ? entry.value.toLocaleString() : entry.value}</span>
+            {entry.name}: <span className="font-mono font-bold text-white">{(typeof entry.value === 'number') ? format.money(entry.value, { decimals: 2 }) : entry.value}</span>
           </p>
         ))}
       </div>
@@ -33,7 +40,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config, onClose }) => {
+export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config, format, onClose }) => {
   if (!config) return null;
 
   const { chartType, data, xAxisKey, series, title, description } = config;
@@ -44,9 +51,9 @@ export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config,
             return (
                 <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} />
-                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={(val) => `$${val}`} />
-                    <Tooltip content={<CustomTooltip />} cursor={{ fill: '#1e293b' }} />
+                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={format.label} />
+                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={(val) => format.money(val)} />
+                    <Tooltip content={<CustomTooltip format={format} />} cursor={{ fill: '#1e293b' }} />
                     <Legend wrapperStyle={{ paddingTop: '20px' }} />
                     {series.map((s: any) => (
                         <Bar key={s.dataKey} dataKey={s.dataKey} name={s.name} fill={s.color} radius={[4, 4, 0, 0]} maxBarSize={60} />
@@ -58,9 +65,9 @@ export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config,
             return (
                 <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} />
-                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} />
-                    <Tooltip content={<CustomTooltip />} />
+                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={format.label} />
+                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={(val) => format.number(val)} />
+                    <Tooltip content={<CustomTooltip format={format} />} />
                     <Legend wrapperStyle={{ paddingTop: '20px' }} />
                     {series.map((s: any) => (
                         <Line key={s.dataKey} type="monotone" dataKey={s.dataKey} name={s.name} stroke={s.color} strokeWidth={3} dot={{ r: 4, strokeWidth: 2 }} activeDot={{ r: 8 }} />
@@ -80,9 +87,9 @@ export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config,
                         ))}
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} />
-                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} />
-                    <Tooltip content={<CustomTooltip />} />
+                    <XAxis dataKey={xAxisKey} stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={format.label} />
+                    <YAxis stroke="#94a3b8" fontSize={12} tick={{ fill: '#94a3b8' }} tickFormatter={(val) => format.number(val)} />
+                    <Tooltip content={<CustomTooltip format={format} />} />
                     <Legend wrapperStyle={{ paddingTop: '20px' }} />
                     {series.map((s: any, i: number) => (
                         <Area key={s.dataKey} type="monotone" dataKey={s.dataKey} name={s.name} stroke={s.color} strokeWidth={3} fill={`url(#expandedColor${i})`} />
@@ -109,7 +116,7 @@ export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config,
                             <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.2)" />
                         ))}
                      </Pie>
-                     <Tooltip content={<CustomTooltip />} />
+                     <Tooltip content={<CustomTooltip format={format} />} />
                      <Legend wrapperStyle={{ paddingTop: '20px' }} />
                  </PieChart>
              );
@@ -117,12 +124,12 @@ export const ExpandedChartModal: React.FC<ExpandedChartModalProps> = ({ config,
             return (
                 <Sankey
                     data={data}
-                    node={{ stroke: '#1e293b', strokeWidth: 0, fill: '#6366f1' }}
+                    node={<SankeyNode />}
                     link={{ stroke: '#64748b', fillOpacity: 0.3 }}
                     nodePadding={50}
                     margin={{ left: 20, right: 20, top: 20, bottom: 20 }}
                 >
-                    <Tooltip content={<CustomTooltip />} />
+                    <Tooltip content={<CustomTooltip format={format} />} />
                 </Sankey>
             );
         default:
@@ -1,16 +1,22 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Goal, Asset, Transaction, TransactionType } from '../types';
+import { Goal, Asset, Transaction, TransactionType, ExchangeRate, CategoryDefinition } from '../types';
 import { predictRecurringExpenses } from '../services/gemini';
+import { COMMON_CURRENCIES, createCurrencyConverter, convertToBase, findMissingRates } from '../utils/currency';
+import { MissingRatesWarning } from './MissingRatesWarning';
+import { Formatter } from '../utils/format';
 import { Target, Plus, TrendingUp, AlertCircle, CheckCircle, BrainCircuit, X, Trash2, Calendar, Coins, AlertTriangle, Shield, Wallet, Info, ChevronDown, ChevronUp, Loader2, ArrowRight, Edit2, Save, ArrowUpRight, ArrowDownLeft } from 'lucide-react';
 
 interface GoalManagerProps {
   goals: Goal[];
   assets: Asset[];
   transactions: Transaction[];
+  categories: CategoryDefinition[];
+  format: Formatter;
+  exchangeRates: ExchangeRate[];
   onUpdateGoals: (updater: (goals: Goal[]) => Goal[]) => void;
 }
 
-export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transactions, onUpdateGoals }) => {
+export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets: rawAssets, transactions: rawTransactions, categories, format, exchangeRates, onUpdateGoals }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingGoalId, setEditingGoalId] = useState<string | null>(null); // Track if editing via Modal
   
@@ -42,11 +48,25 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
   const [isLoadingAI, setIsLoadingAI] = useState(false);
   const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
 
+  // --- Currency Conversion ---
+  // Assets and cash flow are summed in the base currency; each goal keeps its own currency
+  const baseCurrency = format.currency;
+  const converter = useMemo(() => createCurrencyConverter(baseCurrency, exchangeRates), [baseCurrency, exchangeRates]);
+  const { transactions, assets, missingRates: missingFlowRates } = useMemo(
+    () => convertToBase(rawTransactions, rawAssets, converter),
+    [rawTransactions, rawAssets, converter]
+  );
+  // Goal allocations are converted for the totals as well
+  const missingRates = findMissingRates([...missingFlowRates, ...goals.map(g => g.currency)], converter);
+  const currencyOf = (goal: Partial<Goal>) => goal.currency || baseCurrency;
+  const money = (amount: number, currency?: string) => format.money(amount, { currency });
+  const currencyOptions = Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES, ...exchangeRates.map(r => r.currency)]));
+
   // --- AI Forecasting ---
   useEffect(() => {
       const fetchForecast = async () => {
           setIsLoadingAI(true);
-          const result = await predictRecurringExpenses(transactions);
+          const result = await predictRecurringExpenses(transactions, categories);
           setRecurringData(result);
           setIsLoadingAI(false);
       };
@@ -61,7 +81,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
       .reduce((sum, a) => sum + a.value, 0);
   }, [assets]);
 
-  const allocatedTotal = goals.reduce((sum, g) => sum + g.allocatedAmount, 0);
+  const allocatedTotal = goals.reduce((sum, g) => sum + converter.toBase(g.allocatedAmount, g.currency), 0);
   const unallocatedFunds = totalLiquidAssets - allocatedTotal;
 
   // Average Monthly Surplus
@@ -74,7 +94,9 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
       const key = `${d.getFullYear()}-${d.getMonth()}`;
       const curr = months.get(key) || 0;
       if (t.type === TransactionType.INCOME) months.set(key, curr + t.amount);
-      else months.set(key, curr - t.amount);
+      else if (t.type === TransactionType.EXPENSE) months.set(key, curr - t.amount);
+      // Transfers between own accounts neither add to nor take from savings
+      else months.set(key, curr);
     });
     if (months.size === 0) return 0;
     const totalSurplus = Array.from(months.values()).reduce((sum, val) => sum + val, 0);
@@ -138,7 +160,8 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
             priority: currentGoal.priority || 3,
             icon: currentGoal.icon || (currentGoal.type === 'POCKET' ? '🛡️' : '🎯'),
             quickAdjustStep: Number(currentGoal.quickAdjustStep || 100),
-            savingRule: currentGoal.savingRule
+            savingRule: currentGoal.savingRule,
+            currency: currencyOf(currentGoal)
         }]);
     }
 
@@ -211,8 +234,8 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
         monthlyPower = goal.savingRule.amount;
         method = 'rule';
     } else {
-        // Otherwise assume we use the general monthly surplus
-        monthlyPower = monthlySavingsRate;
+        // Otherwise assume we use the general monthly surplus, expressed in the goal's currency
+        monthlyPower = monthlySavingsRate / converter.toBase(1, goal.currency);
     }
 
     if (monthlyPower <= 0) return { status: 'red', msg: 'No projected savings' };
@@ -225,7 +248,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
     } else {
         // Shortfall
         const shortfall = goal.targetAmount - projectedTotal;
-        return { status: 'yellow', msg: `Shortfall -$${shortfall.toLocaleString(undefined, {maximumFractionDigits:0})}` };
+        return { status: 'yellow', msg: `Shortfall -${money(shortfall, currencyOf(goal))}` };
     }
   };
 
@@ -263,19 +286,19 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                         <div className="flex flex-col gap-1 mt-1">
                             {goal.type === 'GOAL' && (
                                 <span className="flex items-center gap-1 text-xs text-slate-400">
-                                    <Calendar size={12}/> Target: {goal.targetDate}
+                                    <Calendar size={12}/> Target: {format.date(goal.targetDate)}
                                 </span>
                             )}
                             {goal.savingRule && goal.savingRule.amount > 0 && (
                                 <span className="text-xs text-indigo-300 flex items-center gap-1">
-                                    <TrendingUp size={12}/> Rule: Save ${goal.savingRule.amount}/{goal.savingRule.frequency}
+                                    <TrendingUp size={12}/> Rule: Save {money(goal.savingRule.amount, currencyOf(goal))}/{goal.savingRule.frequency}
                                 </span>
                             )}
                         </div>
                     </div>
                 </div>
                 <div className="text-right">
-                    <div className="text-2xl font-bold text-white">${goal.targetAmount.toLocaleString()}</div>
+                    <div className="text-2xl font-bold text-white">{money(goal.targetAmount, currencyOf(goal))}</div>
                     <div className={`text-xs font-bold ${feasibility.status === 'green' ? 'text-emerald-400' : 'text-slate-400'} ${feasibility.status === 'yellow' ? 'text-amber-400' : ''} ${feasibility.status === 'red' ? 'text-red-400' : ''}`}>
                         {feasibility.msg}
                     </div>
@@ -309,7 +332,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                                 className="text-white font-mono font-bold hover:text-indigo-400 cursor-pointer border border-transparent hover:border-slate-700 rounded px-1"
                                 title="Click to edit"
                             >
-                                ${goal.allocatedAmount.toLocaleString()}
+                                {money(goal.allocatedAmount, currencyOf(goal))}
                             </div>
                         )}
                     </div>
@@ -321,7 +344,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                     </button>
                  </div>
                  <div className="text-xs text-slate-500 text-right">
-                     Step: ${goal.quickAdjustStep || 100}
+                     Step: {money(goal.quickAdjustStep || 100, currencyOf(goal))}
                  </div>
             </div>
 
@@ -347,7 +370,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                         <input 
                             type="range" 
                             min="0" 
-                            max={Math.max(goal.targetAmount, goal.allocatedAmount + unallocatedFunds)} 
+                            max={Math.max(goal.targetAmount, goal.allocatedAmount + unallocatedFunds / converter.toBase(1, goal.currency))} 
                             step="10"
                             value={goal.allocatedAmount}
                             onChange={(e) => handleUpdateAllocation(goal.id, Number(e.target.value))}
@@ -376,17 +399,18 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
 
   return (
     <div className="space-y-8 animate-fade-in pb-10">
-      
+
+      <MissingRatesWarning currencies={missingRates} baseCurrency={baseCurrency} />
       {/* --- Top Dashboard --- */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* 1. Liquid Assets */}
         <div className="bg-surface p-5 rounded-xl border border-slate-700 shadow-lg">
             <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider mb-2">Liquid Savings Pool</h3>
-            <div className="text-2xl font-bold text-white mb-1">${totalLiquidAssets.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-white mb-1">{money(totalLiquidAssets)}</div>
             <div className="flex justify-between text-xs mt-2 pt-2 border-t border-slate-700/50">
                 <span className="text-slate-500">Unallocated</span>
                 <span className={`font-mono font-bold ${unallocatedFunds < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
-                    ${unallocatedFunds.toLocaleString()}
+                    {money(unallocatedFunds)}
                 </span>
             </div>
         </div>
@@ -398,7 +422,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                 <Info size={12} className="text-slate-500 cursor-help" />
             </div>
             <div className={`text-2xl font-bold ${monthlySavingsRate >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                ${monthlySavingsRate.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                {money(monthlySavingsRate)}
             </div>
             
             {/* Tooltip */}
@@ -412,12 +436,12 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
             <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider mb-2">Current Month Forecast</h3>
             <div className="flex justify-between items-end mb-1">
                 <span className="text-xs text-slate-500">Actual Surplus</span>
-                <span className={`font-bold ${currentMonthSnapshot.surplus >= 0 ? 'text-white' : 'text-red-400'}`}>${currentMonthSnapshot.surplus.toLocaleString()}</span>
+                <span className={`font-bold ${currentMonthSnapshot.surplus >= 0 ? 'text-white' : 'text-red-400'}`}>{money(currentMonthSnapshot.surplus)}</span>
             </div>
             {recurringData && (
                 <div className="flex justify-between items-end text-xs pt-1 border-t border-slate-700/50">
                     <span className="text-indigo-400">Expected End</span>
-                    <span className="font-mono">~${(currentMonthSnapshot.income - recurringData.total).toLocaleString()}</span>
+                    <span className="font-mono">~{money(currentMonthSnapshot.income - recurringData.total)}</span>
                 </div>
             )}
         </div>
@@ -435,18 +459,18 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                     <div className="flex justify-between items-end mb-1">
                         <div>
                             <div className="text-xs text-slate-400">Fixed Spend</div>
-                            <div className="text-lg font-bold text-red-300">-${recurringData.total.toLocaleString()}</div>
+                            <div className="text-lg font-bold text-red-300">-{money(recurringData.total)}</div>
                         </div>
                         <div className="text-right">
                             <div className="text-xs text-slate-400">Exp. Income</div>
-                            <div className="text-lg font-bold text-emerald-300">+${recurringData.expectedIncome.toLocaleString()}</div>
+                            <div className="text-lg font-bold text-emerald-300">+{money(recurringData.expectedIncome)}</div>
                         </div>
                     </div>
                     
                     <div className="pt-2 border-t border-indigo-500/20 mt-1 flex justify-between items-center">
                         <span className="text-xs text-indigo-200">Baseline Surplus:</span>
                         <span className={`font-bold ${recurringData.expectedIncome - recurringData.total >= 0 ? 'text-white' : 'text-red-400'}`}>
-                            ${(recurringData.expectedIncome - recurringData.total).toLocaleString()}
+                            {money(recurringData.expectedIncome - recurringData.total)}
                         </span>
                     </div>
 
@@ -458,7 +482,7 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                                 <div key={idx} className="flex justify-between text-xs">
                                     <span className="text-slate-400">{item.category} ({item.reason})</span>
                                     <span className={`${item.type === 'income' ? 'text-emerald-400' : 'text-red-400'}`}>
-                                        {item.type === 'income' ? '+' : '-'}${item.amount}
+                                        {item.type === 'income' ? '+' : '-'}{money(item.amount)}
                                     </span>
                                 </div>
                             ))}
@@ -545,7 +569,12 @@ export const GoalManager: React.FC<GoalManagerProps> = ({ goals, assets, transac
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="text-xs text-slate-400 block mb-1">Target Amount</label>
-                            <input type="number" value={currentGoal.targetAmount || ''} onChange={e => setCurrentGoal({...currentGoal, targetAmount: Number(e.target.value)})} className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white focus:border-indigo-500 outline-none" placeholder="0.00"/>
+                            <div className="flex">
+                                <select value={currencyOf(currentGoal)} onChange={e => setCurrentGoal({...currentGoal, currency: e.target.value})} className="bg-slate-900 border border-r-0 border-slate-600 rounded-l px-2 py-2 text-xs text-slate-400 focus:border-indigo-500 outline-none">
+                                    {currencyOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <input type="number" value={currentGoal.targetAmount || ''} onChange={e => setCurrentGoal({...currentGoal, targetAmount: Number(e.target.value)})} className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded-r px-3 py-2 text-white focus:border-indigo-500 outline-none" placeholder="0.00"/>
+                            </div>
                         </div>
                         <div>
                             <label className="text-xs text-slate-400 block mb-1">{currentGoal.type === 'POCKET' ? 'Review Date (Optional)' : 'Target Date'}</label>
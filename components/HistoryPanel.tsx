@@ -0,0 +1,62 @@
+import React from 'react';
+import { History, X, CornerDownRight } from 'lucide-react';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  entries: { id: number; label: string; timestamp: number }[];
+  currentIndex: number;
+  onJump: (entryId: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, entries, currentIndex, onJump, onClose }) => {
+  if (!isOpen) return null;
+
+  // Newest first; keep the original index to tell applied from undone entries
+  const rows = entries.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md flex flex-col max-h-[80vh]">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-white">
+            <History size={18} className="text-indigo-400" />
+            <h3 className="text-lg font-bold">Change History</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {rows.map(({ entry, index }) => {
+            const isCurrent = index === currentIndex;
+            const isUndone = index > currentIndex;
+            return (
+              <button
+                key={entry.id}
+                onClick={() => onJump(entry.id)}
+                disabled={isCurrent}
+                className={`w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                  isCurrent
+                    ? 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/30 cursor-default'
+                    : isUndone
+                      ? 'text-slate-500 hover:bg-slate-800 line-through decoration-slate-600'
+                      : 'text-slate-300 hover:bg-slate-800'
+                }`}
+              >
+                <CornerDownRight size={14} className={`mt-0.5 shrink-0 ${isCurrent ? 'text-indigo-400' : 'text-slate-600'}`} />
+                <span className="flex-1 break-words">{entry.label}</span>
+                <span className="text-xs text-slate-500 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-700 text-xs text-slate-500">
+          Click an entry to return to that state. Ctrl+Z undoes, Ctrl+Shift+Z redoes.
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface MissingRatesWarningProps {
+  currencies: string[]; // See convertToBase / findMissingRates in utils/currency.ts
+  baseCurrency: string;
+}
+
+export const MissingRatesWarning: React.FC<MissingRatesWarningProps> = ({ currencies, baseCurrency }) => {
+  if (currencies.length === 0) return null;
+  return (
+    <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 text-sm text-amber-200">
+      <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+      <span>
+        No exchange rate to {baseCurrency} for {currencies.join(', ')}. These amounts are counted as {baseCurrency} until you add a rate in Settings → Currencies.
+      </span>
+    </div>
+  );
+};
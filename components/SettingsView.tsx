@@ -1,6 +1,13 @@
-import React, { useState } from 'react';
-import { Session, CategorizationRule, ImportSettings, Transaction, DashboardWidget } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Session, CategorizationRule, RuleMatchMode, CategoryDefinition, RuleCondition, RuleField, TransactionType, ImportSettings, Transaction, DashboardWidget, ImportProfile, DateFormat, ExchangeRate } from '../types';
 import { generateDynamicChart } from '../services/gemini';
+import { exportQif } from '../utils/parser';
+import { DATE_FORMAT_LABELS } from '../utils/dates';
+import { COMMON_CURRENCIES, isCurrencyCode, parseExchangeRatesCsv } from '../utils/currency';
+import { DISPLAY_LOCALES, Formatter } from '../utils/format';
+import { mapCategories, parseTagList } from '../utils/transactions';
+import { RULE_FIELD_LABELS, RULE_OPERATORS, RULE_OPERATOR_LABELS, WEEKDAY_LABELS, createCondition, conditionError, describeRule, sortRulesBySpecificity, findRuleConflicts } from '../utils/rules';
+import { CategoryNode, buildCategoryTree, withAncestors, isWithin, parentOf, leafName, renameCategoryPath, reparentPath, createCategoryLookup, CATEGORY_SEPARATOR } from '../utils/categories';
 import { 
   Settings, 
   FileJson, 
@@ -25,27 +32,52 @@ import {
   Sparkles,
   Loader2,
   Save,
-  Database
+  Database,
+  Bookmark,
+  Coins,
+  ChevronDown,
+  ChevronRight,
+  GripVertical,
+  CornerLeftUp,
+  AlertTriangle,
+  ArrowUpToLine
 } from 'lucide-react';
 import { ResponsiveContainer, BarChart, Bar, CartesianGrid, XAxis, YAxis, Tooltip, Legend, LineChart, Line, AreaChart, Area, PieChart, Pie, Cell } from 'recharts';
 
 interface SettingsViewProps {
   activeSession: Session;
-  onUpdateSettings: (settings: Partial<ImportSettings>) => void;
-  onUpdateRules: (updater: (rules: CategorizationRule[]) => CategorizationRule[]) => void;
-  onUpdateCategories: (newCategories: string[], renamedFrom?: string, renamedTo?: string) => void;
-  onUpdateTransactions: (updater: (t: any[]) => any[]) => void;
+  onUpdateSettings: (settings: Partial<ImportSettings>, label?: string) => void;
+  onUpdateRules: (updater: (rules: CategorizationRule[]) => CategorizationRule[], label?: string) => void;
+  onSetRuleMatchMode: (mode: RuleMatchMode) => void;
+  onUpdateCategories: (newCategories: string[], renamedFrom?: string, renamedTo?: string, label?: string) => void;
+  onUpdateCategoryDefinition: (name: string, changes: Partial<Omit<CategoryDefinition, 'name'>>, label?: string) => void;
+  onUpdateTransactions: (updater: (t: any[]) => any[], label?: string) => void;
   onExportSession: () => void;
   onImportSession: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onApplyRulesToExisting: () => void;
   onGenerateRules: () => void;
   isGeneratingRules: boolean;
   onSanitizeCategories: () => void;
-  onUpdateDashboardWidgets: (updater: (widgets: DashboardWidget[]) => DashboardWidget[]) => void;
+  onUpdateDashboardWidgets: (updater: (widgets: DashboardWidget[]) => DashboardWidget[], label?: string) => void;
   transactions: Transaction[];
   onDeleteSource: (sourceName: string) => void;
+  onUpdateImportProfiles: (updater: (profiles: ImportProfile[]) => ImportProfile[], label?: string) => void;
+  onSetBaseCurrency: (currency: string) => void;
+  onUpdateExchangeRates: (updater: (rates: ExchangeRate[]) => ExchangeRate[], label?: string) => void;
+  onSetDisplayLocale: (locale: string) => void;
+  format: Formatter;
 }
 
+// Rule being built or edited in the rule builder; tags stay as typed until saved
+interface RuleDraft {
+  conditions: RuleCondition[];
+  match: 'all' | 'any';
+  category: string;
+  tags: string;
+}
+
+const emptyRuleDraft = (): RuleDraft => ({ conditions: [createCondition()], match: 'all', category: '', tags: '' });
+
 // Reusable Chart Renderer (Simplified for Preview)
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
@@ -66,7 +98,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({
   activeSession,
   onUpdateSettings,
   onUpdateRules,
+  onSetRuleMatchMode,
   onUpdateCategories,
+  onUpdateCategoryDefinition,
   onUpdateTransactions,
   onExportSession,
   onImportSession,
@@ -76,13 +110,25 @@ const SettingsView: React.FC<SettingsViewProps> = ({
   onSanitizeCategories,
   onUpdateDashboardWidgets,
   transactions,
-  onDeleteSource
+  onDeleteSource,
+  onUpdateImportProfiles,
+  onSetBaseCurrency,
+  onUpdateExchangeRates,
+  onSetDisplayLocale,
+  format
 }) => {
   // Local State
-  const [editingCategory, setEditingCategory] = useState<{ oldName: string, newName: string } | null>(null);
+  const [editingCategory, setEditingCategory] = useState<{ oldName: string, newName: string, icon: string } | null>(null); // newName is the last path segment
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
+  const [draggedCategory, setDraggedCategory] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // '' = top level
   const [newCategoryName, setNewCategoryName] = useState('');
-  const [newRule, setNewRule] = useState<{ keyword: string, category: string, isRegex: boolean }>({ keyword: '', category: '', isRegex: false });
+  const [newRule, setNewRule] = useState<RuleDraft>(emptyRuleDraft);
   const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [draggedRuleId, setDraggedRuleId] = useState<string | null>(null);
+  const [ruleDropTarget, setRuleDropTarget] = useState<string | null>(null);
+  const [showRuleConflicts, setShowRuleConflicts] = useState(false);
+  const [newRate, setNewRate] = useState<{ currency: string, rate: string, date: string }>({ currency: '', rate: '', date: new Date().toISOString().split('T')[0] });
   
   // Dashboard Widget State
   const [newWidgetQuery, setNewWidgetQuery] = useState('');
@@ -91,12 +137,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({
 
   // --- Widget Handlers ---
   const toggleWidgetVisibility = (id: string) => {
-      onUpdateDashboardWidgets(prev => prev.map(w => w.id === id ? { ...w, visible: !w.visible } : w));
+      onUpdateDashboardWidgets(prev => prev.map(w => w.id === id ? { ...w, visible: !w.visible } : w), 'Toggled widget visibility');
   };
 
   const deleteWidget = (id: string) => {
       if(confirm("Delete this custom graph?")) {
-          onUpdateDashboardWidgets(prev => prev.filter(w => w.id !== id));
+          onUpdateDashboardWidgets(prev => prev.filter(w => w.id !== id), 'Deleted custom graph');
       }
   };
 
@@ -105,7 +151,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
       setIsGeneratingWidget(true);
       setPreviewWidgetConfig(null);
       try {
-          const config = await generateDynamicChart(transactions, newWidgetQuery);
+          const config = await generateDynamicChart(transactions, newWidgetQuery, activeSession.categories);
           setPreviewWidgetConfig(config);
       } catch(e) {
           console.error(e);
@@ -127,7 +173,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
           visible: true,
           width: 'half' // Default to half width
       };
-      onUpdateDashboardWidgets(prev => [...prev, newWidget]);
+      onUpdateDashboardWidgets(prev => [...prev, newWidget], `Added graph "${newWidget.title}"`);
       setPreviewWidgetConfig(null);
       setNewWidgetQuery('');
       alert("Graph added to Dashboard!");
@@ -135,66 +181,397 @@ const SettingsView: React.FC<SettingsViewProps> = ({
 
   // --- Rule Handlers ---
   const handleAddOrUpdateRule = () => {
-    if (!newRule.keyword.trim() || !newRule.category) return;
-    const cleanKeyword = newRule.isRegex ? newRule.keyword.trim() : newRule.keyword.trim().toLowerCase();
+    // The upper bound only belongs to 'between'
+    const conditions: RuleCondition[] = newRule.conditions.map(({ value2, ...c }) => ({
+        ...c,
+        value: c.value.trim(),
+        ...(c.operator === 'between' ? { value2: (value2 || '').trim() } : {})
+    }));
+    const errors = conditions.map(conditionError).filter((e): e is string => e !== null);
+    if (!newRule.category) errors.push("Choose the category to set.");
+    if (errors.length > 0) { alert(errors.join('\n')); return; }
 
-    if (newRule.isRegex) {
-        try { new RegExp(cleanKeyword); } catch (e) { alert("Invalid Regular Expression"); return; }
-    }
+    const addTags = parseTagList(newRule.tags);
+    const fields = { conditions, match: newRule.match, category: newRule.category };
+    const summary = describeRule({ id: '', ...fields });
 
     if (editingRuleId) {
-        onUpdateRules(prev => prev.map(r => r.id === editingRuleId ? { ...r, keyword: cleanKeyword, category: newRule.category, isRegex: newRule.isRegex } : r));
+        onUpdateRules(prev => prev.map(r => {
+            if (r.id !== editingRuleId) return r;
+            const { addTags: _previous, ...rest } = r;
+            return { ...rest, ...fields, ...(addTags.length > 0 ? { addTags } : {}) };
+        }), `Edited rule "${summary}"`);
         setEditingRuleId(null);
     } else {
-        onUpdateRules(prev => [...prev, { id: `rule-${Date.now()}`, keyword: cleanKeyword, category: newRule.category, isRegex: newRule.isRegex }]);
+        // New rules start with the highest priority
+        onUpdateRules(prev => [{ id: `rule-${Date.now()}`, ...fields, ...(addTags.length > 0 ? { addTags } : {}) }, ...prev], `Added rule "${summary}" → ${newRule.category}`);
     }
-    setNewRule({ keyword: '', category: '', isRegex: false });
+    setNewRule(emptyRuleDraft());
   };
 
   const startEditingRule = (rule: CategorizationRule) => {
-    setNewRule({ keyword: rule.keyword, category: rule.category, isRegex: !!rule.isRegex });
+    setNewRule({ conditions: rule.conditions.map(c => ({ ...c })), match: rule.match, category: rule.category, tags: (rule.addTags || []).join(', ') });
     setEditingRuleId(rule.id);
   };
 
   const cancelEditRule = () => {
-    setNewRule({ keyword: '', category: '', isRegex: false });
+    setNewRule(emptyRuleDraft());
     setEditingRuleId(null);
   };
 
+  const updateRuleCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setNewRule(prev => ({ ...prev, conditions: prev.conditions.map((c, i) => i === index ? { ...c, ...changes } : c) }));
+  };
+
+  // A new field starts over with that field's default operator and value
+  const changeConditionField = (index: number, field: RuleField) => {
+    setNewRule(prev => ({ ...prev, conditions: prev.conditions.map((c, i) => i === index ? createCondition(field) : c) }));
+  };
+
+  const addRuleCondition = () => setNewRule(prev => ({ ...prev, conditions: [...prev.conditions, createCondition()] }));
+
+  const removeRuleCondition = (index: number) => {
+    setNewRule(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+  };
+
+  const toggleConditionWeekday = (index: number, day: number) => {
+    const days = newRule.conditions[index].value.split(',').filter(Boolean).map(Number);
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    updateRuleCondition(index, { value: next.join(',') });
+  };
+
+  const renderConditionValue = (condition: RuleCondition, index: number) => {
+    const inputClass = "bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none";
+    switch (condition.field) {
+      case 'type':
+        return (
+          <select value={condition.value} onChange={(e) => updateRuleCondition(index, { value: e.target.value })} className={`${inputClass} flex-1`}>
+            {Object.values(TransactionType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        );
+      case 'weekday':
+        return (
+          <div className="flex-1 flex gap-1">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const active = condition.value.split(',').includes(String(day));
+              return (
+                <button
+                  key={label}
+                  onClick={() => toggleConditionWeekday(index, day)}
+                  className={`px-2 py-1.5 rounded text-xs border transition-colors ${active ? 'bg-indigo-500/20 border-indigo-500 text-indigo-300' : 'bg-slate-900 border-slate-600 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        );
+      case 'amount':
+      case 'date': {
+        const inputType = condition.field === 'date' ? 'date' : 'text';
+        const placeholder = condition.field === 'amount' ? '0.00' : undefined;
+        return (
+          <div className="flex-1 flex items-center gap-2">
+            <input type={inputType} inputMode={condition.field === 'amount' ? 'decimal' : undefined} placeholder={placeholder} value={condition.value} onChange={(e) => updateRuleCondition(index, { value: e.target.value })} className={`${inputClass} flex-1 min-w-0 font-mono`} />
+            {condition.operator === 'between' && (
+              <>
+                <span className="text-xs text-slate-500">and</span>
+                <input type={inputType} inputMode={condition.field === 'amount' ? 'decimal' : undefined} placeholder={placeholder} value={condition.value2 || ''} onChange={(e) => updateRuleCondition(index, { value2: e.target.value })} className={`${inputClass} flex-1 min-w-0 font-mono`} />
+              </>
+            )}
+          </div>
+        );
+      }
+      default:
+        return (
+          <input
+            type="text"
+            list={condition.field === 'source' ? 'rule-sources' : undefined}
+            placeholder={condition.operator === 'regex' ? "Regex pattern (e.g. ^uber.*)" : condition.field === 'tags' ? 'tag' : 'e.g. uber'}
+            value={condition.value}
+            onChange={(e) => updateRuleCondition(index, { value: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddOrUpdateRule()}
+            className={`${inputClass} flex-1 min-w-0 font-mono`}
+          />
+        );
+    }
+  };
+
   const handleDeleteRule = (id: string) => {
-    onUpdateRules(prev => prev.filter(r => r.id !== id));
+    onUpdateRules(prev => prev.filter(r => r.id !== id), 'Deleted rule');
     if (editingRuleId === id) cancelEditRule();
   };
 
+  /** Moves a rule to the position of another one; the list order is the priority. */
+  const moveRule = (id: string, beforeId: string, label: string) => {
+    onUpdateRules(prev => {
+      const rule = prev.find(r => r.id === id);
+      const from = prev.findIndex(r => r.id === id);
+      const to = prev.findIndex(r => r.id === beforeId);
+      if (!rule || from === to || to === -1) return prev;
+      const next = prev.filter(r => r.id !== id);
+      next.splice(to, 0, rule);
+      return next;
+    }, label);
+  };
+
+  const handleRuleDrop = (targetId: string) => {
+    if (draggedRuleId && draggedRuleId !== targetId) {
+      const position = activeSession.rules.findIndex(r => r.id === targetId) + 1;
+      moveRule(draggedRuleId, targetId, `Moved rule to priority ${position}`);
+    }
+    setDraggedRuleId(null);
+    setRuleDropTarget(null);
+  };
+
+  const handleSortRulesBySpecificity = () => {
+    if (!confirm("Reorder all rules from most to least specific? The current priorities are replaced.")) return;
+    onUpdateRules(sortRulesBySpecificity, 'Sorted rules by specificity');
+  };
+
+  // Only computed while the analyzer is open; every transaction is checked against every rule
+  const ruleConflicts = useMemo(
+    () => showRuleConflicts ? findRuleConflicts(transactions, activeSession.rules) : [],
+    [showRuleConflicts, transactions, activeSession.rules]
+  );
+
   // Category Handlers
+  const categoryNames = activeSession.categories.map(c => c.name);
+  const categoryInfo = createCategoryLookup(activeSession.categories);
+
   const handleAddCategory = () => {
-    if (!newCategoryName.trim()) return;
-    if (activeSession.categories.includes(newCategoryName.trim())) { alert("Category already exists."); return; }
-    onUpdateCategories([...activeSession.categories, newCategoryName.trim()]);
+    // Segments are trimmed so "Utilities . Water" and "Utilities.Water" are the same path
+    const name = newCategoryName.split(CATEGORY_SEPARATOR).map(part => part.trim()).filter(Boolean).join(CATEGORY_SEPARATOR);
+    if (!name) return;
+    if (categoryNames.includes(name)) { alert("Category already exists."); return; }
+    onUpdateCategories(withAncestors([...categoryNames, name]), undefined, undefined, `Added category "${name}"`);
     setNewCategoryName('');
   };
 
   const handleDeleteCategory = (categoryToDelete: string) => {
     if (categoryToDelete === 'Uncategorized') { alert("Cannot delete the default 'Uncategorized' category."); return; }
-    if (confirm(`Delete category '${categoryToDelete}'? Transactions will be 'Uncategorized'.`)) {
-      const newCategories = activeSession.categories.filter(c => c !== categoryToDelete);
-      onUpdateTransactions(prev => prev.map(t => t.category === categoryToDelete ? { ...t, category: 'Uncategorized' } : t));
-      onUpdateCategories(newCategories);
+    const parent = parentOf(categoryToDelete);
+    // Transactions move up to the parent, or to Uncategorized for top-level categories
+    const fallback = parent && categoryNames.includes(parent) ? parent : 'Uncategorized';
+    const subcategories = categoryNames.filter(c => c !== categoryToDelete && isWithin(c, categoryToDelete));
+    const message = subcategories.length > 0
+      ? `Delete category '${categoryToDelete}' and its ${subcategories.length} subcategories? Their transactions will be '${fallback}'.`
+      : `Delete category '${categoryToDelete}'? Transactions will be '${fallback}'.`;
+    if (confirm(message)) {
+      const newCategories = categoryNames.filter(c => !isWithin(c, categoryToDelete));
+      // Same label on both updates so they collapse into one undo step
+      const label = `Deleted category "${categoryToDelete}"`;
+      onUpdateTransactions(prev => prev.map(t => mapCategories(t, c => isWithin(c, categoryToDelete) ? fallback : c)), label);
+      onUpdateCategories(newCategories, undefined, undefined, label);
     }
   };
 
-  const startEditingCategory = (category: string) => setEditingCategory({ oldName: category, newName: category });
+  // Moves a category with its subtree to a new path; renames and reparenting both end up here
+  const moveCategory = (from: string, to: string, label: string) => {
+    const existing = categoryNames.filter(c => !isWithin(c, from));
+    if (existing.some(c => isWithin(c, to))) { alert(`"${to}" already exists.`); return false; }
+    const newCategories = withAncestors(categoryNames.map(c => renameCategoryPath(c, from, to)));
+    onUpdateCategories(newCategories, from, to, label);
+    return true;
+  };
+
+  const startEditingCategory = (category: string) => setEditingCategory({ oldName: category, newName: leafName(category), icon: categoryInfo(category).icon });
   const saveEditedCategory = () => {
     if (!editingCategory || !editingCategory.newName.trim()) return;
-    if (editingCategory.newName !== editingCategory.oldName) {
-       if (activeSession.categories.includes(editingCategory.newName)) { alert("Name exists."); return; }
-       const newCategories = activeSession.categories.map(c => c === editingCategory.oldName ? editingCategory.newName : c);
-       onUpdateCategories(newCategories, editingCategory.oldName, editingCategory.newName);
-    }
+    const parent = parentOf(editingCategory.oldName);
+    const newPath = parent ? `${parent}${CATEGORY_SEPARATOR}${editingCategory.newName.trim()}` : editingCategory.newName.trim();
+    // Same label on both updates so a rename with a new icon is one undo step
+    const label = newPath !== editingCategory.oldName ? `Renamed category "${editingCategory.oldName}" to "${newPath}"` : `Edited category "${newPath}"`;
+    if (newPath !== editingCategory.oldName && !moveCategory(editingCategory.oldName, newPath, label)) return;
+    const icon = editingCategory.icon.trim();
+    if (icon && icon !== categoryInfo(editingCategory.oldName).icon) onUpdateCategoryDefinition(newPath, { icon }, label);
     setEditingCategory(null);
   };
+
+  const toggleCategoryFlag = (category: string, flag: 'essential' | 'fixed') => {
+    const value = !categoryInfo(category)[flag];
+    const description = flag === 'essential' ? (value ? 'essential' : 'discretionary') : (value ? 'fixed' : 'variable');
+    onUpdateCategoryDefinition(category, { [flag]: value }, `Marked "${category}" as ${description}`);
+  };
+
+  const toggleCategoryCollapsed = (path: string) => {
+    setCollapsedCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const canDropCategory = (target: string | null) => draggedCategory !== null && reparentPath(draggedCategory, target) !== null;
+
+  const handleCategoryDrop = (target: string | null) => {
+    const moved = draggedCategory ? reparentPath(draggedCategory, target) : null;
+    if (draggedCategory && moved) {
+      moveCategory(draggedCategory, moved, target ? `Moved category "${draggedCategory}" under "${target}"` : `Moved category "${draggedCategory}" to the top level`);
+    }
+    setDraggedCategory(null);
+    setDropTarget(null);
+  };
+
+  const renderCategoryNode = (node: CategoryNode, depth: number): React.ReactNode => {
+    const isCollapsed = collapsedCategories.has(node.path);
+    const isEditing = editingCategory?.oldName === node.path;
+    const info = categoryInfo(node.path);
+    const flagClass = (on: boolean) => `text-[10px] px-1.5 py-0.5 rounded border transition-colors ${on ? 'border-indigo-500/40 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`;
+    return (
+      <div key={node.path}>
+        <div
+          draggable={!isEditing}
+          onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedCategory(node.path); }}
+          onDragEnd={() => { setDraggedCategory(null); setDropTarget(null); }}
+          onDragOver={(e) => {
+            if (!canDropCategory(node.path)) return;
+            e.preventDefault();
+            setDropTarget(node.path);
+          }}
+          onDragLeave={() => setDropTarget(prev => prev === node.path ? null : prev)}
+          onDrop={(e) => { e.preventDefault(); handleCategoryDrop(node.path); }}
+          style={{ marginLeft: depth * 20 }}
+          className={`flex items-center justify-between bg-slate-800 px-2 py-2 rounded-lg border group transition-colors ${dropTarget === node.path ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700'} ${draggedCategory === node.path ? 'opacity-40' : ''}`}
+        >
+          {isEditing ? (
+            <div className="flex-1 flex gap-2">
+              <input
+                type="text"
+                value={editingCategory.icon}
+                onChange={(e) => setEditingCategory({ ...editingCategory, icon: e.target.value })}
+                className="w-12 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-center focus:outline-none focus:border-indigo-500"
+                title="Icon (emoji)"
+              />
+              <input 
+                autoFocus
+                type="text" 
+                value={editingCategory.newName}
+                onChange={(e) => setEditingCategory({ ...editingCategory, newName: e.target.value })}
+                className="w-full bg-slate-900 border border-indigo-500 rounded px-2 py-1 text-sm text-white focus:outline-none"
+                onKeyDown={(e) => e.key === 'Enter' && saveEditedCategory()}
+              />
+              <button onClick={saveEditedCategory} className="text-emerald-400 hover:text-emerald-300 p-1"><Check size={18} /></button>
+              <button onClick={() => setEditingCategory(null)} className="text-slate-400 hover:text-slate-300 p-1"><X size={18} /></button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-1 min-w-0">
+                <GripVertical size={14} className="text-slate-600 cursor-grab shrink-0" />
+                {node.children.length > 0 ? (
+                  <button onClick={() => toggleCategoryCollapsed(node.path)} className="text-slate-400 hover:text-white p-0.5">
+                    {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                  </button>
+                ) : <span className="w-5" />}
+                {!node.implied && (
+                  <input
+                    type="color"
+                    value={info.color}
+                    onChange={(e) => onUpdateCategoryDefinition(node.path, { color: e.target.value }, `Changed color of "${node.path}"`)}
+                    className="w-4 h-4 shrink-0 rounded-full cursor-pointer bg-transparent border-0 p-0"
+                    title="Chart color"
+                  />
+                )}
+                <span className="text-sm shrink-0">{info.icon}</span>
+                <span className={`text-sm font-medium truncate ${node.implied ? 'text-slate-400 italic' : 'text-slate-200'}`} title={node.path}>{node.name}</span>
+                {node.children.length > 0 && <span className="text-xs text-slate-500 ml-1">{node.children.length}</span>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {!node.implied && (
+                  <>
+                    <button onClick={() => toggleCategoryFlag(node.path, 'essential')} className={flagClass(info.essential)} title="Essential spending (rent, groceries) rather than discretionary">
+                      {info.essential ? 'Essential' : 'Discretionary'}
+                    </button>
+                    <button onClick={() => toggleCategoryFlag(node.path, 'fixed')} className={flagClass(info.fixed)} title="Roughly the same amount every month (rent, subscriptions) rather than variable">
+                      {info.fixed ? 'Fixed' : 'Variable'}
+                    </button>
+                  </>
+                )}
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startEditingCategory(node.path)} className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors" title="Rename or change icon"><Edit2 size={14} /></button>
+                  {!node.implied && (
+                    <button onClick={() => handleDeleteCategory(node.path)} className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors" title="Delete"><Trash2 size={14} /></button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+        {!isCollapsed && node.children.length > 0 && (
+          <div className="mt-1 space-y-1">{node.children.map(child => renderCategoryNode(child, depth + 1))}</div>
+        )}
+      </div>
+    );
+  };
   
-  // Source Handler
+  // Source Handlers
+  const handleExportSourceQif = (sourceName: string) => {
+      const qif = exportQif(transactions.filter(t => t.source === sourceName));
+      const blob = new Blob([qif], { type: "application/qif" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${sourceName.replace(/\s+/g, '_')}.qif`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+  };
+
+  // Profile Handler
+  const handleDeleteProfile = (profile: ImportProfile) => {
+      if (confirm(`Delete import profile "${profile.name}"? Files with this layout will go through column mapping again.`)) {
+          onUpdateImportProfiles(prev => prev.filter(p => p.id !== profile.id), `Deleted import profile "${profile.name}"`);
+      }
+  };
+
+  // --- Currency Handlers ---
+  const baseCurrency = activeSession.baseCurrency;
+  const sortedRates = [...activeSession.exchangeRates].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+
+  const handleBaseCurrencyChange = (currency: string) => {
+      if (currency === baseCurrency) return;
+      if (confirm(`Change the base currency to ${currency}? Existing amounts keep ${baseCurrency} as their currency and are converted with your exchange rates.`)) {
+          onSetBaseCurrency(currency);
+      }
+  };
+
+  const handleAddRate = () => {
+      const currency = newRate.currency.trim().toUpperCase();
+      const rate = parseFloat(newRate.rate.replace(',', '.'));
+      if (!isCurrencyCode(currency) || currency === baseCurrency || !(rate > 0) || !newRate.date) return;
+      onUpdateExchangeRates(prev => [
+          // One rate per currency and day
+          ...prev.filter(r => !(r.currency === currency && r.date === newRate.date)),
+          { id: `rate-${Date.now()}`, currency, rate, date: newRate.date }
+      ], `Set ${currency} rate to ${rate}`);
+      setNewRate({ ...newRate, currency: '', rate: '' });
+  };
+
+  const handleDeleteRate = (rate: ExchangeRate) => {
+      onUpdateExchangeRates(prev => prev.filter(r => r.id !== rate.id), `Deleted ${rate.currency} rate of ${rate.date}`);
+  };
+
+  const handleImportRatesCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          const { rates, errors } = parseExchangeRatesCsv(event.target?.result as string, new Date().toISOString().split('T')[0]);
+          const usable = rates.filter(r => r.currency !== baseCurrency);
+          if (usable.length > 0) {
+              const keys = new Set(usable.map(r => `${r.currency}|${r.date}`));
+              onUpdateExchangeRates(prev => [...prev.filter(r => !keys.has(`${r.currency}|${r.date}`)), ...usable], `Imported ${usable.length} exchange rates`);
+          }
+          if (errors.length > 0 || usable.length === 0) {
+              alert(`Imported ${usable.length} exchange rate(s).${errors.length > 0 ? `\n\n${errors.length} line(s) skipped:\n${errors.slice(0, 10).join('\n')}` : ''}`);
+          }
+      };
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
   const handleDeleteSource = (sourceName: string) => {
       const count = transactions.filter(t => t.source === sourceName).length;
       if (confirm(`Are you sure you want to delete source "${sourceName}"? \n\nThis will permanently delete ${count} associated transactions.`)) {
@@ -230,12 +607,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                     <label className="block text-sm font-medium text-slate-300 mb-2">Date Format</label>
                     <select 
                         value={activeSession.importSettings.dateFormat}
-                        onChange={(e) => onUpdateSettings({ dateFormat: e.target.value as any })}
+                        onChange={(e) => onUpdateSettings({ dateFormat: e.target.value as DateFormat })}
                         className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-slate-200 text-sm"
                     >
-                        <option value="DD.MM.YYYY">DD.MM.YYYY (DE)</option>
-                        <option value="MM/DD/YYYY">MM/DD/YYYY (US)</option>
-                        <option value="YYYY-MM-DD">YYYY-MM-DD (ISO)</option>
+                        {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                            <option key={format} value={format}>{DATE_FORMAT_LABELS[format]}</option>
+                        ))}
                     </select>
                 </div>
                  <div>
@@ -248,6 +625,42 @@ const SettingsView: React.FC<SettingsViewProps> = ({
             </div>
         </div>
         
+        {/* Import Profiles */}
+        <div className="border-t border-slate-700 pt-6">
+            <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                <Bookmark size={24} className="text-indigo-400"/>
+                Import Profiles
+            </h2>
+            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+                <p className="text-sm text-slate-400 mb-4">Files whose header row matches a profile skip column mapping. Save a profile from the mapping step of the import wizard.</p>
+                {activeSession.importProfiles.length > 0 ? (
+                    <div className="space-y-2">
+                        {activeSession.importProfiles.map(profile => (
+                            <div key={profile.id} className="flex justify-between items-center bg-slate-800 p-3 rounded-lg border border-slate-700">
+                                <div className="min-w-0">
+                                    <div className="text-white text-sm font-medium">{profile.name}</div>
+                                    <div className="text-xs text-slate-500 truncate">
+                                        Source "{profile.sourceName}" · delimiter {profile.settings.delimiter} · {profile.settings.dateFormat} · decimal {profile.settings.decimalSeparator}
+                                        {profile.settings.encoding && profile.settings.encoding !== 'auto' ? ` · ${profile.settings.encoding}` : ''}
+                                    </div>
+                                    <div className="text-[10px] text-slate-600 font-mono truncate" title={profile.headerFingerprint}>{profile.headerFingerprint}</div>
+                                </div>
+                                <button 
+                                    onClick={() => handleDeleteProfile(profile)}
+                                    className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors shrink-0"
+                                    title="Delete Profile"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-slate-500 text-sm">No import profiles saved yet.</p>
+                )}
+            </div>
+        </div>
+
         {/* Source Management */}
         <div className="border-t border-slate-700 pt-6">
             <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
@@ -255,7 +668,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                 Data Sources
             </h2>
             <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
-                <p className="text-sm text-slate-400 mb-4">Manage your import sources. Deleting a source removes all its transactions.</p>
+                <p className="text-sm text-slate-400 mb-4">Manage your import sources. Export a source as QIF for desktop finance tools; deleting a source removes all its transactions.</p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                     {activeSession.sources && activeSession.sources.length > 0 ? (
                         activeSession.sources.map(source => {
@@ -266,13 +679,23 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                                         <div className="text-white text-sm font-medium">{source}</div>
                                         <div className="text-xs text-slate-500">{count} transactions</div>
                                     </div>
-                                    <button 
-                                        onClick={() => handleDeleteSource(source)}
-                                        className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
-                                        title="Delete Source & Data"
-                                    >
-                                        <Trash2 size={16} />
-                                    </button>
+                                    <div className="flex items-center gap-1">
+                                        <button 
+                                            onClick={() => handleExportSourceQif(source)}
+                                            disabled={count === 0}
+                                            className="p-1.5 text-slate-500 hover:text-cyan-400 hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:text-slate-500 disabled:hover:bg-transparent"
+                                            title="Export QIF"
+                                        >
+                                            <Download size={16} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleDeleteSource(source)}
+                                            className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
+                                            title="Delete Source & Data"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
                                 </div>
                             );
                         })
@@ -283,6 +706,109 @@ const SettingsView: React.FC<SettingsViewProps> = ({
             </div>
         </div>
 
+        {/* Currencies */}
+        <div className="border-t border-slate-700 pt-6">
+            <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                <Coins size={24} className="text-amber-400"/>
+                Currencies & Formatting
+            </h2>
+            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm font-medium text-slate-300">Display Locale</label>
+                    <select
+                        value={activeSession.displayLocale}
+                        onChange={(e) => onSetDisplayLocale(e.target.value)}
+                        className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-slate-200 text-sm"
+                    >
+                        {!DISPLAY_LOCALES.some(l => l.value === activeSession.displayLocale) && (
+                            <option value={activeSession.displayLocale}>{activeSession.displayLocale}</option>
+                        )}
+                        {DISPLAY_LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                    </select>
+                    <span className="text-xs text-slate-500 font-mono">
+                        {format.money(-1234.56, { decimals: 2 })} · {format.date(new Date().toISOString().split('T')[0])} · {format.month(new Date().toISOString().slice(0, 7))}
+                    </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm font-medium text-slate-300">Base Currency</label>
+                    <select
+                        value={baseCurrency}
+                        onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                        className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-slate-200 text-sm"
+                    >
+                        {Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES])).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <span className="text-xs text-slate-500">Dashboard totals and goals are shown in this currency.</span>
+                </div>
+
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <p className="text-sm text-slate-400">Exchange rates: 1 unit of the currency = rate {baseCurrency}. Each amount uses the latest rate on or before its date.</p>
+                        <label className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 cursor-pointer shrink-0 ml-4" title="Lines of currency;rate;date (date optional)">
+                            <Upload size={14} /> Import CSV
+                            <input type="file" accept=".csv,.txt" onChange={handleImportRatesCsv} className="hidden" />
+                        </label>
+                    </div>
+                    <div className="flex gap-2 mb-3">
+                        <input
+                            type="text"
+                            list="currency-codes"
+                            placeholder="USD"
+                            maxLength={3}
+                            value={newRate.currency}
+                            onChange={e => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })}
+                            className="w-20 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white uppercase focus:border-indigo-500 focus:outline-none"
+                        />
+                        <datalist id="currency-codes">
+                            {COMMON_CURRENCIES.filter(c => c !== baseCurrency).map(c => <option key={c} value={c} />)}
+                        </datalist>
+                        <input
+                            type="number"
+                            step="any"
+                            placeholder="Rate"
+                            value={newRate.rate}
+                            onChange={e => setNewRate({ ...newRate, rate: e.target.value })}
+                            className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                        />
+                        <input
+                            type="date"
+                            value={newRate.date}
+                            onChange={e => setNewRate({ ...newRate, date: e.target.value })}
+                            className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                        />
+                        <button
+                            onClick={handleAddRate}
+                            disabled={!isCurrencyCode(newRate.currency) || newRate.currency === baseCurrency || !newRate.rate}
+                            className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors"
+                        >
+                            <Plus size={16} /> Add
+                        </button>
+                    </div>
+                    {sortedRates.length > 0 ? (
+                        <div className="max-h-60 overflow-y-auto space-y-1">
+                            {sortedRates.map(rate => (
+                                <div key={rate.id} className="flex justify-between items-center bg-slate-800 px-3 py-2 rounded-lg border border-slate-700 text-sm">
+                                    <span className="text-white font-mono">1 {rate.currency} = {format.number(rate.rate, 4)} {baseCurrency}</span>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-xs text-slate-500">{format.date(rate.date)}</span>
+                                        <button 
+                                            onClick={() => handleDeleteRate(rate)}
+                                            className="p-1 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
+                                            title="Delete Rate"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-slate-500 text-sm">No exchange rates yet. Amounts in other currencies are counted 1:1 until a rate is added.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+
         {/* Dashboard Configuration */}
         <div className="border-t border-slate-700 pt-6">
             <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
@@ -417,48 +943,121 @@ const SettingsView: React.FC<SettingsViewProps> = ({
             </div>
             
             {/* Add / Edit Rule */}
-            <div className={`flex flex-col sm:flex-row gap-2 mb-4 p-3 rounded-lg border transition-colors ${editingRuleId ? 'bg-indigo-900/20 border-indigo-500/50' : 'bg-slate-800/50 border-slate-700'}`}>
-                <div className="flex-1 flex gap-2">
-                    <button 
-                        onClick={() => setNewRule(prev => ({ ...prev, isRegex: !prev.isRegex }))}
-                        className={`px-2 py-2 rounded border transition-colors ${newRule.isRegex ? 'bg-indigo-500/20 border-indigo-500 text-indigo-400' : 'bg-slate-900 border-slate-600 text-slate-500'}`}
-                        title="Toggle Regex Mode"
-                    >
-                        <Regex size={16} />
-                    </button>
-                    <input 
-                        type="text" 
-                        placeholder={newRule.isRegex ? "Regex pattern (e.g. ^uber.*)" : "If description contains..."}
-                        value={newRule.keyword}
-                        onChange={(e) => setNewRule({ ...newRule, keyword: e.target.value })}
-                        className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none font-mono"
-                        onKeyDown={(e) => e.key === 'Enter' && handleAddOrUpdateRule()}
-                    />
+            <div className={`mb-4 p-3 rounded-lg border transition-colors space-y-3 ${editingRuleId ? 'bg-indigo-900/20 border-indigo-500/50' : 'bg-slate-800/50 border-slate-700'}`}>
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span>When</span>
+                    <div className="flex bg-slate-900 border border-slate-600 rounded p-0.5">
+                        {(['all', 'any'] as const).map(match => (
+                            <button
+                                key={match}
+                                onClick={() => setNewRule(prev => ({ ...prev, match }))}
+                                className={`px-2 py-0.5 rounded transition-colors ${newRule.match === match ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {match === 'all' ? 'all (AND)' : 'any (OR)'}
+                            </button>
+                        ))}
+                    </div>
+                    <span>of these match</span>
                 </div>
-                <div className="flex gap-2">
+                <datalist id="rule-sources">
+                    {(activeSession.sources || []).map(src => <option key={src} value={src} />)}
+                </datalist>
+                {newRule.conditions.map((condition, index) => (
+                    <div key={index} className="flex flex-col sm:flex-row gap-2">
+                        <div className="flex gap-2">
+                            <select
+                                value={condition.field}
+                                onChange={(e) => changeConditionField(index, e.target.value as RuleField)}
+                                className="bg-slate-900 border border-slate-600 rounded px-2 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                            >
+                                {(Object.keys(RULE_FIELD_LABELS) as RuleField[]).map(field => <option key={field} value={field}>{RULE_FIELD_LABELS[field]}</option>)}
+                            </select>
+                            <select
+                                value={condition.operator}
+                                onChange={(e) => updateRuleCondition(index, { operator: e.target.value as RuleCondition['operator'] })}
+                                disabled={RULE_OPERATORS[condition.field].length === 1}
+                                className="bg-slate-900 border border-slate-600 rounded px-2 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none disabled:text-slate-400"
+                            >
+                                {RULE_OPERATORS[condition.field].map(op => <option key={op} value={op}>{RULE_OPERATOR_LABELS[op]}</option>)}
+                            </select>
+                        </div>
+                        {renderConditionValue(condition, index)}
+                        {newRule.conditions.length > 1 && (
+                            <button onClick={() => removeRuleCondition(index)} className="p-2 text-slate-500 hover:text-red-400 transition-colors self-center" title="Remove condition">
+                                <X size={16} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                <button onClick={addRuleCondition} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                    <Plus size={12} /> Add condition
+                </button>
+                <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-slate-700/50">
+                    <span className="text-xs text-slate-400 self-center">Then set</span>
                     <select
                         value={newRule.category}
                         onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
-                        className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none flex-1 sm:flex-none"
+                        className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none flex-1"
                     >
                         <option value="">Select Category</option>
-                        {activeSession.categories.map(c => <option key={c} value={c}>{c}</option>)}
+                        {categoryNames.map(c => <option key={c} value={c}>{categoryInfo(c).icon} {c}</option>)}
                     </select>
-                    <button 
-                        onClick={handleAddOrUpdateRule} 
-                        className={`${editingRuleId ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-emerald-600 hover:bg-emerald-500'} text-white px-4 rounded text-sm font-medium transition-colors`}
-                    >
-                        {editingRuleId ? 'Update' : 'Add'}
-                    </button>
-                    {editingRuleId && (
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="+ tags (optional)"
+                            value={newRule.tags}
+                            onChange={(e) => setNewRule({ ...newRule, tags: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddOrUpdateRule()}
+                            className="w-36 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                            title="Comma-separated tags added to matching transactions"
+                        />
                         <button 
-                            onClick={cancelEditRule} 
-                            className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 rounded text-sm transition-colors"
-                            title="Cancel Edit"
+                            onClick={handleAddOrUpdateRule} 
+                            className={`${editingRuleId ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-emerald-600 hover:bg-emerald-500'} text-white px-4 rounded text-sm font-medium transition-colors`}
                         >
-                            <RotateCcw size={16} />
+                            {editingRuleId ? 'Update' : 'Add'}
                         </button>
-                    )}
+                        {editingRuleId && (
+                            <button 
+                                onClick={cancelEditRule} 
+                                className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 rounded text-sm transition-colors"
+                                title="Cancel Edit"
+                            >
+                                <RotateCcw size={16} />
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Priority & Matching */}
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2 text-xs text-slate-400">
+                <div className="flex items-center gap-2">
+                    <span>Higher rules win. Apply</span>
+                    <div className="flex bg-slate-900 border border-slate-600 rounded p-0.5">
+                        {(['first', 'all'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => activeSession.ruleMatchMode !== mode && onSetRuleMatchMode(mode)}
+                                className={`px-2 py-0.5 rounded transition-colors ${activeSession.ruleMatchMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                                title={mode === 'first' ? 'Only the highest matching rule applies' : 'Every matching rule adds its tags; the highest one sets the category'}
+                            >
+                                {mode === 'first' ? 'first match' : 'all matches'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex gap-3">
+                    <button onClick={handleSortRulesBySpecificity} disabled={activeSession.rules.length < 2} className="hover:text-white transition-colors disabled:opacity-50">
+                        Sort by specificity
+                    </button>
+                    <button
+                        onClick={() => setShowRuleConflicts(prev => !prev)}
+                        className={`flex items-center gap-1 transition-colors ${showRuleConflicts ? 'text-amber-400' : 'hover:text-white'}`}
+                    >
+                        <AlertTriangle size={12} /> {showRuleConflicts ? 'Hide conflicts' : 'Find conflicts'}
+                    </button>
                 </div>
             </div>
 
@@ -467,15 +1066,35 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                 {activeSession.rules.length === 0 ? (
                     <p className="text-slate-500 text-sm text-center py-4">No rules defined yet.</p>
                 ) : (
-                    activeSession.rules.map(rule => (
-                        <div key={rule.id} className={`flex justify-between items-center bg-slate-800 px-4 py-2 rounded border text-sm transition-colors ${editingRuleId === rule.id ? 'border-indigo-500 ring-1 ring-indigo-500/50' : 'border-slate-700'}`}>
+                    activeSession.rules.map((rule, index) => (
+                        <div
+                            key={rule.id}
+                            draggable
+                            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedRuleId(rule.id); }}
+                            onDragEnd={() => { setDraggedRuleId(null); setRuleDropTarget(null); }}
+                            onDragOver={(e) => {
+                                if (!draggedRuleId || draggedRuleId === rule.id) return;
+                                e.preventDefault();
+                                setRuleDropTarget(rule.id);
+                            }}
+                            onDragLeave={() => setRuleDropTarget(prev => prev === rule.id ? null : prev)}
+                            onDrop={(e) => { e.preventDefault(); handleRuleDrop(rule.id); }}
+                            className={`flex justify-between items-center bg-slate-800 pl-2 pr-4 py-2 rounded border text-sm transition-colors ${editingRuleId === rule.id ? 'border-indigo-500 ring-1 ring-indigo-500/50' : ruleDropTarget === rule.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700'} ${draggedRuleId === rule.id ? 'opacity-40' : ''}`}
+                        >
                             <div className="flex items-center gap-2 overflow-hidden">
+                                <GripVertical size={14} className="text-slate-600 cursor-grab shrink-0" />
+                                <span className="text-xs text-slate-500 w-5 text-right shrink-0" title="Priority">{index + 1}</span>
                                 <span className="text-slate-400 whitespace-nowrap flex items-center gap-1">
-                                    {rule.isRegex ? <Regex size={14} className="text-purple-400"/> : 'If contains'}
+                                    {rule.conditions.some(c => c.operator === 'regex') ? <Regex size={14} className="text-purple-400"/> : 'If'}
                                 </span>
-                                <span className="text-white font-mono bg-slate-900 px-1 rounded truncate max-w-[150px]" title={rule.keyword}>"{rule.keyword}"</span>
+                                <span className="text-white font-mono bg-slate-900 px-1 rounded truncate max-w-[320px]" title={describeRule(rule)}>{describeRule(rule)}</span>
                                 <span className="text-slate-400 whitespace-nowrap">set to</span>
                                 <span className="text-indigo-400 font-medium truncate max-w-[150px]" title={rule.category}>{rule.category}</span>
+                                {rule.addTags?.length ? (
+                                    <span className="text-slate-400 truncate" title={rule.addTags.map(t => `#${t}`).join(' ')}>
+                                        + {rule.addTags.map(t => `#${t}`).join(' ')}
+                                    </span>
+                                ) : null}
                             </div>
                             <div className="flex items-center gap-1">
                                 <button 
@@ -497,6 +1116,48 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                     ))
                 )}
             </div>
+
+            {/* Rule Conflicts */}
+            {showRuleConflicts && (
+                <div className="mt-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5 space-y-3">
+                    <p className="text-xs text-slate-400">
+                        {ruleConflicts.length === 0
+                            ? 'No transaction is matched by rules that set different categories.'
+                            : `${ruleConflicts.reduce((sum, c) => sum + c.transactions.length, 0)} transactions are matched by rules that set different categories. The highest rule wins.`}
+                    </p>
+                    {ruleConflicts.map(conflict => {
+                        const [winner, ...overridden] = conflict.rules;
+                        return (
+                            <div key={conflict.rules.map(r => r.id).join('|')} className="bg-slate-800 border border-slate-700 rounded p-2 text-xs space-y-1">
+                                <div className="flex items-center gap-2 overflow-hidden">
+                                    <Check size={12} className="text-emerald-400 shrink-0" />
+                                    <span className="text-slate-300 font-mono truncate" title={describeRule(winner)}>{describeRule(winner)}</span>
+                                    <span className="text-indigo-400 whitespace-nowrap">→ {winner.category}</span>
+                                </div>
+                                {overridden.map(rule => (
+                                    <div key={rule.id} className="flex items-center gap-2 overflow-hidden text-slate-500">
+                                        <X size={12} className="shrink-0" />
+                                        <span className="font-mono truncate" title={describeRule(rule)}>{describeRule(rule)}</span>
+                                        <span className="whitespace-nowrap">→ {rule.category}</span>
+                                        {rule.category !== winner.category && (
+                                            <button
+                                                onClick={() => moveRule(rule.id, winner.id, `Moved rule "${describeRule(rule)}" above "${describeRule(winner)}"`)}
+                                                className="ml-auto flex items-center gap-1 text-indigo-400 hover:text-indigo-300 whitespace-nowrap"
+                                                title="Give this rule priority over the winning one"
+                                            >
+                                                <ArrowUpToLine size={12} /> Prefer
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                <p className="text-slate-500 truncate" title={conflict.transactions.map(t => t.description).join('\n')}>
+                                    {conflict.transactions.length} × e.g. {conflict.transactions.slice(0, 3).map(t => `"${t.description}"`).join(', ')}
+                                </p>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
         </div>
 
         {/* Categories */}
@@ -526,33 +1187,19 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                 />
                 <button onClick={handleAddCategory} className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2"><Plus size={18} /> Add</button>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[300px] overflow-y-auto">
-                {activeSession.categories.map(cat => (
-                    <div key={cat} className="flex items-center justify-between bg-slate-800 p-3 rounded-lg border border-slate-700 group">
-                        {editingCategory?.oldName === cat ? (
-                            <div className="flex-1 flex gap-2">
-                                <input 
-                                    autoFocus
-                                    type="text" 
-                                    value={editingCategory.newName}
-                                    onChange={(e) => setEditingCategory({ ...editingCategory, newName: e.target.value })}
-                                    className="w-full bg-slate-900 border border-indigo-500 rounded px-2 py-1 text-sm text-white focus:outline-none"
-                                    onKeyDown={(e) => e.key === 'Enter' && saveEditedCategory()}
-                                />
-                                <button onClick={saveEditedCategory} className="text-emerald-400 hover:text-emerald-300 p-1"><Check size={18} /></button>
-                                <button onClick={() => setEditingCategory(null)} className="text-slate-400 hover:text-slate-300 p-1"><X size={18} /></button>
-                            </div>
-                        ) : (
-                            <>
-                                <span className="text-slate-200 text-sm font-medium">{cat}</span>
-                                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <button onClick={() => startEditingCategory(cat)} className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"><Edit2 size={14} /></button>
-                                    <button onClick={() => handleDeleteCategory(cat)} className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"><Trash2 size={14} /></button>
-                                </div>
-                            </>
-                        )}
-                    </div>
-                ))}
+            <p className="text-xs text-slate-500 mb-2">Drag a category onto another to nest it. Renaming or moving a category takes its subcategories along.</p>
+            {draggedCategory && parentOf(draggedCategory) && (
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setDropTarget(''); }}
+                    onDragLeave={() => setDropTarget(prev => prev === '' ? null : prev)}
+                    onDrop={(e) => { e.preventDefault(); handleCategoryDrop(null); }}
+                    className={`mb-2 p-2 rounded-lg border border-dashed text-xs flex items-center gap-2 transition-colors ${dropTarget === '' ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-slate-600 text-slate-400'}`}
+                >
+                    <CornerLeftUp size={14} /> Drop here to move to the top level
+                </div>
+            )}
+            <div className="space-y-1 max-h-[400px] overflow-y-auto pr-1">
+                {buildCategoryTree(categoryNames).map(node => renderCategoryNode(node, 0))}
             </div>
         </div>
     </div>
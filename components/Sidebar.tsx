@@ -12,7 +12,10 @@ import {
   MessageSquareText, 
   Settings, 
   Upload,
-  Target
+  Target,
+  Undo2,
+  Redo2,
+  History
 } from 'lucide-react';
 import { Session } from '../types';
 
@@ -28,6 +31,13 @@ interface SidebarProps {
   activeSessionName: string;
   onToggleChat: () => void;
   isChatOpen: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  onOpenHistory: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -41,7 +51,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   onImportFile,
   activeSessionName,
   onToggleChat,
-  isChatOpen
+  isChatOpen,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onOpenHistory
 }) => {
   const [isSessionsExpanded, setIsSessionsExpanded] = useState(true);
   const [isCreatingSession, setIsCreatingSession] = useState(false);
@@ -189,6 +206,35 @@ const Sidebar: React.FC<SidebarProps> = ({
         </button>
       </div>
 
+      {/* Undo / Redo */}
+      <div className="px-4 py-3 border-t border-slate-700 flex items-center gap-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg text-xs text-slate-400 hover:bg-slate-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+          title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          <Undo2 size={14} />
+          <span>Undo</span>
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg text-xs text-slate-400 hover:bg-slate-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+          title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          <Redo2 size={14} />
+          <span>Redo</span>
+        </button>
+        <button
+          onClick={onOpenHistory}
+          className="p-2 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+          title="Change History"
+        >
+          <History size={14} />
+        </button>
+      </div>
+
       {/* Import Area */}
       <div className="p-4 border-t border-slate-700 bg-slate-900/30">
         <button 
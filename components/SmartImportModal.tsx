@@ -1,44 +1,111 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ImportSettings, ColumnMapping, Transaction, CategorizationRule, Category } from '../types';
-import { readCsvPreview, parseMappedData } from '../utils/parser';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ImportSettings, ColumnMapping, Transaction, CategorizationRule, RuleMatchMode, Category, TextEncoding, ImportProfile, DateFormat, Asset } from '../types';
+import { readCsvPreview, parseMappedData, readStatementFile, findAccountSource, resolveSignedAmount, usesDebitCreditColumns, computeHeaderFingerprint, findMatchingProfile, ImportFailure, ParsedStatement, RawCsvData, TableLayout } from '../utils/parser';
+import { findDuplicates, DUPLICATE_DAY_TOLERANCE } from '../utils/duplicates';
+import { detectDateFormat, DATE_FORMAT_LABELS, DateFormatDetection } from '../utils/dates';
+import { reconcileBalances, ReconciliationResult } from '../utils/reconciliation';
+import { COMMON_CURRENCIES } from '../utils/currency';
 import { categorizeTransactionsAI } from '../services/gemini';
-import { applyRulesToTransactions } from '../hooks/useSessionData';
-import { Upload, ArrowRight, Settings, CheckCircle, AlertTriangle, Loader2, FileText, ChevronRight, Wand2, X, Download, BrainCircuit, Tag } from 'lucide-react';
+import { applyRulesToTransactions } from '../utils/rules';
+import { Upload, ArrowRight, Settings, CheckCircle, AlertTriangle, Loader2, FileText, ChevronRight, Wand2, X, Download, BrainCircuit, Tag, Bookmark, Copy, Sheet, Scale } from 'lucide-react';
 
 interface SmartImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImportComplete: (transactions: Transaction[], newCategories: string[], source: string) => void;
+  onImportComplete: (transactions: Transaction[], newCategories: string[], source: string, assetBalances: AssetBalanceUpdate[]) => void;
   existingRules: CategorizationRule[];
+  ruleMatchMode: RuleMatchMode;
   existingCategories: string[];
   defaultSettings: ImportSettings;
   existingSources: string[];
+  existingTransactions: Transaction[];
+  existingAssets: Asset[];
+  baseCurrency: string;
+  importProfiles: ImportProfile[];
+  onSaveProfile: (profile: ImportProfile) => void;
 }
 
 type ImportStep = 'upload' | 'mapping' | 'processing' | 'results';
 
+// Closing balance of an imported source, applied to an asset when the import is committed
+export interface AssetBalanceUpdate {
+  assetId: string;
+  sourceName: string;
+  amount: number;
+  date: string;
+  currency?: string; // Statement currency; the asset takes it over
+}
+
+interface TablePreview {
+  headers: string[];
+  rows: string[][];
+  errorCount: number;
+  encoding: TextEncoding | null;
+  sheets: { name: string; rowCount: number }[];
+  sheetName: string | null;
+  headerRow: number;
+  footerRows: number;
+}
+
+const EMPTY_MAPPING: ColumnMapping = {
+  dateIndex: -1,
+  descriptionIndex: -1,
+  amountIndex: -1,
+  categoryIndex: -1,
+  typeIndex: -1
+};
+
+const toTablePreview = (data: RawCsvData): TablePreview => ({
+  headers: data.headers,
+  rows: data.preview,
+  errorCount: data.errors.length,
+  encoding: data.encoding,
+  sheets: data.sheets,
+  sheetName: data.sheetName,
+  headerRow: data.headerRow,
+  footerRows: data.footerRows
+});
+
+// One account statement from a self-describing file (OFX, CAMT, MT940, QIF), imported as its own source
+interface StatementSource {
+  accountId: string;
+  sourceName: string;
+  transactionIds: string[];
+  balance?: { amount: number; date: string };
+  currency?: string;
+}
+
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+  'iso-8859-15': 'ISO-8859-15 (Latin-9)'
+};
+
 export const SmartImportModal: React.FC<SmartImportModalProps> = ({
   isOpen,
   onClose,
   onImportComplete,
   existingRules,
+  ruleMatchMode,
   existingCategories,
   defaultSettings,
-  existingSources
+  existingSources,
+  existingTransactions,
+  existingAssets,
+  baseCurrency,
+  importProfiles,
+  onSaveProfile
 }) => {
   const [step, setStep] = useState<ImportStep>('upload');
   const [file, setFile] = useState<File | null>(null);
-  const [rawPreview, setRawPreview] = useState<{ headers: string[], rows: string[][] } | null>(null);
+  const [rawPreview, setRawPreview] = useState<TablePreview | null>(null);
   const [settings, setSettings] = useState<ImportSettings>(defaultSettings);
   const [sourceName, setSourceName] = useState('');
   
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    dateIndex: -1,
-    descriptionIndex: -1,
-    amountIndex: -1,
-    categoryIndex: -1,
-    typeIndex: -1
-  });
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
 
   const [processStatus, setProcessStatus] = useState<{ 
     current: string; 
@@ -46,18 +113,37 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
     aiCount: number; 
   }>({ current: '', progress: 0, aiCount: 0 });
 
-  const [result, setResult] = useState<{ success: Transaction[], failed: any[] }>({ success: [], failed: [] });
+  const [result, setResult] = useState<{ success: Transaction[], failed: ImportFailure[] }>({ success: [], failed: [] });
   const [resolvedFailed, setResolvedFailed] = useState<number[]>([]); // Indices of failed rows ignored/handled
+  const [keptDuplicates, setKeptDuplicates] = useState<string[]>([]); // Ids of likely duplicates the user chose to import anyway
+  const [dateDetection, setDateDetection] = useState<DateFormatDetection | null>(null); // Full-file scan when the date format is 'auto'
+  const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null); // Only when a balance column is mapped
+  const [balanceAssetChoice, setBalanceAssetChoice] = useState<Record<number, string>>({}); // Balance target index -> asset id ('' = don't update)
+  const [statementSources, setStatementSources] = useState<StatementSource[] | null>(null); // null for tabular files
+  const [matchedProfile, setMatchedProfile] = useState<ImportProfile | null>(null);
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
 
   // Reset state on open
   useEffect(() => {
     if (isOpen) {
         setStep('upload');
         setFile(null);
+        // A matched profile may have replaced the settings during the previous import
+        setSettings(defaultSettings);
+        setMapping(EMPTY_MAPPING);
         setRawPreview(null);
         setResult({ success: [], failed: [] });
         setResolvedFailed([]);
+        setKeptDuplicates([]);
+        setDateDetection(null);
+        setReconciliation(null);
+        setBalanceAssetChoice({});
         setSourceName('');
+        setStatementSources(null);
+        setMatchedProfile(null);
+        setSaveAsProfile(false);
+        setProfileName('');
     }
   }, [isOpen]);
 
@@ -66,6 +152,41 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
       setFile(selectedFile);
+      setRawPreview(null);
+      setStatementSources(null);
+      // Auto-suggest source name from filename
+      const suggested = selectedFile.name.split('.')[0].replace(/[-_]/g, ' ');
+      setSourceName(suggested);
+
+      // Self-describing statement formats skip column mapping entirely
+      let statements: ParsedStatement[] | null = null;
+      try {
+        statements = await readStatementFile(selectedFile, settings.encoding, existingCategories);
+      } catch (err) {
+        console.error(err);
+        alert(`Could not read statement file. ${(err as Error).message}`);
+        return;
+      }
+      if (statements) {
+        processStatements(statements, suggested);
+        return;
+      }
+
+      // A known export layout skips mapping and goes straight to processing
+      setMatchedProfile(null);
+      const match = await findMatchingProfile(selectedFile, importProfiles);
+      if (match) {
+        const { profile, data } = match;
+        setMatchedProfile(profile);
+        setSettings(profile.settings);
+        setMapping(profile.mapping);
+        setSourceName(profile.sourceName);
+        setProfileName(profile.name);
+        setRawPreview(toTablePreview(data));
+        runMappedImport(selectedFile, profile.settings, profile.mapping);
+        return;
+      }
+
       // Auto-detect delimiter if CSV
       let detectDelim = settings.delimiter;
       if (selectedFile.name.endsWith('.csv')) {
@@ -73,33 +194,56 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
          const text = await selectedFile.slice(0, 500).text();
          if ((text.match(/;/g) || []).length > (text.match(/,/g) || []).length) detectDelim = ';';
          else detectDelim = ',';
-         setSettings(prev => ({ ...prev, delimiter: detectDelim }));
       }
+      // Sheet and header row belong to the previous file, so detect them afresh
+      const layout: TableLayout = { ...settings, delimiter: detectDelim, sheetName: undefined, headerRow: undefined };
+      setSettings(prev => ({ ...prev, delimiter: detectDelim, sheetName: undefined, headerRow: undefined }));
       
       try {
-        const { headers, preview } = await readCsvPreview(selectedFile, detectDelim);
-        setRawPreview({ headers, rows: preview });
-        guessMapping(headers, preview);
-        setStep('mapping');
-        // Auto-suggest source name from filename
-        const suggested = selectedFile.name.split('.')[0].replace(/[-_]/g, ' ');
-        setSourceName(suggested);
+        const data = await readCsvPreview(selectedFile, layout);
+        setRawPreview(toTablePreview(data));
+        guessMapping(data.headers, data.preview);
+        // Workbooks with several sheets stay on the upload step until one is picked
+        setStep(data.sheets.length > 1 ? 'upload' : 'mapping');
       } catch (err) {
         alert("Could not read file. Please check format.");
       }
     }
   };
 
-  const updatePreview = async () => {
+  // Sheet and header row decide which columns exist, so the mapping is guessed again
+  const applyTableLayout = async (patch: Pick<ImportSettings, 'sheetName' | 'headerRow'>) => {
     if (!file) return;
+    const next = { ...settings, ...patch };
+    setSettings(next);
     try {
-        const { headers, preview } = await readCsvPreview(file, settings.delimiter);
-        setRawPreview({ headers, rows: preview });
+      const data = await readCsvPreview(file, next);
+      setRawPreview(toTablePreview(data));
+      guessMapping(data.headers, data.preview);
+      setStep('mapping');
     } catch (err) {
-        console.error(err);
+      alert(`Could not read this part of the file. ${(err as Error).message}`);
     }
   };
 
+  // Live preview: re-read the file whenever delimiter or encoding change during mapping.
+  // Different headers mean the mapped indices point at other columns, so the mapping is guessed again.
+  useEffect(() => {
+    if (!file || step !== 'mapping') return;
+    let cancelled = false;
+    const previousHeaders = rawPreview?.headers;
+    readCsvPreview(file, settings)
+      .then(data => {
+        if (cancelled) return;
+        setRawPreview(toTablePreview(data));
+        const headersChanged = !previousHeaders || data.headers.length !== previousHeaders.length
+          || data.headers.some((h, i) => h !== previousHeaders[i]);
+        if (headersChanged) guessMapping(data.headers, data.preview);
+      })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [file, step, settings.delimiter, settings.encoding]);
+
   // --- Step 2: Mapping Logic ---
   const guessMapping = (headers: string[], rows: string[][]) => {
      // Heuristics
@@ -107,14 +251,20 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
      const firstRow = rows[0] || [];
 
      let dateIdx = lowerHeaders.findIndex(h => h.includes('date') || h.includes('datum') || h.includes('zeit'));
-     let amountIdx = lowerHeaders.findIndex(h => h.includes('amount') || h.includes('betrag') || h.includes('wert') || h.includes('saldo'));
+     let amountIdx = lowerHeaders.findIndex(h => h.includes('amount') || h.includes('betrag') || h.includes('wert'));
+     // "Saldo"/"Balance" is the running balance after each row, not the transaction amount
+     const balanceIdx = lowerHeaders.findIndex(h => h.includes('saldo') || h.includes('balance') || h.includes('kontostand') || h.includes('solde'));
      let descIdx = lowerHeaders.findIndex(h => h.includes('desc') || h.includes('text') || h.includes('verwendung') || h.includes('payee'));
      let catIdx = lowerHeaders.findIndex(h => h.includes('cat') || h.includes('kategorie'));
      let typeIdx = lowerHeaders.findIndex(h => h.includes('type') || h.includes('art'));
+     // Two unsigned columns ("Soll"/"Haben", "Debit"/"Credit") instead of one signed amount
+     const debitIdx = lowerHeaders.findIndex(h => h.includes('soll') || h.includes('debit') || h.includes('withdrawal') || h.includes('belastung'));
+     const creditIdx = lowerHeaders.findIndex(h => h.includes('haben') || h.includes('credit') || h.includes('deposit') || h.includes('gutschrift'));
+     const useDebitCredit = amountIdx === -1 && debitIdx !== -1 && creditIdx !== -1;
 
      // Fallback: Check content if header missing
      if (dateIdx === -1) dateIdx = firstRow.findIndex(c => c.match(/\d{1,4}[./-]\d{1,2}[./-]\d{1,4}/));
-     if (amountIdx === -1) amountIdx = firstRow.findIndex(c => c.match(/-?\d+[.,]?\d*/));
+     if (amountIdx === -1 && !useDebitCredit) amountIdx = firstRow.findIndex(c => c.match(/-?\d+[.,]?\d*/));
      if (descIdx === -1) descIdx = firstRow.findIndex(c => c.length > 5 && !c.match(/\d/)); // Longest text field
 
      setMapping({
@@ -122,61 +272,99 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
         descriptionIndex: descIdx,
         amountIndex: amountIdx,
         categoryIndex: catIdx,
-        typeIndex: typeIdx
+        typeIndex: typeIdx,
+        debitIndex: useDebitCredit ? debitIdx : -1,
+        creditIndex: useDebitCredit ? creditIdx : -1,
+        invertSign: false,
+        balanceIndex: balanceIdx
      });
   };
 
+  // --- Step 3: Shared Processing Pipeline ---
+
+  // Applies local rules, then lets the AI categorize whatever is left
+  const categorizeTransactions = async (parsedTransactions: Transaction[]): Promise<Transaction[]> => {
+      setProcessStatus({ current: 'Applying Rules...', progress: 30, aiCount: 0 });
+
+      // 1. Apply Local Rules
+      let transactions = applyRulesToTransactions(parsedTransactions, existingRules, ruleMatchMode);
+
+      // 2. Identify transactions needing AI
+      const needsAi = transactions.filter(t => t.category === Category.UNCATEGORIZED || t.category === 'Uncategorized');
+      
+      if (needsAi.length > 0) {
+          setProcessStatus({ current: `AI Categorizing ${needsAi.length} transactions...`, progress: 50, aiCount: needsAi.length });
+          
+          // Batch AI calls (chunk of 50)
+          const chunkSize = 50;
+          let aiResults: { id: string, category: string }[] = [];
+          
+          for (let i = 0; i < needsAi.length; i += chunkSize) {
+              const chunk = needsAi.slice(i, i + chunkSize);
+              // Pass simplified objects to save tokens
+              const categorizedChunk = await categorizeTransactionsAI(
+                  chunk.map(t => ({ id: t.id, description: t.description, amount: t.amount })),
+                  existingCategories
+              );
+              aiResults = [...aiResults, ...categorizedChunk];
+              setProcessStatus(prev => ({ ...prev, progress: 50 + ((i / needsAi.length) * 40) }));
+          }
+
+          // Merge AI results
+          const aiMap = new Map(aiResults.map(r => [r.id, r.category]));
+          transactions = transactions.map(t => {
+              if (aiMap.has(t.id)) return { ...t, category: aiMap.get(t.id)! };
+              return t;
+          });
+      }
+      return transactions;
+  };
+
   const handleStartProcessing = async () => {
       if (!file || !rawPreview || !sourceName.trim()) {
           if (!sourceName.trim()) alert("Please identify the source of these transactions (e.g. 'Chase Checking').");
           return;
       }
+      if (saveAsProfile) {
+          const headerFingerprint = computeHeaderFingerprint(rawPreview.headers);
+          // Re-saving a recognized layout updates that profile instead of adding a twin
+          const existing = matchedProfile || importProfiles.find(p => p.headerFingerprint === headerFingerprint);
+          onSaveProfile({
+              id: existing?.id || `profile-${Date.now()}`,
+              name: profileName.trim() || sourceName.trim(),
+              sourceName: sourceName.trim(),
+              settings: { ...settings },
+              mapping: { ...mapping },
+              headerFingerprint,
+              createdAt: existing?.createdAt || Date.now()
+          });
+      }
+      runMappedImport(file, settings, mapping);
+  };
+
+  // Settings and mapping are passed in because a matched profile applies them in the same tick
+  const runMappedImport = async (importFile: File, importSettings: ImportSettings, columnMapping: ColumnMapping) => {
       setStep('processing');
       setProcessStatus({ current: 'Parsing File...', progress: 10, aiCount: 0 });
 
       try {
           // 1. Read FULL file
-          const { rows } = await readCsvPreview(file, settings.delimiter);
+          const { rows, lineNumbers, errors } = await readCsvPreview(importFile, importSettings);
           
-          // 2. Parse basic data
-          const parsed = parseMappedData(rows, mapping, settings);
-          let transactions = parsed.success;
-          
-          setProcessStatus({ current: 'Applying Rules...', progress: 30, aiCount: 0 });
-
-          // 3. Apply Local Rules
-          transactions = applyRulesToTransactions(transactions, existingRules);
+          // 2. Parse basic data; 'auto' dates are resolved over every row, not just the preview
+          const detection = importSettings.dateFormat === 'auto'
+              ? detectDateFormat(rows.map(row => row[columnMapping.dateIndex]))
+              : null;
+          setDateDetection(detection);
+          const parsed = parseMappedData(rows, columnMapping, importSettings, lineNumbers);
+          setReconciliation(reconcileBalances(parsed.balances));
+          setBalanceAssetChoice({});
+          const transactions = await categorizeTransactions(parsed.success);
 
-          // 4. Identify transactions needing AI
-          const needsAi = transactions.filter(t => t.category === Category.UNCATEGORIZED || t.category === 'Uncategorized');
-          
-          if (needsAi.length > 0) {
-              setProcessStatus({ current: `AI Categorizing ${needsAi.length} transactions...`, progress: 50, aiCount: needsAi.length });
-              
-              // Batch AI calls (chunk of 50)
-              const chunkSize = 50;
-              let aiResults: { id: string, category: string }[] = [];
-              
-              for (let i = 0; i < needsAi.length; i += chunkSize) {
-                  const chunk = needsAi.slice(i, i + chunkSize);
-                  // Pass simplified objects to save tokens
-                  const categorizedChunk = await categorizeTransactionsAI(
-                      chunk.map(t => ({ id: t.id, description: t.description, amount: t.amount })),
-                      existingCategories
-                  );
-                  aiResults = [...aiResults, ...categorizedChunk];
-                  setProcessStatus(prev => ({ ...prev, progress: 50 + ((i / needsAi.length) * 40) }));
-              }
-
-              // Merge AI results
-              const aiMap = new Map(aiResults.map(r => [r.id, r.category]));
-              transactions = transactions.map(t => {
-                  if (aiMap.has(t.id)) return { ...t, category: aiMap.get(t.id)! };
-                  return t;
-              });
-          }
-
-          setResult({ success: transactions, failed: parsed.failed });
+          // Structural CSV errors and unparseable rows are reported together, in file order
+          const failed = [...errors, ...parsed.failed].sort((a, b) => a.row - b.row);
+          setResult({ success: transactions, failed });
+          setKeptDuplicates([]);
           setStep('results');
 
       } catch (err) {
@@ -186,8 +374,117 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
       }
   };
 
+  const processStatements = async (statements: ParsedStatement[], suggestedName: string) => {
+      setStep('processing');
+      setProcessStatus({ current: 'Reading Statement...', progress: 10, aiCount: 0 });
+
+      try {
+          const transactions = await categorizeTransactions(statements.flatMap(st => st.transactions));
+
+          // Re-imports of a known account land in the source that already carries its account id
+          const names = statements.map(st => findAccountSource(st.accountId, existingSources)
+              || (statements.length === 1 ? suggestedName : `${suggestedName} ${st.accountId}`));
+          // Several statements of the same account in one file still become separate sources
+          const uniqueNames = names.map((name, i) =>
+              names.indexOf(name) === i ? name : `${name} (${statements[i].statementId || i + 1})`);
+
+          setStatementSources(statements.map((st, i) => ({
+              accountId: st.accountId,
+              sourceName: uniqueNames[i],
+              transactionIds: st.transactions.map(t => t.id),
+              balance: st.balance,
+              currency: st.currency
+          })));
+          setResult({ success: transactions, failed: statements.flatMap(st => st.failed).sort((a, b) => a.row - b.row) });
+          setKeptDuplicates([]);
+          setDateDetection(null);
+          setReconciliation(null);
+          setBalanceAssetChoice({});
+          setStep('results');
+      } catch (err) {
+          console.error(err);
+          alert("Error processing file.");
+          setStep('upload');
+      }
+  };
+
+  // --- Step 4: Review & Commit ---
+
+  // Tags each row with the source it will land in, which duplicate detection needs as well
+  const sourcedTransactions = useMemo(() => {
+      if (!statementSources) {
+          const source = sourceName.trim();
+          return result.success.map(t => ({ ...t, source: t.source || source, currency: t.currency || settings.currency }));
+      }
+      const sourceById = new Map<string, string>();
+      statementSources.forEach(st => st.transactionIds.forEach(id => sourceById.set(id, st.sourceName.trim())));
+      return result.success.map(t => ({ ...t, source: sourceById.get(t.id) }));
+  }, [result.success, statementSources, sourceName, settings.currency]);
+
+  const duplicates = useMemo(
+      () => step === 'results' ? findDuplicates(sourcedTransactions, existingTransactions) : [],
+      [step, sourcedTransactions, existingTransactions]
+  );
+
+  const skippedIds = new Set(duplicates
+      .filter(d => d.sameId || !keptDuplicates.includes(d.incoming.id))
+      .map(d => d.incoming.id));
+  const importCount = result.success.length - skippedIds.size;
+
+  // Closing balances the import knows about: per statement, or from the reconciled balance column
+  const balanceTargets = useMemo(() => {
+      if (statementSources) {
+          return statementSources
+              .filter(st => st.balance)
+              .map(st => ({ sourceName: st.sourceName.trim(), amount: st.balance!.amount, date: st.balance!.date, currency: st.currency }));
+      }
+      return reconciliation?.closingBalance
+          ? [{ sourceName: sourceName.trim(), ...reconciliation.closingBalance, currency: settings.currency }]
+          : [];
+  }, [statementSources, reconciliation, sourceName, settings.currency]);
+
+  // Defaults to the asset linked to the source, unless it already holds a newer balance
+  const assetChoiceFor = (index: number): string => {
+      if (balanceAssetChoice[index] !== undefined) return balanceAssetChoice[index];
+      const target = balanceTargets[index];
+      const linked = existingAssets.find(a => a.linkedSource === target.sourceName);
+      return linked && (!linked.balanceDate || linked.balanceDate <= target.date) ? linked.id : '';
+  };
+
+  const toggleKeepDuplicate = (id: string) => {
+      setKeptDuplicates(prev => prev.includes(id) ? prev.filter(k => k !== id) : [...prev, id]);
+  };
+
+  const handleConfirmImport = () => {
+      let fallbackSource = sourceName.trim();
+
+      if (statementSources) {
+          if (statementSources.some(st => !st.sourceName.trim())) {
+              alert("Please name the source for every statement.");
+              return;
+          }
+          fallbackSource = statementSources[0]?.sourceName.trim() || fallbackSource;
+      }
+
+      const transactions = sourcedTransactions.filter(t => !skippedIds.has(t.id));
+
+      const newCats = Array.from(new Set(transactions.map(t => t.category)))
+          .filter(c => !existingCategories.includes(c) && c !== Category.UNCATEGORIZED && c !== 'Uncategorized');
+      const assetBalances = balanceTargets
+          .map((target, i) => ({ ...target, assetId: assetChoiceFor(i) }))
+          .filter(update => update.assetId);
+      onImportComplete(transactions, newCats, fallbackSource, assetBalances);
+      onClose();
+  };
+
   // --- Render Helpers ---
 
+  const hasAmountColumn = mapping.amountIndex !== -1 || usesDebitCreditColumns(mapping);
+
+  const previewDateFormat = rawPreview && mapping.dateIndex !== -1
+      ? detectDateFormat(rawPreview.rows.map(row => row[mapping.dateIndex])).format
+      : null;
+
   if (!isOpen) return null;
 
   return (
@@ -228,15 +525,35 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                             <input 
                                 type="file" 
                                 className="absolute inset-0 opacity-0 cursor-pointer"
-                                accept=".csv,.xlsx,.xls,.txt"
+                                accept=".csv,.xlsx,.xls,.txt,.ofx,.qfx,.xml,.sta,.mt940,.940,.qif"
                                 onChange={handleFileSelect}
                             />
                             <div className="mx-auto bg-slate-800 p-4 rounded-full w-20 h-20 flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
                                 <Upload size={32} className="text-indigo-400" />
                             </div>
                             <h3 className="text-lg font-semibold text-white">Click or Drag file to upload</h3>
-                            <p className="text-slate-400 text-sm mt-2">Supports CSV, Excel (.xlsx)</p>
+                            <p className="text-slate-400 text-sm mt-2">Supports CSV, Excel (.xlsx), OFX/QFX, CAMT.053/.052 XML, MT940, QIF</p>
                         </div>
+
+                        {file && rawPreview && rawPreview.sheets.length > 1 && (
+                            <div className="w-full max-w-lg bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-2">
+                                <div className="flex items-center gap-2 text-slate-300 text-sm font-semibold">
+                                    <Sheet size={16} className="text-indigo-400" />
+                                    {file.name} has {rawPreview.sheets.length} sheets. Which one holds the transactions?
+                                </div>
+                                {rawPreview.sheets.map(sheet => (
+                                    <button
+                                        key={sheet.name}
+                                        onClick={() => applyTableLayout({ sheetName: sheet.name, headerRow: undefined })}
+                                        disabled={sheet.rowCount === 0}
+                                        className="w-full flex justify-between items-center px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-sm text-white disabled:opacity-40 disabled:hover:border-slate-700 transition-colors"
+                                    >
+                                        <span>{sheet.name}</span>
+                                        <span className="text-xs text-slate-500">{sheet.rowCount > 0 ? `${sheet.rowCount} rows` : 'Empty'}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -244,7 +561,7 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                 {step === 'mapping' && rawPreview && (
                     <div className="space-y-6">
                         {/* Settings Bar */}
-                        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
                              <div className="md:col-span-1">
                                 <label className="text-xs text-slate-400 font-semibold uppercase block mb-1 flex items-center gap-1">
                                     <Tag size={12}/> Import Source
@@ -265,7 +582,7 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                 <label className="text-xs text-slate-400 font-semibold uppercase block mb-1">Delimiter</label>
                                 <select 
                                     value={settings.delimiter}
-                                    onChange={e => { setSettings({...settings, delimiter: e.target.value}); setTimeout(updatePreview, 100); }}
+                                    onChange={e => setSettings({...settings, delimiter: e.target.value})}
                                     className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white"
                                 >
                                     <option value=",">Comma (,)</option>
@@ -274,16 +591,35 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                     <option value="\t">Tab</option>
                                 </select>
                              </div>
+                             <div>
+                                <label className="text-xs text-slate-400 font-semibold uppercase block mb-1">Encoding</label>
+                                <select 
+                                    value={settings.encoding || 'auto'}
+                                    onChange={e => setSettings({...settings, encoding: e.target.value as ImportSettings['encoding']})}
+                                    disabled={!rawPreview.encoding}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white disabled:opacity-50"
+                                    title={rawPreview.encoding ? `Decoded as ${ENCODING_LABELS[rawPreview.encoding]}` : 'Not applicable to spreadsheets'}
+                                >
+                                    <option value="auto">
+                                        Auto{rawPreview.encoding && (!settings.encoding || settings.encoding === 'auto') ? ` (${ENCODING_LABELS[rawPreview.encoding]})` : ''}
+                                    </option>
+                                    {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(enc => (
+                                        <option key={enc} value={enc}>{ENCODING_LABELS[enc]}</option>
+                                    ))}
+                                </select>
+                             </div>
                              <div>
                                 <label className="text-xs text-slate-400 font-semibold uppercase block mb-1">Date Format</label>
                                 <select 
                                     value={settings.dateFormat}
-                                    onChange={e => setSettings({...settings, dateFormat: e.target.value as any})}
+                                    onChange={e => setSettings({...settings, dateFormat: e.target.value as DateFormat})}
                                     className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white"
                                 >
-                                    <option value="DD.MM.YYYY">DD.MM.YYYY</option>
-                                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
-                                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                                    {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                                        <option key={format} value={format}>
+                                            {format === 'auto' && previewDateFormat ? `Auto (${previewDateFormat})` : DATE_FORMAT_LABELS[format]}
+                                        </option>
+                                    ))}
                                 </select>
                              </div>
                              <div>
@@ -297,8 +633,75 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                     <option value=",">Comma (,)</option>
                                 </select>
                              </div>
+                             <div>
+                                <label className="text-xs text-slate-400 font-semibold uppercase block mb-1">Currency</label>
+                                <select 
+                                    value={settings.currency || ''}
+                                    onChange={e => setSettings({...settings, currency: e.target.value || undefined})}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white"
+                                >
+                                    <option value="">Base ({baseCurrency})</option>
+                                    {COMMON_CURRENCIES.filter(c => c !== baseCurrency).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                             </div>
                         </div>
 
+                        {/* Table Layout */}
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-300">
+                            {rawPreview.sheets.length > 1 && (
+                                <label className="flex items-center gap-2">
+                                    <Sheet size={14} className="text-indigo-400" /> Sheet
+                                    <select
+                                        value={rawPreview.sheetName || ''}
+                                        onChange={e => applyTableLayout({ sheetName: e.target.value, headerRow: undefined })}
+                                        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                                    >
+                                        {rawPreview.sheets.map(sheet => (
+                                            <option key={sheet.name} value={sheet.name} disabled={sheet.rowCount === 0}>{sheet.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            )}
+                            <label className="flex items-center gap-2">
+                                Header starts at row
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={settings.headerRow ?? ''}
+                                    placeholder={`Auto (${rawPreview.headerRow})`}
+                                    onChange={e => applyTableLayout({ sheetName: settings.sheetName, headerRow: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined })}
+                                    className="w-28 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                                />
+                            </label>
+                            {rawPreview.footerRows > 0 && (
+                                <span className="text-xs text-slate-500">{rawPreview.footerRows} summary row(s) at the end are skipped</span>
+                            )}
+                        </div>
+
+                        {rawPreview.errorCount > 0 && (
+                            <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+                                <AlertTriangle size={14} />
+                                {rawPreview.errorCount} malformed row(s) found (unbalanced quotes or wrong column count). They will be listed in the results and skipped.
+                            </div>
+                        )}
+
+                        {matchedProfile && (
+                            <div className="flex items-center gap-2 text-xs text-indigo-300 bg-indigo-500/10 border border-indigo-500/30 rounded-lg px-3 py-2">
+                                <Bookmark size={14} />
+                                Editing mapping of profile "{matchedProfile.name}". Tick "Save as import profile" to keep your changes.
+                            </div>
+                        )}
+
+                        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer w-fit">
+                            <input
+                                type="checkbox"
+                                checked={!!mapping.invertSign}
+                                onChange={e => setMapping({ ...mapping, invertSign: e.target.checked })}
+                                className="accent-indigo-500"
+                            />
+                            Amount sign is inverted <span className="text-slate-500 text-xs">(purchases are positive, e.g. credit card exports)</span>
+                        </label>
+
                         {/* Mapping Table */}
                         <div className="overflow-x-auto border border-slate-700 rounded-xl bg-slate-800/20">
                             <table className="w-full text-left text-sm whitespace-nowrap">
@@ -317,24 +720,40 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                                             mapping.dateIndex === i ? 'date' :
                                                             mapping.descriptionIndex === i ? 'desc' :
                                                             mapping.amountIndex === i ? 'amount' :
+                                                            mapping.debitIndex === i ? 'debit' :
+                                                            mapping.creditIndex === i ? 'credit' :
                                                             mapping.categoryIndex === i ? 'cat' :
-                                                            mapping.typeIndex === i ? 'type' : ''
+                                                            mapping.typeIndex === i ? 'type' :
+                                                            mapping.balanceIndex === i ? 'balance' : ''
                                                         }
                                                         onChange={(e) => {
                                                             const val = e.target.value;
                                                             const newMap = { ...mapping };
-                                                            // Clear previous assignment of this type
+                                                            // Clear previous assignment of this column
+                                                            if (newMap.dateIndex === i) newMap.dateIndex = -1;
+                                                            if (newMap.descriptionIndex === i) newMap.descriptionIndex = -1;
+                                                            if (newMap.amountIndex === i) newMap.amountIndex = -1;
+                                                            if (newMap.debitIndex === i) newMap.debitIndex = -1;
+                                                            if (newMap.creditIndex === i) newMap.creditIndex = -1;
+                                                            if (newMap.categoryIndex === i) newMap.categoryIndex = -1;
+                                                            if (newMap.typeIndex === i) newMap.typeIndex = -1;
+                                                            if (newMap.balanceIndex === i) newMap.balanceIndex = -1;
+
                                                             if (val === 'date') newMap.dateIndex = i;
+                                                            if (val === 'balance') newMap.balanceIndex = i;
                                                             if (val === 'desc') newMap.descriptionIndex = i;
-                                                            if (val === 'amount') newMap.amountIndex = i;
                                                             if (val === 'cat') newMap.categoryIndex = i;
                                                             if (val === 'type') newMap.typeIndex = i;
-                                                            if (val === '') {
-                                                                if (newMap.dateIndex === i) newMap.dateIndex = -1;
-                                                                if (newMap.descriptionIndex === i) newMap.descriptionIndex = -1;
-                                                                if (newMap.amountIndex === i) newMap.amountIndex = -1;
-                                                                if (newMap.categoryIndex === i) newMap.categoryIndex = -1;
-                                                                if (newMap.typeIndex === i) newMap.typeIndex = -1;
+                                                            // A single signed amount and a debit/credit pair exclude each other
+                                                            if (val === 'amount') {
+                                                                newMap.amountIndex = i;
+                                                                newMap.debitIndex = -1;
+                                                                newMap.creditIndex = -1;
+                                                            }
+                                                            if (val === 'debit' || val === 'credit') {
+                                                                if (val === 'debit') newMap.debitIndex = i;
+                                                                else newMap.creditIndex = i;
+                                                                newMap.amountIndex = -1;
                                                             }
                                                             setMapping(newMap);
                                                         }}
@@ -343,13 +762,19 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                                         <option value="date">Date (Required)</option>
                                                         <option value="desc">Description</option>
                                                         <option value="amount">Amount (Required)</option>
+                                                        <option value="debit">Debit / Out</option>
+                                                        <option value="credit">Credit / In</option>
                                                         <option value="cat">Category</option>
                                                         <option value="type">Type (Inc/Exp)</option>
+                                                        <option value="balance">Running Balance</option>
                                                     </select>
                                                 </div>
                                                 <div className="text-slate-300 font-mono text-xs truncate" title={h}>{h}</div>
                                             </th>
                                         ))}
+                                        <th className="p-2 min-w-[120px] bg-slate-900 border-b border-l border-slate-700 align-bottom">
+                                            <div className="text-indigo-300 text-xs font-semibold uppercase">Signed Amount</div>
+                                        </th>
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -360,17 +785,43 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                                     {cell}
                                                 </td>
                                             ))}
+                                            <td className="p-2 text-xs font-mono border-l border-slate-700">
+                                                {(() => {
+                                                    if (!hasAmountColumn) return <span className="text-slate-600">—</span>;
+                                                    const signed = resolveSignedAmount(row, mapping, settings);
+                                                    if (isNaN(signed)) return <span className="text-red-400">invalid</span>;
+                                                    return <span className={signed < 0 ? 'text-red-400' : 'text-emerald-400'}>{signed > 0 ? '+' : ''}{signed.toFixed(2)}</span>;
+                                                })()}
+                                            </td>
                                         </tr>
                                     ))}
                                 </tbody>
                             </table>
                         </div>
                         
-                        <div className="flex justify-end gap-3">
+                        <div className="flex flex-wrap justify-end items-center gap-3">
+                            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer mr-auto">
+                                <input
+                                    type="checkbox"
+                                    checked={saveAsProfile}
+                                    onChange={e => setSaveAsProfile(e.target.checked)}
+                                    className="accent-indigo-500"
+                                />
+                                <Bookmark size={14} className="text-indigo-400" /> Save as import profile
+                                {saveAsProfile && (
+                                    <input
+                                        type="text"
+                                        value={profileName}
+                                        onChange={e => setProfileName(e.target.value)}
+                                        placeholder={sourceName || 'Profile name'}
+                                        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                                    />
+                                )}
+                            </label>
                             <button onClick={() => setStep('upload')} className="px-4 py-2 text-slate-400 hover:text-white">Back</button>
                             <button 
                                 onClick={handleStartProcessing}
-                                disabled={mapping.dateIndex === -1 || mapping.amountIndex === -1 || !sourceName.trim()}
+                                disabled={mapping.dateIndex === -1 || !hasAmountColumn || !sourceName.trim()}
                                 className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2"
                             >
                                 Process Data <ArrowRight size={16} />
@@ -413,7 +864,7 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                     <CheckCircle size={32} />
                                 </div>
                                 <div>
-                                    <h3 className="text-2xl font-bold text-white">{result.success.length}</h3>
+                                    <h3 className="text-2xl font-bold text-white">{importCount}</h3>
                                     <p className="text-emerald-400 text-sm font-medium">Ready to Import</p>
                                 </div>
                             </div>
@@ -428,13 +879,168 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                             </div>
                         </div>
 
-                        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
-                            <div className="flex items-center gap-2 mb-2 text-slate-300">
-                                <Tag size={16} className="text-indigo-400"/> 
-                                <span className="text-sm font-semibold">Importing as source:</span>
-                                <span className="text-white font-mono bg-slate-800 px-2 py-0.5 rounded border border-slate-600">{sourceName}</span>
+                        {statementSources ? (
+                            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-3">
+                                <div className="flex items-center gap-2 text-slate-300">
+                                    <Tag size={16} className="text-indigo-400"/> 
+                                    <span className="text-sm font-semibold">Statements found ({statementSources.length})</span>
+                                </div>
+                                {statementSources.map((st, i) => (
+                                    <div key={`${st.accountId}-${i}`} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center text-sm">
+                                        <input 
+                                            type="text"
+                                            list="source-suggestions"
+                                            value={st.sourceName}
+                                            onChange={(e) => setStatementSources(prev => prev!.map((p, j) => j === i ? { ...p, sourceName: e.target.value } : p))}
+                                            className="bg-slate-900 border border-indigo-500/50 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                                        />
+                                        <span className="text-slate-400 font-mono text-xs">Account {st.accountId} · {st.transactionIds.length} transactions</span>
+                                        <span className="text-slate-400 text-xs md:text-right">
+                                            {st.balance ? <>Balance <span className="text-white font-mono">{st.balance.amount.toFixed(2)}</span> on {st.balance.date}</> : 'No balance reported'}
+                                        </span>
+                                    </div>
+                                ))}
+                                <datalist id="source-suggestions">
+                                    {existingSources.map(s => <option key={s} value={s} />)}
+                                </datalist>
                             </div>
-                        </div>
+                        ) : (
+                            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-2">
+                                <div className="flex items-center gap-2 text-slate-300">
+                                    <Tag size={16} className="text-indigo-400"/> 
+                                    <span className="text-sm font-semibold">Importing as source:</span>
+                                    <span className="text-white font-mono bg-slate-800 px-2 py-0.5 rounded border border-slate-600">{sourceName}</span>
+                                </div>
+                                {matchedProfile && (
+                                    <div className="flex items-center gap-2 text-xs text-slate-400">
+                                        <Bookmark size={14} className="text-indigo-400" />
+                                        Recognized import profile <span className="text-indigo-300 font-semibold">{matchedProfile.name}</span>
+                                        <button onClick={() => setStep('mapping')} className="ml-2 text-indigo-400 hover:text-indigo-300 underline">Edit mapping</button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Reconciliation */}
+                        {reconciliation && (
+                            <div className={`p-4 rounded-xl border space-y-2 ${reconciliation.gaps.length > 0 ? 'bg-amber-500/10 border-amber-500/30' : 'bg-emerald-500/10 border-emerald-500/30'}`}>
+                                <div className={`flex items-center gap-2 text-sm font-semibold ${reconciliation.gaps.length > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+                                    <Scale size={16} />
+                                    {reconciliation.gaps.length > 0
+                                        ? `Running balance does not add up in ${reconciliation.gaps.length} place${reconciliation.gaps.length === 1 ? '' : 's'}`
+                                        : `Running balance checks out across ${reconciliation.checked} rows`}
+                                </div>
+                                <div className="text-xs text-slate-400">
+                                    Rows are listed {reconciliation.order === 'newest-first' ? 'newest first' : 'oldest first'}.
+                                    {reconciliation.openingBalance !== null && <> Opening balance <span className="text-white font-mono">{reconciliation.openingBalance.toFixed(2)}</span>,</>}
+                                    {reconciliation.closingBalance && <> closing balance <span className="text-white font-mono">{reconciliation.closingBalance.amount.toFixed(2)}</span> on {reconciliation.closingBalance.date}.</>}
+                                </div>
+                                {reconciliation.gaps.length > 0 && (
+                                    <ul className="text-xs text-slate-300 space-y-1 max-h-32 overflow-y-auto">
+                                        {reconciliation.gaps.map((gap, i) => (
+                                            <li key={i} className="font-mono">
+                                                Rows {Math.min(gap.afterRow, gap.beforeRow)}–{Math.max(gap.afterRow, gap.beforeRow)}: expected {gap.expected.toFixed(2)}, file shows {gap.actual.toFixed(2)}
+                                                <span className="text-amber-400"> ({gap.difference > 0 ? '+' : ''}{gap.difference.toFixed(2)} missing or skipped)</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Closing Balance -> Asset */}
+                        {balanceTargets.length > 0 && (
+                            <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 space-y-2">
+                                <div className="flex items-center gap-2 text-slate-300 text-sm font-semibold">
+                                    <Scale size={16} className="text-indigo-400" /> Update asset values
+                                </div>
+                                {existingAssets.length === 0 ? (
+                                    <p className="text-xs text-slate-500">Add an asset in the dashboard to track this account's balance.</p>
+                                ) : balanceTargets.map((target, i) => (
+                                    <div key={i} className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+                                        Set
+                                        <select
+                                            value={assetChoiceFor(i)}
+                                            onChange={e => setBalanceAssetChoice(prev => ({ ...prev, [i]: e.target.value }))}
+                                            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                                        >
+                                            <option value="">Don't update an asset</option>
+                                            {existingAssets.map(asset => (
+                                                <option key={asset.id} value={asset.id}>
+                                                    {asset.name}{asset.balanceDate ? ` (as of ${asset.balanceDate})` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        to the closing balance of <span className="text-white">{target.sourceName || 'this import'}</span>:
+                                        <span className="text-white font-mono">{target.amount.toFixed(2)}</span> on {target.date}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {dateDetection?.ambiguous && (
+                            <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+                                <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                                <span>
+                                    Every date in this file fits {dateDetection.candidates.join(' and ')}. Dates were read as <span className="font-semibold">{dateDetection.format}</span>.
+                                    <button onClick={() => setStep('mapping')} className="ml-2 text-indigo-400 hover:text-indigo-300 underline">Choose date format</button>
+                                </span>
+                            </div>
+                        )}
+
+                        {/* Duplicate Review */}
+                        {duplicates.length > 0 && (
+                            <div className="bg-slate-800 rounded-xl border border-amber-500/30 overflow-hidden">
+                                <div className="p-3 bg-amber-500/10 border-b border-amber-500/30 flex justify-between items-center">
+                                    <h4 className="font-bold text-amber-300 text-sm flex items-center gap-2">
+                                        <Copy size={14} /> {duplicates.length} likely duplicate{duplicates.length === 1 ? '' : 's'}
+                                    </h4>
+                                    <span className="text-xs text-slate-400">Same amount, source and description within {DUPLICATE_DAY_TOLERANCE} days of an existing transaction</span>
+                                </div>
+                                <div className="max-h-48 overflow-y-auto">
+                                    <table className="w-full text-left text-xs">
+                                        <thead className="text-slate-500 bg-slate-900/50">
+                                            <tr>
+                                                <th className="p-2">Incoming</th>
+                                                <th className="p-2">Already in session</th>
+                                                <th className="p-2 text-right">Amount</th>
+                                                <th className="p-2 text-right">Action</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {duplicates.map(dup => {
+                                                const kept = !skippedIds.has(dup.incoming.id);
+                                                return (
+                                                    <tr key={dup.incoming.id} className={`border-b border-slate-700/50 ${kept ? 'text-slate-300' : 'text-slate-500'}`}>
+                                                        <td className="p-2">
+                                                            <div className="font-mono">{dup.incoming.date}</div>
+                                                            <div className="truncate max-w-[200px]" title={dup.incoming.description}>{dup.incoming.description}</div>
+                                                        </td>
+                                                        <td className="p-2">
+                                                            <div className="font-mono">{dup.existing.date}{dup.dayDiff > 0 && <span className="text-amber-400"> ({dup.dayDiff}d apart)</span>}</div>
+                                                            <div className="truncate max-w-[200px]" title={dup.existing.description}>{dup.existing.description}</div>
+                                                        </td>
+                                                        <td className="p-2 text-right font-mono">{dup.incoming.amount.toFixed(2)}</td>
+                                                        <td className="p-2 text-right">
+                                                            {dup.sameId ? (
+                                                                <span className="text-slate-500" title="The bank reference is already imported">Skip</span>
+                                                            ) : (
+                                                                <button
+                                                                    onClick={() => toggleKeepDuplicate(dup.incoming.id)}
+                                                                    className={`px-2 py-1 rounded border transition-colors ${kept ? 'border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/10' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+                                                                >
+                                                                    {kept ? 'Keep' : 'Skip'}
+                                                                </button>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
 
                         {/* Failed List */}
                         {result.failed.length > 0 && (
@@ -455,7 +1061,7 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                                         <tbody>
                                             {result.failed.map((fail, i) => (
                                                 <tr key={i} className="border-b border-slate-700/50 text-slate-400">
-                                                    <td className="p-2 font-mono text-red-400">{fail.row}</td>
+                                                    <td className="p-2 font-mono text-red-400">{fail.row}{fail.column ? `:${fail.column}` : ''}</td>
                                                     <td className="p-2">{fail.reason}</td>
                                                     <td className="p-2 font-mono opacity-50 truncate max-w-[200px]">{JSON.stringify(fail.raw)}</td>
                                                 </tr>
@@ -469,15 +1075,10 @@ export const SmartImportModal: React.FC<SmartImportModalProps> = ({
                         <div className="flex justify-end gap-3 pt-4 border-t border-slate-700">
                              <button onClick={() => setStep('upload')} className="px-4 py-2 text-slate-400 hover:text-white">Cancel</button>
                              <button 
-                                onClick={() => {
-                                    const newCats = Array.from(new Set(result.success.map(t => t.category)))
-                                        .filter(c => !existingCategories.includes(c) && c !== Category.UNCATEGORIZED && c !== 'Uncategorized');
-                                    onImportComplete(result.success, newCats, sourceName);
-                                    onClose();
-                                }}
+                                onClick={handleConfirmImport}
                                 className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-lg shadow-emerald-500/20"
                              >
-                                <Download size={18} /> Import {result.success.length} Transactions
+                                <Download size={18} /> Import {importCount} Transactions
                              </button>
                         </div>
                     </div>
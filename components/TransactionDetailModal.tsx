@@ -1,55 +1,143 @@
 import React, { useState, useEffect } from 'react';
-import { Transaction, CategorizationRule, TransactionType } from '../types';
-import { X, Save, AlertCircle, ArrowRight, Wallet, Tag, BookOpen, Calculator, Calendar, AlignLeft, Regex } from 'lucide-react';
+import { Transaction, CategorizationRule, TransactionType, TransactionSplit } from '../types';
+import { Formatter } from '../utils/format';
+import { categoryParts, isSplit, splitRemainder, parseTagList } from '../utils/transactions';
+import { keywordOfRule, describeRule } from '../utils/rules';
+import { X, Save, AlertCircle, ArrowRight, Wallet, Tag, BookOpen, Calculator, Calendar, AlignLeft, Regex, Split, Plus, Trash2, CheckCircle, ArrowLeftRight, Unlink, PenLine, Hash, StickyNote } from 'lucide-react';
 
 interface TransactionDetailModalProps {
   transaction: Transaction;
   similarTransactions: Transaction[];
   categoryTransactions: Transaction[];
   activeRule?: CategorizationRule;
+  transferCounterpart?: Transaction;
   availableCategories: string[];
+  availableTags: string[];
+  format: Formatter;
   onClose: () => void;
   onSave: (
     transactionId: string, 
     newCategory: string, 
     applyToSimilar: boolean, 
-    newRule: { keyword: string, category: string, isRegex: boolean } | null
+    newRule: { keyword: string, category: string, isRegex: boolean } | null,
+    splits: TransactionSplit[] | null,
+    annotations: { tags: string[], notes: string }
   ) => void;
+  onUnlinkTransfer?: (transactionId: string) => void;
+  onEdit?: () => void; // Opens the full editor for date, amount, source, ...
 }
 
+// Amounts stay strings while typing so "12," or "" do not jump back to 0
+interface SplitDraft {
+  category: string;
+  amount: string;
+  note: string;
+}
+
+const toDrafts = (t: Transaction): SplitDraft[] =>
+  isSplit(t) ? t.splits!.map(s => ({ category: s.category, amount: String(s.amount), note: s.note || '' })) : [];
+
+const parseDraftAmount = (value: string): number => parseFloat(value.replace(',', '.'));
+
 const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
   transaction,
   similarTransactions,
   categoryTransactions,
   activeRule,
+  transferCounterpart,
   availableCategories,
+  availableTags,
+  format,
   onClose,
-  onSave
+  onSave,
+  onUnlinkTransfer,
+  onEdit
 }) => {
   const [category, setCategory] = useState(transaction.category);
   const [applyToSimilar, setApplyToSimilar] = useState(true);
   
-  // Rule State
-  const [createRule, setCreateRule] = useState(!!activeRule);
-  const [ruleKeyword, setRuleKeyword] = useState(activeRule ? activeRule.keyword : transaction.description.toLowerCase());
-  const [ruleIsRegex, setRuleIsRegex] = useState(activeRule?.isRegex || false);
+  // Rule State; rules with more than a description keyword are only shown here and edited in Settings
+  const activeKeyword = activeRule ? keywordOfRule(activeRule) : null;
+  const [createRule, setCreateRule] = useState(!!activeKeyword);
+  const [ruleKeyword, setRuleKeyword] = useState(activeKeyword ? activeKeyword.keyword : transaction.description.toLowerCase());
+  const [ruleIsRegex, setRuleIsRegex] = useState(activeKeyword?.isRegex || false);
+
+  // Tags & Notes State
+  const [tags, setTags] = useState<string[]>(transaction.tags || []);
+  const [tagInput, setTagInput] = useState('');
+  const [notes, setNotes] = useState(transaction.notes || '');
+
+  // Split State (empty = not split)
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>(() => toDrafts(transaction));
+  const isSplitting = splitDrafts.length > 0;
+  const draftSplits: TransactionSplit[] = splitDrafts.map(d => ({ category: d.category, amount: parseDraftAmount(d.amount), ...(d.note.trim() ? { note: d.note.trim() } : {}) }));
+  const remainder = splitRemainder(transaction.amount, draftSplits);
 
   useEffect(() => {
     setCategory(transaction.category);
+    setSplitDrafts(toDrafts(transaction));
+    setTags(transaction.tags || []);
+    setTagInput('');
+    setNotes(transaction.notes || '');
     // Default keyword: try to find a meaningful word if no rule exists, otherwise full description
-    if (!activeRule) {
+    const keyword = activeRule ? keywordOfRule(activeRule) : null;
+    if (!keyword) {
         setRuleKeyword(transaction.description.toLowerCase());
         setRuleIsRegex(false);
     } else {
-        setRuleKeyword(activeRule.keyword);
-        setRuleIsRegex(!!activeRule.isRegex);
+        setRuleKeyword(keyword.keyword);
+        setRuleIsRegex(keyword.isRegex);
     }
   }, [transaction, activeRule]);
 
   const totalSimilarAmount = similarTransactions.reduce((sum, t) => sum + t.amount, 0);
-  const totalCategoryAmount = categoryTransactions.reduce((sum, t) => sum + t.amount, 0);
+  // Split transactions only count their parts in this category
+  const totalCategoryAmount = categoryTransactions.reduce((sum, t) =>
+    sum + categoryParts(t).filter(p => p.category === transaction.category).reduce((s, p) => s + p.amount, 0), 0);
+
+  const addTagsFromInput = () => {
+      const added = parseTagList(tagInput);
+      if (added.length > 0) setTags(prev => Array.from(new Set([...prev, ...added])));
+      setTagInput('');
+  };
+
+  const startSplit = () => {
+      setSplitDrafts([
+          { category, amount: String(transaction.amount), note: '' },
+          { category: availableCategories.find(c => c !== category) || category, amount: '', note: '' }
+      ]);
+  };
+
+  const updateSplitDraft = (index: number, patch: Partial<SplitDraft>) => {
+      setSplitDrafts(prev => prev.map((d, i) => i === index ? { ...d, ...patch } : d));
+  };
+
+  const addSplitPart = () => {
+      setSplitDrafts(prev => [...prev, { category: availableCategories[0] || category, amount: remainder > 0 ? String(remainder) : '', note: '' }]);
+  };
+
+  const removeSplitPart = (index: number) => {
+      // Dropping to one part ends the split; that part's category becomes the transaction's
+      const next = splitDrafts.filter((_, i) => i !== index);
+      if (next.length === 1) {
+          setCategory(next[0].category);
+          setSplitDrafts([]);
+      } else {
+          setSplitDrafts(next);
+      }
+  };
 
   const handleSave = () => {
+    if (isSplitting) {
+        if (draftSplits.some(s => isNaN(s.amount) || s.amount === 0)) {
+            alert("Every part needs an amount.");
+            return;
+        }
+        if (remainder !== 0) {
+            alert(`The parts must add up to ${format.money(transaction.amount, { currency: transaction.currency, decimals: 2 })}. ${format.money(Math.abs(remainder), { currency: transaction.currency, decimals: 2 })} ${remainder > 0 ? 'is not assigned yet' : 'too much is assigned'}.`);
+            return;
+        }
+    }
     if (createRule && ruleIsRegex) {
         try {
             new RegExp(ruleKeyword);
@@ -62,8 +150,11 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
     onSave(
         transaction.id, 
         category, 
-        applyToSimilar, 
-        createRule && ruleKeyword.trim() ? { keyword: ruleKeyword.trim(), category, isRegex: ruleIsRegex } : null
+        applyToSimilar && !isSplitting, 
+        createRule && ruleKeyword.trim() ? { keyword: ruleKeyword.trim(), category, isRegex: ruleIsRegex } : null,
+        isSplitting ? draftSplits : null,
+        // A tag still in the input box counts, so nobody has to press Enter before saving
+        { tags: Array.from(new Set([...tags, ...parseTagList(tagInput)])), notes }
     );
   };
 
@@ -79,9 +170,16 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
             </h2>
             <p className="text-slate-400 text-sm mt-1">ID: {transaction.id.split('-')[1]}...</p>
           </div>
+          <div className="flex items-center gap-3">
+          {onEdit && (
+            <button onClick={onEdit} className="text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-lg border border-slate-600 flex items-center gap-1 transition-colors">
+              <PenLine size={12} /> Edit / Delete
+            </button>
+          )}
           <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
             <X size={24} />
           </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-6 flex-1">
@@ -100,22 +198,96 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                         <div className="mt-1 text-indigo-400"><Calendar size={18} /></div>
                         <div>
                             <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Date</label>
-                            <div className="text-slate-300">{transaction.date}</div>
+                            <div className="text-slate-300">{format.date(transaction.date)}</div>
                         </div>
                     </div>
                 </div>
                 <div className="space-y-4">
                      <div className="flex items-start gap-3">
-                        <div className={`mt-1 ${transaction.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-red-400'}`}>
+                        <div className={`mt-1 ${transaction.type === TransactionType.INCOME ? 'text-emerald-400' : transaction.type === TransactionType.TRANSFER ? 'text-sky-400' : 'text-red-400'}`}>
                             <Calculator size={18} />
                         </div>
                         <div>
                             <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Amount</label>
                             <div className={`text-2xl font-bold ${transaction.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-white'}`}>
-                                ${transaction.amount.toFixed(2)}
+                                {format.money(transaction.amount, { currency: transaction.currency, decimals: 2 })}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Transfer Link */}
+            {transaction.transfer && (
+                <div className="bg-sky-500/5 rounded-xl p-4 border border-sky-500/20 flex items-center justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                        <div className="mt-0.5 text-sky-400"><ArrowLeftRight size={18} /></div>
+                        <div className="text-sm">
+                            <div className="text-sky-300 font-medium">
+                                Transfer {transaction.transfer.direction === 'OUT' ? 'to' : 'from'} {transferCounterpart?.source || 'another account'}
+                            </div>
+                            <div className="text-xs text-slate-400">
+                                {transferCounterpart
+                                    ? `Matched with "${transferCounterpart.description}" on ${format.date(transferCounterpart.date)}. `
+                                    : ''}
+                                Not counted as income or expense.
                             </div>
                         </div>
                     </div>
+                    {onUnlinkTransfer && (
+                        <button
+                            onClick={() => onUnlinkTransfer(transaction.id)}
+                            className="shrink-0 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-lg border border-slate-600 flex items-center gap-1 transition-colors"
+                        >
+                            <Unlink size={12} /> Not a transfer
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Tags & Notes */}
+            <div className="bg-slate-800/50 rounded-xl p-5 border border-slate-700 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-2"><Hash size={14} className="text-indigo-400" /> Tags</label>
+                    <div className="flex flex-wrap gap-1.5 mb-2">
+                        {tags.length === 0 && <span className="text-xs text-slate-500">No tags yet.</span>}
+                        {tags.map(tag => (
+                            <span key={tag} className="inline-flex items-center gap-1 text-xs bg-indigo-500/10 text-indigo-300 border border-indigo-500/20 rounded-full pl-2 pr-1 py-0.5">
+                                #{tag}
+                                <button onClick={() => setTags(prev => prev.filter(t => t !== tag))} className="text-indigo-400 hover:text-red-400" title={`Remove ${tag}`}>
+                                    <X size={12} />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                    <input
+                        type="text"
+                        list="detail-tag-options"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' || e.key === ',') {
+                                e.preventDefault();
+                                addTagsFromInput();
+                            }
+                        }}
+                        onBlur={addTagsFromInput}
+                        placeholder="Add tag, e.g. reimbursable"
+                        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                    />
+                    <datalist id="detail-tag-options">
+                        {availableTags.filter(t => !tags.includes(t)).map(t => <option key={t} value={t} />)}
+                    </datalist>
+                </div>
+                <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-2"><StickyNote size={14} className="text-indigo-400" /> Notes</label>
+                    <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={3}
+                        placeholder="e.g. Paid for Anna, she owes half"
+                        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none resize-none"
+                    />
                 </div>
             </div>
 
@@ -133,11 +305,14 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                         <select 
                             value={category}
                             onChange={(e) => setCategory(e.target.value)}
-                            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-indigo-500 focus:outline-none"
+                            disabled={isSplitting}
+                            title={isSplitting ? 'Set per part below' : undefined}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-indigo-500 focus:outline-none disabled:opacity-50"
                         >
                             {availableCategories.map(c => <option key={c} value={c}>{c}</option>)}
                         </select>
                         
+                        {!isSplitting && (
                         <div className="mt-4 flex items-center gap-2">
                              <input 
                                 type="checkbox" 
@@ -150,6 +325,7 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                                 Update <strong>{similarTransactions.length}</strong> similar transactions
                             </label>
                         </div>
+                        )}
                     </div>
 
                     {/* Rule Definition */}
@@ -157,7 +333,7 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                         <div className="flex justify-between items-center mb-3">
                             <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
                                 <BookOpen size={16} />
-                                {activeRule ? 'Active Rule' : 'Create Rule'}
+                                {activeKeyword ? 'Active Rule' : 'Create Rule'}
                             </label>
                             <div className="flex items-center">
                                 <input 
@@ -170,6 +346,11 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                             </div>
                         </div>
                         
+                        {activeRule && !activeKeyword && (
+                            <p className="text-xs text-slate-400 mb-3">
+                                Currently matched by <span className="font-mono text-slate-300">{describeRule(activeRule)}</span> → {activeRule.category}. Edit it under Settings.
+                            </p>
+                        )}
                         {createRule && (
                             <div className="animate-fade-in">
                                 <div className="flex justify-between items-center mb-1">
@@ -192,7 +373,7 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                                 </p>
                             </div>
                         )}
-                        {!createRule && activeRule && (
+                        {!createRule && activeKeyword && (
                              <div className="text-xs text-yellow-500 flex items-center gap-1 mt-2">
                                 <AlertCircle size={12} />
                                 Unchecking this will not delete the rule, only stop updating it now.
@@ -202,20 +383,87 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                 </div>
             </div>
 
+            {/* Split Editor (transfers move money as a whole) */}
+            {!transaction.transfer && (
+            <div className="bg-slate-800/50 rounded-xl p-5 border border-slate-700">
+                <div className="flex justify-between items-center mb-3">
+                    <div className="flex items-center gap-2 text-indigo-300">
+                        <Split size={18} />
+                        <h3 className="font-semibold">Split</h3>
+                    </div>
+                    {isSplitting ? (
+                        <button onClick={() => setSplitDrafts([])} className="text-xs text-slate-400 hover:text-red-400">Remove split</button>
+                    ) : (
+                        <button onClick={startSplit} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                            <Plus size={12} /> Split across categories
+                        </button>
+                    )}
+                </div>
+                {isSplitting ? (
+                    <div className="space-y-2">
+                        {splitDrafts.map((draft, i) => (
+                            <div key={i} className="flex gap-2 items-center">
+                                <select
+                                    value={draft.category}
+                                    onChange={(e) => updateSplitDraft(i, { category: e.target.value })}
+                                    className="w-40 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                                >
+                                    {!availableCategories.includes(draft.category) && <option value={draft.category}>{draft.category}</option>}
+                                    {availableCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    value={draft.amount}
+                                    onChange={(e) => updateSplitDraft(i, { amount: e.target.value })}
+                                    placeholder="0.00"
+                                    className="w-24 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white text-right font-mono focus:border-indigo-500 focus:outline-none"
+                                />
+                                <input
+                                    type="text"
+                                    value={draft.note}
+                                    onChange={(e) => updateSplitDraft(i, { note: e.target.value })}
+                                    placeholder="Note (optional)"
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                                />
+                                <button onClick={() => removeSplitPart(i)} className="p-1.5 text-slate-500 hover:text-red-400" title="Remove part">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        <div className="flex justify-between items-center pt-2">
+                            <button onClick={addSplitPart} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                                <Plus size={12} /> Add part
+                            </button>
+                            {remainder === 0 ? (
+                                <span className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle size={12} /> Parts add up to the total</span>
+                            ) : (
+                                <span className="text-xs text-amber-400 font-mono">
+                                    {remainder > 0 ? 'Unassigned' : 'Over by'} {format.money(Math.abs(remainder), { currency: transaction.currency, decimals: 2 })}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-500">Assign parts of this amount to different categories, e.g. groceries and pharmacy on one receipt. Rules leave split transactions alone.</p>
+                )}
+            </div>
+            )}
+
             {/* Statistics Row */}
             <div className="grid grid-cols-2 gap-4">
                 <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
                     <label className="text-xs text-slate-500 uppercase font-semibold flex items-center gap-1 mb-1">
                         <Wallet size={14} /> Similar (Description)
                     </label>
-                    <div className="text-lg font-bold text-white">${totalSimilarAmount.toFixed(2)}</div>
+                    <div className="text-lg font-bold text-white">{format.money(totalSimilarAmount, { currency: transaction.currency, decimals: 2 })}</div>
                     <div className="text-xs text-slate-400">{similarTransactions.length} transactions</div>
                 </div>
                 <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
                      <label className="text-xs text-slate-500 uppercase font-semibold flex items-center gap-1 mb-1">
                         <Tag size={14} /> Category Total
                     </label>
-                    <div className="text-lg font-bold text-white">${totalCategoryAmount.toFixed(2)}</div>
+                    <div className="text-lg font-bold text-white">{format.money(totalCategoryAmount, { decimals: 2 })}</div>
                     <div className="text-xs text-slate-400">{categoryTransactions.length} transactions in '{transaction.category}'</div>
                 </div>
             </div>
@@ -228,9 +476,9 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                         <tbody className="divide-y divide-slate-800">
                             {similarTransactions.slice(0, 10).map(t => (
                                 <tr key={t.id} className="text-slate-400 hover:bg-slate-800/50">
-                                    <td className="p-2">{t.date}</td>
+                                    <td className="p-2">{format.date(t.date)}</td>
                                     <td className="p-2 truncate max-w-[200px]">{t.description}</td>
-                                    <td className="p-2 text-right">${t.amount.toFixed(2)}</td>
+                                    <td className="p-2 text-right">{format.money(t.amount, { currency: t.currency, decimals: 2 })}</td>
                                 </tr>
                             ))}
                         </tbody>
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Transaction, TransactionType, Category, MANUAL_SOURCE } from '../types';
+import { COMMON_CURRENCIES, isCurrencyCode } from '../utils/currency';
+import { Formatter } from '../utils/format';
+import { isSplit } from '../utils/transactions';
+import { X, Save, Trash2, PenLine, AlertCircle } from 'lucide-react';
+
+interface TransactionEditorModalProps {
+  transaction?: Transaction; // Omitted when creating
+  availableCategories: string[];
+  availableSources: string[];
+  format: Formatter;
+  onSave: (transaction: Transaction) => void;
+  onDelete?: (transactionId: string) => void;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const TransactionEditorModal: React.FC<TransactionEditorModalProps> = ({
+  transaction,
+  availableCategories,
+  availableSources,
+  format,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const isNew = !transaction;
+  // Transfers are edited as the income or expense they were before linking
+  const initialType = transaction?.transfer
+    ? (transaction.transfer.direction === 'IN' ? TransactionType.INCOME : TransactionType.EXPENSE)
+    : transaction?.type || TransactionType.EXPENSE;
+
+  const [date, setDate] = useState(transaction?.date || today());
+  const [description, setDescription] = useState(transaction?.description || '');
+  const [amount, setAmount] = useState(transaction ? String(transaction.amount) : '');
+  const [type, setType] = useState<TransactionType>(initialType);
+  const [currency, setCurrency] = useState(transaction?.currency || format.currency);
+  const [source, setSource] = useState(transaction?.source || MANUAL_SOURCE);
+  const [category, setCategory] = useState(transaction?.category || Category.UNCATEGORIZED);
+  const [notes, setNotes] = useState(transaction?.notes || '');
+
+  const currencyOptions = Array.from(new Set([format.currency, ...COMMON_CURRENCIES, ...(transaction?.currency ? [transaction.currency] : [])]));
+  const sourceOptions = Array.from(new Set([MANUAL_SOURCE, ...availableSources]));
+  const parsedAmount = parseFloat(amount.replace(',', '.'));
+  const amountChanged = !isNew && parsedAmount !== transaction.amount;
+  const losesSplit = !!transaction && isSplit(transaction) && amountChanged;
+  const losesTransfer = !!transaction?.transfer && (amountChanged || type !== initialType || currency !== (transaction.currency || format.currency));
+
+  const handleSave = () => {
+    const errors: string[] = [];
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) errors.push("Enter a valid date.");
+    if (!description.trim()) errors.push("Enter a description.");
+    if (isNaN(parsedAmount) || parsedAmount <= 0) errors.push("Enter an amount above zero; use the type for money coming in or going out.");
+    if (!isCurrencyCode(currency)) errors.push(`"${currency}" is not a currency code.`);
+    if (!source.trim()) errors.push("Enter a source.");
+    if (!category.trim()) errors.push("Choose a category.");
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+
+    const { splits, transfer, notes: _oldNotes, currency: _oldCurrency, ...kept } = transaction || ({} as Transaction);
+    const keepTransfer = transfer && !losesTransfer;
+    onSave({
+      ...kept,
+      id: transaction?.id || `manual-${Date.now()}`,
+      date,
+      description: description.trim(),
+      amount: Math.round(parsedAmount * 100) / 100,
+      type: keepTransfer ? TransactionType.TRANSFER : type,
+      source: source.trim(),
+      category,
+      // Base-currency entries stay without a code unless they already had one
+      ...(currency !== format.currency || transaction?.currency ? { currency } : {}),
+      ...(splits && !losesSplit ? { splits } : {}),
+      ...(keepTransfer ? { transfer } : {}),
+      ...(notes.trim() ? { notes: notes.trim() } : {})
+    });
+  };
+
+  const handleDelete = () => {
+    if (!transaction || !onDelete) return;
+    const extra = transaction.transfer ? "\nThe other side of the transfer becomes a normal transaction again." : '';
+    if (confirm(`Delete "${transaction.description}" (${format.money(transaction.amount, { currency: transaction.currency, decimals: 2 })})?${extra}`)) {
+      onDelete(transaction.id);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none";
+  const labelClass = "block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1.5";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto flex flex-col">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <PenLine size={20} className="text-indigo-400" />
+            {isNew ? 'Add Transaction' : 'Edit Transaction'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={24} /></button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Date</label>
+              <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Type</label>
+              <div className="flex bg-slate-900 border border-slate-600 rounded-lg p-0.5">
+                {[TransactionType.EXPENSE, TransactionType.INCOME].map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setType(option)}
+                    className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-colors ${type === option
+                      ? (option === TransactionType.INCOME ? 'bg-emerald-600 text-white' : 'bg-red-500/80 text-white')
+                      : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {option === TransactionType.INCOME ? 'Income' : 'Expense'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <input type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="e.g. Farmers market" className={inputClass} autoFocus={isNew} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Amount</label>
+            <div className="flex">
+              <select
+                value={currency}
+                onChange={e => setCurrency(e.target.value)}
+                className="bg-slate-900 border border-r-0 border-slate-600 rounded-l-lg px-2 py-2 text-xs text-slate-400 focus:border-indigo-500 focus:outline-none"
+              >
+                {currencyOptions.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded-r-lg px-3 py-2 text-sm text-white font-mono focus:border-indigo-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Source</label>
+              <input type="text" list="transaction-sources" value={source} onChange={e => setSource(e.target.value)} className={inputClass} />
+              <datalist id="transaction-sources">
+                {sourceOptions.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>Category</label>
+              <select value={category} onChange={e => setCategory(e.target.value)} className={inputClass}>
+                {!availableCategories.includes(category) && <option value={category}>{category}</option>}
+                {availableCategories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Notes</label>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="Optional" className={`${inputClass} resize-none`} />
+          </div>
+
+          {(losesSplit || losesTransfer) && (
+            <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
+              <AlertCircle size={14} className="mt-0.5 shrink-0" />
+              <span>
+                {losesSplit && 'The new amount no longer matches the split parts, so the split will be removed. '}
+                {losesTransfer && 'The transaction no longer mirrors its transfer counterpart, so the transfer will be unlinked.'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-between gap-3 bg-slate-800/50">
+          {!isNew && onDelete ? (
+            <button onClick={handleDelete} className="px-4 py-2 rounded-lg text-red-400 hover:text-white hover:bg-red-500/80 transition-colors text-sm font-medium flex items-center gap-2">
+              <Trash2 size={16} /> Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-700 transition-colors text-sm font-medium">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium shadow-lg shadow-indigo-500/20 flex items-center gap-2 transition-all">
+              <Save size={18} />
+              {isNew ? 'Add' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,73 @@
 import React, { useState, useMemo } from 'react';
-import { Transaction, TransactionType } from '../types';
-import { ArrowUpRight, ArrowDownLeft, ChevronDown, X, Filter, Tag } from 'lucide-react';
+import { Transaction, TransactionType, CategoryDefinition } from '../types';
+import { Formatter } from '../utils/format';
+import { categoryParts, isSplit, parseTagList } from '../utils/transactions';
+import { CategoryNode, buildCategoryTree, isWithin, createCategoryLookup } from '../utils/categories';
+import { ArrowUpRight, ArrowDownLeft, ArrowLeftRight, ChevronDown, X, Filter, Tag, Split, Plus, Trash2, Hash } from 'lucide-react';
 
 interface TransactionListProps {
   transactions: Transaction[];
-  availableCategories: string[];
+  categories: CategoryDefinition[];
+  format: Formatter;
   onCategoryChange: (transactionId: string, newCategory: string) => void;
   onTransactionClick?: (transactionId: string) => void;
+  onDetectTransfers?: () => void;
+  onAddTransaction?: () => void;
+  onDeleteTransactions?: (transactionIds: string[]) => void;
+  availableTags?: string[];
+  onBulkTag?: (transactionIds: string[], add: string[], remove: string[]) => void;
 }
 
+// Tag filter value for transactions without any tag
+const UNTAGGED = '__untagged';
+
 const TransactionList: React.FC<TransactionListProps> = ({ 
   transactions, 
-  availableCategories, 
+  categories, 
+  format,
   onCategoryChange,
-  onTransactionClick
+  onTransactionClick,
+  onDetectTransfers,
+  onAddTransaction,
+  onDeleteTransactions,
+  availableTags = [],
+  onBulkTag
 }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTagInput, setBulkTagInput] = useState('');
+  const canSelect = !!onDeleteTransactions || !!onBulkTag;
   const [filters, setFilters] = useState({
     date: '',
     description: '',
     category: '',
     amount: '',
-    source: ''
+    source: '',
+    tag: ''
   });
 
+  const availableCategories = useMemo(() => categories.map(c => c.name), [categories]);
+  const categoryInfo = useMemo(() => createCategoryLookup(categories), [categories]);
+
+  // Parents come first and children are indented, so the filter reads as a tree
+  const categoryFilterOptions = useMemo(() => {
+    const flatten = (nodes: CategoryNode[], depth: number): { path: string; label: string }[] =>
+      nodes.flatMap(n => [{ path: n.path, label: '\u00A0\u00A0'.repeat(depth) + n.name }, ...flatten(n.children, depth + 1)]);
+    return flatten(buildCategoryTree(availableCategories), 0);
+  }, [availableCategories]);
+
+  const transactionsById = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
   const availableSources = useMemo(() => Array.from(new Set(transactions.map(t => t.source || 'Unknown'))), [transactions]);
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter(t => {
-      const matchDate = t.date.toLowerCase().includes(filters.date.toLowerCase());
+      // Match both the stored ISO date and the date as displayed
+      const dateQuery = filters.date.toLowerCase();
+      const matchDate = t.date.toLowerCase().includes(dateQuery) || format.date(t.date).toLowerCase().includes(dateQuery);
       const matchDesc = t.description.toLowerCase().includes(filters.description.toLowerCase());
-      const matchCat = filters.category === '' || t.category === filters.category;
+      // A parent category also matches everything filed below it
+      const matchCat = filters.category === '' || categoryParts(t).some(p => isWithin(p.category, filters.category));
       const matchSource = filters.source === '' || (t.source || 'Unknown') === filters.source;
+      const matchTag = filters.tag === '' || (filters.tag === UNTAGGED ? !t.tags?.length : !!t.tags?.includes(filters.tag));
       
       let matchAmount = true;
       if (filters.amount) {
@@ -57,16 +94,50 @@ const TransactionList: React.FC<TransactionListProps> = ({
          }
       }
 
-      return matchDate && matchDesc && matchCat && matchAmount && matchSource;
+      return matchDate && matchDesc && matchCat && matchAmount && matchSource && matchTag;
     });
-  }, [transactions, filters]);
+  }, [transactions, filters, format]);
 
   const clearFilters = () => {
-    setFilters({ date: '', description: '', category: '', amount: '', source: '' });
+    setFilters({ date: '', description: '', category: '', amount: '', source: '', tag: '' });
   };
 
   const hasActiveFilters = Object.values(filters).some(Boolean);
 
+  // --- Selection ---
+  // Only visible rows count, so narrowing the filters never deletes hidden rows
+  const visibleSelection = filteredTransactions.filter(t => selectedIds.has(t.id));
+  const allVisibleSelected = filteredTransactions.length > 0 && visibleSelection.length === filteredTransactions.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredTransactions.map(t => t.id)));
+  };
+
+  const handleBulkDelete = () => {
+    if (!onDeleteTransactions || visibleSelection.length === 0) return;
+    if (!confirm(`Delete ${visibleSelection.length} transactions? You can undo this from the history.`)) return;
+    onDeleteTransactions(visibleSelection.map(t => t.id));
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkTag = (mode: 'add' | 'remove') => {
+    const tags = parseTagList(bulkTagInput);
+    if (!onBulkTag || tags.length === 0 || visibleSelection.length === 0) return;
+    const ids = visibleSelection.map(t => t.id);
+    if (mode === 'add') onBulkTag(ids, tags, []);
+    else onBulkTag(ids, [], tags);
+    setBulkTagInput('');
+  };
+
   return (
     <div className="bg-surface rounded-xl border border-slate-700 shadow-lg overflow-hidden flex flex-col">
       <div className="p-6 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
@@ -76,6 +147,35 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 {filteredTransactions.length} / {transactions.length}
             </span>
         </h3>
+        <div className="flex items-center gap-2">
+        {onDeleteTransactions && visibleSelection.length > 0 && (
+            <button 
+                onClick={handleBulkDelete}
+                className="flex items-center space-x-1 text-xs text-red-300 hover:text-white bg-red-500/10 hover:bg-red-500/80 px-3 py-1.5 rounded-lg border border-red-500/30 transition-colors"
+            >
+                <Trash2 size={14} />
+                <span>Delete {visibleSelection.length} selected</span>
+            </button>
+        )}
+        {onAddTransaction && (
+            <button 
+                onClick={onAddTransaction}
+                className="flex items-center space-x-1 text-xs text-white bg-indigo-600 hover:bg-indigo-500 px-3 py-1.5 rounded-lg transition-colors"
+            >
+                <Plus size={14} />
+                <span>Add Transaction</span>
+            </button>
+        )}
+        {onDetectTransfers && (
+            <button 
+                onClick={onDetectTransfers}
+                title="Pair money leaving one source with the same amount arriving in another"
+                className="flex items-center space-x-1 text-xs text-sky-300 hover:text-white bg-sky-500/10 hover:bg-sky-500/20 px-3 py-1.5 rounded-lg border border-sky-500/30 transition-colors"
+            >
+                <ArrowLeftRight size={14} />
+                <span>Find Transfers</span>
+            </button>
+        )}
         {hasActiveFilters && (
             <button 
                 onClick={clearFilters}
@@ -85,12 +185,57 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 <span>Clear Filters</span>
             </button>
         )}
+        </div>
       </div>
       
+      {onBulkTag && visibleSelection.length > 0 && (
+        <div className="px-6 py-3 border-b border-slate-700 bg-indigo-500/5 flex flex-wrap items-center gap-2 text-xs">
+            <Hash size={14} className="text-indigo-400" />
+            <span className="text-slate-300">{visibleSelection.length} selected:</span>
+            <input
+                type="text"
+                list="bulk-tag-options"
+                value={bulkTagInput}
+                onChange={e => setBulkTagInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleBulkTag('add')}
+                placeholder="tax-deductible, vacation-2024"
+                className="w-64 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-indigo-500"
+            />
+            <datalist id="bulk-tag-options">
+                {availableTags.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+            <button
+                onClick={() => handleBulkTag('add')}
+                disabled={!bulkTagInput.trim()}
+                className="px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white transition-colors"
+            >
+                Add tags
+            </button>
+            <button
+                onClick={() => handleBulkTag('remove')}
+                disabled={!bulkTagInput.trim()}
+                className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 transition-colors"
+            >
+                Remove tags
+            </button>
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <table className="w-full text-left text-sm text-slate-400">
           <thead className="bg-slate-900/80 text-slate-200 uppercase font-medium">
             <tr>
+              {canSelect && (
+                <th className="pl-6 py-4 w-4 align-top">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      title="Select all shown transactions"
+                      className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                    />
+                </th>
+              )}
               <th className="px-6 py-4 min-w-[140px] align-top">
                   <div className="flex flex-col space-y-2">
                       <span className="flex items-center gap-1">Date <Filter size={10} className="text-slate-500"/></span>
@@ -141,7 +286,24 @@ const TransactionList: React.FC<TransactionListProps> = ({
                             className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-indigo-500 font-normal normal-case appearance-none cursor-pointer"
                         >
                             <option value="">All Categories</option>
-                            {availableCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                            {categoryFilterOptions.map(o => <option key={o.path} value={o.path}>{o.label}</option>)}
+                        </select>
+                        <ChevronDown size={12} className="absolute right-2 top-1/2 transform -translate-y-1/2 text-slate-400 pointer-events-none" />
+                      </div>
+                  </div>
+              </th>
+              <th className="px-6 py-4 min-w-[140px] align-top">
+                  <div className="flex flex-col space-y-2">
+                      <span className="flex items-center gap-1">Tags <Filter size={10} className="text-slate-500"/></span>
+                      <div className="relative">
+                        <select
+                            value={filters.tag}
+                            onChange={e => setFilters({...filters, tag: e.target.value})}
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-indigo-500 font-normal normal-case appearance-none cursor-pointer"
+                        >
+                            <option value="">All Tags</option>
+                            <option value={UNTAGGED}>Untagged</option>
+                            {availableTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
                         </select>
                         <ChevronDown size={12} className="absolute right-2 top-1/2 transform -translate-y-1/2 text-slate-400 pointer-events-none" />
                       </div>
@@ -164,7 +326,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
           <tbody className="divide-y divide-slate-700">
             {filteredTransactions.length === 0 ? (
                 <tr>
-                    <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                    <td colSpan={canSelect ? 7 : 6} className="px-6 py-12 text-center text-slate-500">
                         {transactions.length === 0 
                             ? "No transactions available." 
                             : "No transactions match your filters."}
@@ -175,11 +337,27 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 <tr 
                     key={t.id} 
                     onClick={() => onTransactionClick && onTransactionClick(t.id)}
-                    className="hover:bg-slate-800/50 transition-colors group cursor-pointer"
+                    className={`hover:bg-slate-800/50 transition-colors group cursor-pointer ${selectedIds.has(t.id) ? 'bg-indigo-500/5' : ''}`}
                 >
-                    <td className="px-6 py-4 whitespace-nowrap text-slate-300 font-mono text-xs">{t.date}</td>
+                    {canSelect && (
+                      <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(t.id)}
+                          onChange={() => toggleSelected(t.id)}
+                          className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-slate-300 font-mono text-xs">{format.date(t.date)}</td>
                     <td className="px-6 py-4 font-medium text-white">
                         <div>{t.description}</div>
+                        {t.transfer && (
+                            <div className="text-xs text-sky-400 font-normal flex items-center gap-1 mt-0.5">
+                                <ArrowLeftRight size={10} />
+                                Transfer {t.transfer.direction === 'OUT' ? 'to' : 'from'} {transactionsById.get(t.transfer.counterpartId)?.source || 'another account'}
+                            </div>
+                        )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                          <span className="text-xs text-slate-400 bg-slate-800 px-2 py-1 rounded border border-slate-700">
@@ -187,27 +365,56 @@ const TransactionList: React.FC<TransactionListProps> = ({
                          </span>
                     </td>
                     <td className="px-6 py-4">
+                      {isSplit(t) ? (
+                        // Split parts are edited in the detail view, so the badge opens it
+                        <button
+                          title={t.splits!.map(s => `${s.category}: ${format.money(s.amount, { currency: t.currency, decimals: 2 })}`).join('\n')}
+                          className="inline-flex items-center gap-1.5 bg-purple-500/10 border border-purple-500/20 text-purple-300 text-xs font-medium rounded-md py-1.5 px-3 hover:bg-slate-800 hover:border-purple-500/50 transition-all"
+                        >
+                          <Split size={12} />
+                          Split · {t.splits!.length}
+                        </button>
+                      ) : (
                       <div className="relative inline-block w-full max-w-[200px]" onClick={(e) => e.stopPropagation()}>
                         <select
                           value={t.category}
                           onChange={(e) => onCategoryChange(t.id, e.target.value)}
-                          className="w-full appearance-none bg-indigo-500/10 border border-indigo-500/20 text-indigo-300 text-xs font-medium rounded-md py-1.5 pl-3 pr-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:bg-slate-800 cursor-pointer hover:bg-slate-800 hover:border-indigo-500/50 transition-all"
+                          style={{ color: categoryInfo(t.category).color, backgroundColor: `${categoryInfo(t.category).color}1a`, borderColor: `${categoryInfo(t.category).color}40` }}
+                          className="w-full appearance-none border text-xs font-medium rounded-md py-1.5 pl-3 pr-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:bg-slate-800 cursor-pointer hover:bg-slate-800 transition-all"
                         >
+                          {!availableCategories.includes(t.category) && (
+                            <option value={t.category} className="bg-slate-800 text-slate-200">{categoryInfo(t.category).icon} {t.category}</option>
+                          )}
                           {availableCategories.map((cat) => (
                             <option key={cat} value={cat} className="bg-slate-800 text-slate-200">
-                              {cat}
+                              {categoryInfo(cat).icon} {cat}
                             </option>
                           ))}
                         </select>
-                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-indigo-400">
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2" style={{ color: categoryInfo(t.category).color }}>
                           <ChevronDown size={12} />
                         </div>
                       </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1 max-w-[180px]">
+                            {t.tags?.map(tag => (
+                                <button
+                                    key={tag}
+                                    onClick={(e) => { e.stopPropagation(); setFilters({ ...filters, tag }); }}
+                                    className="text-[11px] bg-slate-800 text-slate-300 border border-slate-700 hover:border-indigo-500/50 rounded-full px-2 py-0.5 transition-colors"
+                                    title={`Show only #${tag}`}
+                                >
+                                    #{tag}
+                                </button>
+                            ))}
+                        </div>
                     </td>
-                    <td className={`px-6 py-4 text-right font-bold ${t.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-slate-200'}`}>
+                    <td className={`px-6 py-4 text-right font-bold ${t.type === TransactionType.INCOME ? 'text-emerald-400' : t.type === TransactionType.TRANSFER ? 'text-sky-300' : 'text-slate-200'}`}>
                     <div className="flex items-center justify-end space-x-1">
-                        {t.type === TransactionType.INCOME ? <ArrowUpRight size={14} /> : <ArrowDownLeft size={14} />}
-                        <span>${t.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        {t.type === TransactionType.TRANSFER ? <ArrowLeftRight size={14} /> : t.type === TransactionType.INCOME ? <ArrowUpRight size={14} /> : <ArrowDownLeft size={14} />}
+                        <span>{format.money(t.amount, { currency: t.currency, decimals: 2 })}</span>
                     </div>
                     </td>
                 </tr>
@@ -1,42 +1,60 @@
-import { useState, useMemo } from 'react';
-import { Session, Transaction, CategorizationRule, ImportSettings, DEFAULT_CATEGORIES, TransactionType, Category, Asset, DashboardWidget, ImportSelection, Goal } from '../types';
-
-// Helper for synchronous rule application
-export const applyRulesToTransactions = (transactions: Transaction[], rules: CategorizationRule[]): Transaction[] => {
-  if (rules.length === 0) return transactions;
-  const sortedRules = [...rules].sort((a, b) => b.keyword.length - a.keyword.length);
-  return transactions.map(t => {
-    const matchingRule = sortedRules.find(r => {
-      if (r.isRegex) {
-        try {
-          // Use safe regex matching (case-insensitive by default)
-          const regex = new RegExp(r.keyword, 'i');
-          return regex.test(t.description);
-        } catch (e) {
-          console.warn(`Invalid regex rule: ${r.keyword}`);
-          return false;
-        }
-      }
-      return t.description.toLowerCase().includes(r.keyword.toLowerCase());
-    });
-    return matchingRule ? { ...t, category: matchingRule.category } : t;
-  });
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { Session, Transaction, CategorizationRule, RuleMatchMode, CategoryDefinition, ImportSettings, ImportProfile, ExchangeRate, DEFAULT_CATEGORIES, DEFAULT_IMPORT_SETTINGS, DEFAULT_DASHBOARD_WIDGETS, TransactionType, Category, Asset, DashboardWidget, ImportSelection, Goal, MANUAL_SOURCE } from '../types';
+import { loadPersistedState, saveSessions, saveActiveSessionId, preserveUnreadableSessions } from '../services/storage';
+import { CURRENT_SCHEMA_VERSION, upgradeStoredSession, parseSessionData, formatValidationErrors } from '../utils/sessionSchema';
+import { DEFAULT_BASE_CURRENCY } from '../utils/currency';
+import { localeFromImportSettings } from '../utils/format';
+import { mapCategories } from '../utils/transactions';
+import { renameCategoryPath, syncCategoryDefinitions } from '../utils/categories';
+import { dropOrphanTransfers } from '../utils/transfers';
+import { ruleSignature } from '../utils/rules';
+
+// Coalesce bursts of edits (typing, slider drags) into a single storage write
+const SAVE_DEBOUNCE_MS = 400;
+
+// Undo history: how many snapshots to keep, and the window in which repeated edits
+// with the same label (e.g. dragging an allocation slider) collapse into one entry
+const MAX_HISTORY_ENTRIES = 50;
+const HISTORY_COALESCE_MS = 1000;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  sessions: Session[];
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown; entries after it are redo-able
+}
+
+const createHistory = (sessions: Session[], label: string): HistoryState => ({
+  entries: [{ id: 0, label, timestamp: Date.now(), sessions }],
+  index: 0
+});
+
+// Arrays count as unchanged when they hold the same items, so a pass that rebuilds a collection
+// without touching any item (e.g. re-applying rules) is recognised as a no-op
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => item === b[i]));
+
+// True when an updater returned a new session object without changing any field
+const isUnchangedSession = (before: Session, after: Session): boolean => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Session)[]);
+  return Array.from(keys).every(key => sameValue(before[key], after[key]));
 };
 
 export const useSessionData = () => {
-  const defaultSettings: ImportSettings = {
-    delimiter: ';', 
-    dateFormat: 'DD.MM.YYYY',
-    decimalSeparator: ','
-  };
+  const defaultSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS;
 
   const initialTransactions: Transaction[] = [
-    { id: '1', date: '2023-10-01', description: 'Monthly Salary', amount: 5000, type: TransactionType.INCOME, category: Category.INCOME, source: 'Manual Entry' },
-    { id: '2', date: '2023-10-02', description: 'Rent Payment', amount: 1500, type: TransactionType.EXPENSE, category: Category.HOUSING, source: 'Manual Entry' },
-    { id: '3', date: '2023-10-05', description: 'Grocery Store', amount: 150, type: TransactionType.EXPENSE, category: Category.FOOD, source: 'Manual Entry' },
-    { id: '4', date: '2023-10-06', description: 'Uber Trip', amount: 25, type: TransactionType.EXPENSE, category: Category.TRANSPORT, source: 'Manual Entry' },
-    { id: '5', date: '2023-10-08', description: 'Netflix Subscription', amount: 15, type: TransactionType.EXPENSE, category: Category.ENTERTAINMENT, source: 'Manual Entry' },
-    { id: '6', date: '2023-10-10', description: 'Electric Bill', amount: 120, type: TransactionType.EXPENSE, category: Category.UTILITIES, source: 'Manual Entry' },
+    { id: '1', date: '2023-10-01', description: 'Monthly Salary', amount: 5000, type: TransactionType.INCOME, category: Category.INCOME, source: MANUAL_SOURCE },
+    { id: '2', date: '2023-10-02', description: 'Rent Payment', amount: 1500, type: TransactionType.EXPENSE, category: Category.HOUSING, source: MANUAL_SOURCE },
+    { id: '3', date: '2023-10-05', description: 'Grocery Store', amount: 150, type: TransactionType.EXPENSE, category: Category.FOOD, source: MANUAL_SOURCE },
+    { id: '4', date: '2023-10-06', description: 'Uber Trip', amount: 25, type: TransactionType.EXPENSE, category: Category.TRANSPORT, source: MANUAL_SOURCE },
+    { id: '5', date: '2023-10-08', description: 'Netflix Subscription', amount: 15, type: TransactionType.EXPENSE, category: Category.ENTERTAINMENT, source: MANUAL_SOURCE },
+    { id: '6', date: '2023-10-10', description: 'Electric Bill', amount: 120, type: TransactionType.EXPENSE, category: Category.UTILITIES, source: MANUAL_SOURCE },
   ];
 
   const initialAssets: Asset[] = [
@@ -50,118 +68,265 @@ export const useSessionData = () => {
     { id: 'g2', type: 'GOAL', title: 'New Laptop', targetAmount: 1500, allocatedAmount: 1500, targetDate: '2024-02-01', priority: 5, icon: '💻' }
   ];
 
-  const defaultWidgets: DashboardWidget[] = [
-    { id: 'w-networth', type: 'net-worth', title: 'Net Worth Trend', visible: true, width: 'full' },
-    { id: 'w-assets', type: 'assets', title: 'Assets', visible: true, width: 'half' },
-    { id: 'w-cashflow', type: 'cash-flow', title: 'Cash Flow', visible: true, width: 'half' },
-    { id: 'w-spending', type: 'spending', title: 'Spending Categories', visible: true, width: 'half' },
-    { id: 'w-sankey', type: 'sankey', title: 'Income to Expense Flow', visible: true, width: 'full' },
-  ];
+  const defaultWidgets: DashboardWidget[] = DEFAULT_DASHBOARD_WIDGETS;
 
-  const [sessions, setSessions] = useState<Session[]>([
+  // Sessions are snapshots inside the undo history; every mutation appends a new entry
+  const [history, setHistory] = useState<HistoryState>(() => createHistory([
     {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: 'default-session',
       name: 'Personal Finance',
       transactions: initialTransactions,
-      categories: [...DEFAULT_CATEGORIES],
+      categories: DEFAULT_CATEGORIES.map(c => ({ ...c })),
       rules: [],
+      ruleMatchMode: 'first',
       assets: initialAssets,
       goals: initialGoals,
       sources: ['Manual Entry'],
       dashboardWidgets: defaultWidgets,
+      importProfiles: [],
       createdAt: Date.now(),
-      importSettings: defaultSettings
+      importSettings: defaultSettings,
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      exchangeRates: [],
+      displayLocale: localeFromImportSettings(defaultSettings)
     }
-  ]);
+  ], 'Opened demo session'));
+  const sessions = history.entries[history.index].sessions;
   const [activeSessionId, setActiveSessionId] = useState<string>('default-session');
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Latest state for the unload flush, which runs outside React's render cycle
+  const latestSessionsRef = useRef(sessions);
+  const hasPendingSaveRef = useRef(false);
 
   const activeSession = useMemo(() => {
     return sessions.find(s => s.id === activeSessionId) || sessions[0];
   }, [sessions, activeSessionId]);
 
+  // --- Persistence ---
+
+  // Hydrate from storage once. The demo data above is only kept on a first visit.
+  useEffect(() => {
+    let cancelled = false;
+    loadPersistedState()
+      .then(state => {
+        if (cancelled) return;
+        if (!state || state.sessions.length === 0) {
+          setIsLoaded(true);
+          return;
+        }
+        // Stored records may predate the current schema. They are our own data, so keep them even
+        // if validation complains, but surface the problems in the console.
+        // A record that cannot be migrated at all stays in storage untouched instead of being dropped.
+        const upgraded: Session[] = [];
+        const failed: unknown[] = [];
+        state.sessions.forEach(stored => {
+          try {
+            const { session, issues } = upgradeStoredSession(stored);
+            if (issues.length > 0) console.warn(`Stored session "${session.name}" has schema issues:\n${formatValidationErrors(issues)}`);
+            upgraded.push(session);
+          } catch (err) {
+            console.error('Failed to load a saved session', err);
+            failed.push(stored);
+          }
+        });
+        if (failed.length > 0) {
+          preserveUnreadableSessions(failed);
+          alert(`${failed.length} saved session(s) could not be loaded and were left in storage unchanged. They may have been saved by a newer version of the app.`);
+        }
+        if (upgraded.length > 0) {
+          setHistory(createHistory(upgraded, 'Loaded saved sessions'));
+          const storedId = state.activeSessionId;
+          setActiveSessionId(storedId && upgraded.some(s => s.id === storedId) ? storedId : upgraded[0].id);
+        }
+        setIsLoaded(true);
+      })
+      .catch(err => {
+        // Saving is left disabled: a first save now would delete the stored sessions we could not show
+        console.error('Failed to load saved sessions', err);
+        if (!cancelled) alert('Saved sessions could not be loaded. Changes made in this tab will not be saved, so the stored data stays intact.');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    latestSessionsRef.current = sessions;
+    // Never write before hydration, otherwise the demo data would overwrite stored sessions
+    if (!isLoaded) return;
+    hasPendingSaveRef.current = true;
+    const handle = setTimeout(() => {
+      hasPendingSaveRef.current = false;
+      saveSessions(sessions).catch(err => console.error('Failed to save sessions', err));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(handle);
+  }, [sessions, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveActiveSessionId(activeSessionId).catch(err => console.error('Failed to save active session', err));
+  }, [activeSessionId, isLoaded]);
+
+  // Flush a pending debounced save when the tab is closed or hidden
+  useEffect(() => {
+    const flush = () => {
+      if (!hasPendingSaveRef.current) return;
+      hasPendingSaveRef.current = false;
+      saveSessions(latestSessionsRef.current).catch(err => console.error('Failed to save sessions', err));
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  // Keep the selection valid when undo/redo removes the session that was open
+  useEffect(() => {
+    if (!sessions.some(s => s.id === activeSessionId)) setActiveSessionId(sessions[0].id);
+  }, [sessions, activeSessionId]);
+
+  // --- Undo / Redo ---
+
+  // Single entry point for every session mutation. Records a labelled snapshot for undo;
+  // persistence picks up the resulting state above.
+  const commitSessions = (label: string, updater: (prev: Session[]) => Session[]) => {
+    setHistory(prev => {
+      const current = prev.entries[prev.index].sessions;
+      const next = updater(current);
+      if (next === current) return prev;
+
+      const now = Date.now();
+      const last = prev.entries[prev.index];
+      const kept = prev.entries.slice(0, prev.index + 1);
+      // Repeated edits of the same kind in quick succession replace the previous snapshot
+      if (prev.index > 0 && last.label === label && now - last.timestamp < HISTORY_COALESCE_MS) {
+        kept[kept.length - 1] = { ...last, timestamp: now, sessions: next };
+        return { entries: kept, index: kept.length - 1 };
+      }
+
+      const entries = [...kept, { id: prev.entries[prev.entries.length - 1].id + 1, label, timestamp: now, sessions: next }]
+        .slice(-MAX_HISTORY_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    });
+  };
+
+  const updateActiveSession = (label: string, updater: (session: Session) => Session) => {
+    const targetId = activeSession.id;
+    commitSessions(label, prev => {
+      let changed = false;
+      const next = prev.map(s => {
+        if (s.id !== targetId) return s;
+        const updated = updater(s);
+        if (isUnchangedSession(s, updated)) return s;
+        changed = true;
+        return updated;
+      });
+      return changed ? next : prev;
+    });
+  };
+
+  const undo = () => {
+    setHistory(prev => prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev);
+  };
+
+  const redo = () => {
+    setHistory(prev => prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev);
+  };
+
+  // Jump to any recorded state; later entries stay available for redo until the next edit
+  const jumpToHistory = (entryId: number) => {
+    setHistory(prev => {
+      const index = prev.entries.findIndex(e => e.id === entryId);
+      return index === -1 ? prev : { ...prev, index };
+    });
+  };
+
   const addSession = (name: string) => {
     const newSession: Session = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: `session-${Date.now()}`,
       name,
       transactions: [],
-      categories: [...DEFAULT_CATEGORIES],
+      categories: DEFAULT_CATEGORIES.map(c => ({ ...c })),
       rules: [],
+      ruleMatchMode: 'first',
       assets: [],
       goals: [],
       sources: [],
       dashboardWidgets: [...defaultWidgets],
+      importProfiles: [],
       createdAt: Date.now(),
-      importSettings: { ...defaultSettings }
+      importSettings: { ...defaultSettings },
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      exchangeRates: [],
+      displayLocale: localeFromImportSettings(defaultSettings)
     };
-    setSessions(prev => [...prev, newSession]);
+    commitSessions(`Created session "${name}"`, prev => [...prev, newSession]);
     setActiveSessionId(newSession.id);
   };
 
   const removeSession = (sessionId: string) => {
     if (sessions.length <= 1) return;
+    const removed = sessions.find(s => s.id === sessionId);
     const newSessions = sessions.filter(s => s.id !== sessionId);
-    setSessions(newSessions);
+    commitSessions(`Deleted session "${removed?.name ?? sessionId}"`, prev => prev.filter(s => s.id !== sessionId));
     if (activeSessionId === sessionId) {
       setActiveSessionId(newSessions[0].id);
     }
   };
 
-  const importSession = (sessionData: any) => {
+  const importSession = (sessionData: unknown) => {
+    const parsed = parseSessionData(sessionData);
+    if (!parsed.session) {
+      throw new Error(`Invalid session backup:\n${formatValidationErrors(parsed.errors)}`);
+    }
     const newSession: Session = {
-        ...sessionData,
+        ...parsed.session,
         id: `session-${Date.now()}`,
-        name: sessionData.name ? `${sessionData.name} (Imported)` : 'Imported Session',
-        // Ensure widgets exist if importing older version
-        dashboardWidgets: sessionData.dashboardWidgets || [...defaultWidgets],
-        // Ensure goals exist if importing older version
-        goals: sessionData.goals || [],
-        // Ensure sources exist
-        sources: sessionData.sources || ['Imported'],
+        name: `${parsed.session.name} (Imported)`,
         createdAt: Date.now()
     };
-    setSessions(prev => [...prev, newSession]);
+    commitSessions(`Imported session "${newSession.name}"`, prev => [...prev, newSession]);
     setActiveSessionId(newSession.id);
   };
 
+  // incomingData must come from parseSessionData, so every collection is present and well-formed
   const mergeSession = (incomingData: Session, selection: ImportSelection) => {
-    setSessions(prev => prev.map(s => {
-      if (s.id !== activeSessionId) return s;
-
+    updateActiveSession(`Merged backup "${incomingData.name}"`, s => {
       const merged = { ...s };
+      // Amounts without a code are in the backup's base currency, which may differ from ours
+      const inIncomingCurrency = <T extends { currency?: string }>(item: T): T =>
+        item.currency || incomingData.baseCurrency === s.baseCurrency ? item : { ...item, currency: incomingData.baseCurrency };
 
       if (selection.categories) {
-        const currentCats = s.categories || [];
-        const incomingCats = incomingData.categories || [];
-        const newCats = new Set([...currentCats, ...incomingCats]);
-        merged.categories = Array.from(newCats);
+        // Categories we already have keep our color and flags
+        const existingNames = new Set(s.categories.map(c => c.name));
+        merged.categories = [...s.categories, ...incomingData.categories.filter(c => !existingNames.has(c.name))];
       }
 
       if (selection.rules) {
-        const currentRules = s.rules || [];
-        const existingKeywords = new Set(currentRules.map(r => r.keyword.toLowerCase()));
-        const incomingRules = incomingData.rules || [];
-        const rulesToAdd = incomingRules.filter(r => !existingKeywords.has(r.keyword.toLowerCase()));
-        merged.rules = [...currentRules, ...rulesToAdd];
+        // Rules with the same conditions as one of ours are skipped, whatever category they set
+        const existingSignatures = new Set(s.rules.map(ruleSignature));
+        const rulesToAdd = incomingData.rules.filter(r => !existingSignatures.has(ruleSignature(r)));
+        merged.rules = [...s.rules, ...rulesToAdd];
       }
 
       if (selection.transactions) {
-        const currentTx = s.transactions || [];
-        const existingIds = new Set(currentTx.map(t => t.id));
-        const incomingTx = incomingData.transactions || [];
-        const txToAdd = incomingTx.filter(t => !existingIds.has(t.id));
-        merged.transactions = [...currentTx, ...txToAdd];
+        const existingIds = new Set(s.transactions.map(t => t.id));
+        const txToAdd = incomingData.transactions.filter(t => !existingIds.has(t.id)).map(inIncomingCurrency);
+        merged.transactions = dropOrphanTransfers([...s.transactions, ...txToAdd]);
+        // Keep the source list in sync with the transactions that came along
+        const newSources = Array.from(new Set(txToAdd.map(t => t.source).filter((src): src is string => !!src)));
+        merged.sources = Array.from(new Set([...s.sources, ...newSources]));
       }
 
       if (selection.assets) {
-         const incomingAssets = incomingData.assets || [];
-         const newAssets = incomingAssets.map(a => ({ ...a, id: `imported-asset-${Date.now()}-${Math.random()}` }));
+         const newAssets = incomingData.assets.map(a => inIncomingCurrency({ ...a, id: `imported-asset-${Date.now()}-${Math.random()}` }));
          merged.assets = [...(s.assets || []), ...newAssets];
       }
 
       if (selection.dashboard) {
-         const existingWidgets = s.dashboardWidgets || [];
-         const incomingWidgets = incomingData.dashboardWidgets || [];
-         const standardTypes = ['net-worth', 'assets', 'cash-flow', 'spending', 'sankey'];
+         const existingWidgets = s.dashboardWidgets;
+         const incomingWidgets = incomingData.dashboardWidgets;
+         const standardTypes = ['net-worth', 'assets', 'cash-flow', 'spending', 'sankey', 'tags'];
          const updatedWidgets = existingWidgets.map(w => {
             const match = incomingWidgets.find(iw => iw.type === w.type);
             if (match && standardTypes.includes(w.type)) {
@@ -176,66 +341,107 @@ export const useSessionData = () => {
       }
 
       if (selection.goals) {
-         const incomingGoals = incomingData.goals || [];
-         const newGoals = incomingGoals.map(g => ({ ...g, id: `imported-goal-${Date.now()}-${Math.random()}` }));
+         const newGoals = incomingData.goals.map(g => inIncomingCurrency({ ...g, id: `imported-goal-${Date.now()}-${Math.random()}` }));
          merged.goals = [...(s.goals || []), ...newGoals];
       }
 
       return merged;
-    }));
+    });
   };
 
-  const updateTransactions = (updater: (currentTransactions: Transaction[]) => Transaction[]) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, transactions: updater(s.transactions) } : s));
+  const updateTransactions = (updater: (currentTransactions: Transaction[]) => Transaction[], label = 'Edited transactions') => {
+    updateActiveSession(label, s => {
+      const transactions = updater(s.transactions);
+      // Hand-entered transactions may name a source that no import created yet
+      const newSources = Array.from(new Set(transactions.map(t => t.source).filter((src): src is string => !!src && !s.sources.includes(src))));
+      return { ...s, transactions, sources: newSources.length > 0 ? [...s.sources, ...newSources] : s.sources };
+    });
   };
 
-  const updateSettings = (newSettings: Partial<ImportSettings>) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, importSettings: { ...s.importSettings, ...newSettings } } : s));
+  const updateSettings = (newSettings: Partial<ImportSettings>, label = 'Changed import settings') => {
+    updateActiveSession(label, s => ({ ...s, importSettings: { ...s.importSettings, ...newSettings } }));
   };
 
-  const updateCategories = (newCategories: string[], renamedFrom?: string, renamedTo?: string) => {
-    setSessions(prev => prev.map(s => {
-      if (s.id === activeSessionId) {
-        let updatedTransactions = s.transactions;
-        if (renamedFrom && renamedTo) {
-          updatedTransactions = s.transactions.map(t => t.category === renamedFrom ? { ...t, category: renamedTo } : t);
-        }
-        return { ...s, categories: newCategories, transactions: updatedTransactions };
-      }
-      return s;
-    }));
+  const updateCategories = (newCategories: string[], renamedFrom?: string, renamedTo?: string, label?: string) => {
+    const defaultLabel = renamedFrom && renamedTo ? `Renamed category "${renamedFrom}" to "${renamedTo}"` : 'Edited categories';
+    updateActiveSession(label || defaultLabel, s => {
+      if (!renamedFrom || !renamedTo) return { ...s, categories: syncCategoryDefinitions(s.categories, newCategories) };
+      // Renaming a parent moves its children along (Utilities.Water -> Home.Utilities.Water)
+      const rename = (c: string) => renameCategoryPath(c, renamedFrom, renamedTo);
+      return {
+        ...s,
+        categories: syncCategoryDefinitions(s.categories, newCategories, rename),
+        transactions: s.transactions.map(t => mapCategories(t, rename)),
+        rules: s.rules.map(r => rename(r.category) === r.category ? r : { ...r, category: rename(r.category) })
+      };
+    });
+  };
+
+  const updateCategoryDefinition = (name: string, changes: Partial<Omit<CategoryDefinition, 'name'>>, label = `Edited category "${name}"`) => {
+    updateActiveSession(label, s => ({ ...s, categories: s.categories.map(c => c.name === name ? { ...c, ...changes } : c) }));
   };
 
-  const updateRules = (updater: (rules: CategorizationRule[]) => CategorizationRule[]) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, rules: updater(s.rules) } : s));
+  const updateRules = (updater: (rules: CategorizationRule[]) => CategorizationRule[], label = 'Edited rules') => {
+    updateActiveSession(label, s => ({ ...s, rules: updater(s.rules) }));
   };
 
-  const updateAssets = (updater: (assets: Asset[]) => Asset[]) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, assets: updater(s.assets || []) } : s));
+  const updateAssets = (updater: (assets: Asset[]) => Asset[], label = 'Edited assets') => {
+    updateActiveSession(label, s => ({ ...s, assets: updater(s.assets || []) }));
   };
   
-  const updateGoals = (updater: (goals: Goal[]) => Goal[]) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, goals: updater(s.goals || []) } : s));
+  const updateGoals = (updater: (goals: Goal[]) => Goal[], label = 'Edited goals') => {
+    updateActiveSession(label, s => ({ ...s, goals: updater(s.goals || []) }));
+  };
+
+  const updateDashboardWidgets = (updater: (widgets: DashboardWidget[]) => DashboardWidget[], label = 'Edited dashboard') => {
+    updateActiveSession(label, s => ({ ...s, dashboardWidgets: updater(s.dashboardWidgets || []) }));
+  };
+
+  const updateImportProfiles = (updater: (profiles: ImportProfile[]) => ImportProfile[], label = 'Edited import profiles') => {
+    updateActiveSession(label, s => ({ ...s, importProfiles: updater(s.importProfiles) }));
   };
 
-  const updateDashboardWidgets = (updater: (widgets: DashboardWidget[]) => DashboardWidget[]) => {
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, dashboardWidgets: updater(s.dashboardWidgets || []) } : s));
+  const updateExchangeRates = (updater: (rates: ExchangeRate[]) => ExchangeRate[], label = 'Edited exchange rates') => {
+    updateActiveSession(label, s => ({ ...s, exchangeRates: updater(s.exchangeRates) }));
   };
 
-  const updateSessionRaw = (updater: (session: Session) => Session) => {
-     setSessions(prev => prev.map(s => s.id === activeSessionId ? updater(s) : s));
+  // Amounts without a code were in the old base currency, so they keep it explicitly
+  const setBaseCurrency = (currency: string) => {
+    updateActiveSession(`Changed base currency to ${currency}`, s => {
+      if (s.baseCurrency === currency) return s;
+      const stamp = <T extends { currency?: string }>(item: T): T => item.currency ? item : { ...item, currency: s.baseCurrency };
+      return {
+        ...s,
+        baseCurrency: currency,
+        transactions: s.transactions.map(stamp),
+        assets: s.assets.map(stamp),
+        goals: s.goals.map(stamp)
+      };
+    });
+  };
+
+  const setDisplayLocale = (locale: string) => {
+    updateActiveSession(`Changed display locale to ${locale}`, s => ({ ...s, displayLocale: locale }));
+  };
+
+  const setRuleMatchMode = (mode: RuleMatchMode) => {
+    updateActiveSession(mode === 'first' ? 'Rules: first match only' : 'Rules: apply all matches', s => ({ ...s, ruleMatchMode: mode }));
+  };
+
+  const updateSessionRaw = (updater: (session: Session) => Session, label = 'Edited session') => {
+    updateActiveSession(label, updater);
   };
   
   // Specific Source Management
   const deleteSource = (sourceName: string) => {
-    setSessions(prev => prev.map(s => {
-        if (s.id !== activeSessionId) return s;
+    const count = activeSession.transactions.filter(t => t.source === sourceName).length;
+    updateActiveSession(`Deleted source "${sourceName}" (${count} transactions)`, s => {
         // Remove source from list
         const newSources = s.sources.filter(src => src !== sourceName);
-        // Remove transactions linked to this source
-        const newTransactions = s.transactions.filter(t => t.source !== sourceName);
+        // Remove transactions linked to this source; transfers into other sources lose their counterpart
+        const newTransactions = dropOrphanTransfers(s.transactions.filter(t => t.source !== sourceName));
         return { ...s, sources: newSources, transactions: newTransactions };
-    }));
+    });
   };
 
   return {
@@ -243,6 +449,7 @@ export const useSessionData = () => {
     activeSession,
     activeSessionId,
     setActiveSessionId,
+    isLoaded,
     addSession,
     removeSession,
     importSession,
@@ -250,11 +457,26 @@ export const useSessionData = () => {
     updateTransactions,
     updateSettings,
     updateCategories,
+    updateCategoryDefinition,
     updateRules,
+    setRuleMatchMode,
     updateAssets,
     updateGoals,
     updateDashboardWidgets,
+    updateImportProfiles,
+    updateExchangeRates,
+    setBaseCurrency,
+    setDisplayLocale,
     updateSessionRaw,
-    deleteSource
+    deleteSource,
+    history: {
+      entries: history.entries.map(({ id, label, timestamp }) => ({ id, label, timestamp })),
+      index: history.index,
+      canUndo: history.index > 0,
+      canRedo: history.index < history.entries.length - 1
+    },
+    undo,
+    redo,
+    jumpToHistory
   };
 };
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Transaction, CategorizationRule } from "../types";
+import { Transaction, CategorizationRule, CategoryDefinition } from "../types";
+import { createDescriptionRule } from "../utils/rules";
 
 // Initialize Gemini Client
 // CRITICAL: API KEY MUST BE FROM process.env.API_KEY
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// One line per category with its flags, so prompts can tell fixed costs from discretionary spending
+const describeCategories = (categories: CategoryDefinition[]): string =>
+  categories.map(c => `- ${c.name}: ${c.essential ? 'essential' : 'discretionary'}, ${c.fixed ? 'fixed' : 'variable'}`).join('\n');
+
 /**
  * Auto-categorizes a list of transactions using Gemini Flash for speed.
  */
@@ -101,11 +106,7 @@ export const generateRulesFromHistory = async (
     });
 
     const rawRules = JSON.parse(response.text || "[]");
-    return rawRules.map((r: any) => ({
-        id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        keyword: r.keyword.toLowerCase(),
-        category: r.category
-    }));
+    return rawRules.map((r: any) => createDescriptionRule(r.keyword.toLowerCase(), r.category));
 
   } catch (error) {
     console.error("Error generating rules:", error);
@@ -115,9 +116,11 @@ export const generateRulesFromHistory = async (
 
 /**
  * Predicts recurring income and fixed expenses for the current month.
+ * Categories flagged as fixed are treated as the recurring costs instead of guessing them from descriptions.
  */
 export const predictRecurringExpenses = async (
-  transactions: Transaction[]
+  transactions: Transaction[],
+  categories: CategoryDefinition[] = []
 ): Promise<{ 
     total: number; 
     expectedIncome: number;
@@ -132,15 +135,23 @@ export const predictRecurringExpenses = async (
   
   const recentTx = transactions.filter(t => new Date(t.date) >= threeMonthsAgo);
 
+  const hasFlags = categories.length > 0;
   const prompt = `
     Analyze these recent transactions to predict the financial baseline for the CURRENT month.
     
-    1. Identify recurring FIXED expenses (Rent, Internet, Insurance, Subscriptions).
-    2. Estimate essential variable costs (Groceries, Fuel) based on monthly averages.
+    1. Identify recurring FIXED expenses${hasFlags
+      ? ': transactions in categories flagged "fixed" below. Rely on the flag instead of guessing from descriptions; only leave out items that clearly happened once.'
+      : ' (Rent, Internet, Insurance, Subscriptions).'}
+    2. Estimate essential variable costs${hasFlags
+      ? ' from categories flagged "essential" and "variable" below, based on monthly averages. Leave out discretionary categories.'
+      : ' (Groceries, Fuel) based on monthly averages.'}
     3. Identify recurring INCOME (Salary, Dividends, Regular Transfers).
     
     Do NOT include one-off items.
-    
+    ${hasFlags ? `
+    Category flags (essential vs discretionary, fixed vs variable):
+    ${describeCategories(categories)}
+    ` : ''}    
     Return JSON:
     {
       "breakdown": [
@@ -151,8 +162,8 @@ export const predictRecurringExpenses = async (
       "totalIncome": 5000
     }
 
-    Data (d=date, desc=description, amt=amount, t=type):
-    ${JSON.stringify(recentTx.map(t => ({ d: t.date, desc: t.description, amt: t.amount, t: t.type })))}
+    Data (d=date, desc=description, amt=amount, t=type, c=category):
+    ${JSON.stringify(recentTx.map(t => ({ d: t.date, desc: t.description, amt: t.amount, t: t.type, c: t.category })))}
   `;
 
   try {
@@ -181,7 +192,8 @@ export const predictRecurringExpenses = async (
  */
 export const analyzeFinancesDeeply = async (
   transactions: Transaction[],
-  userQuery: string
+  userQuery: string,
+  categories: CategoryDefinition[] = []
 ): Promise<{ text: string }> => {
   if (transactions.length === 0) return { text: "No transaction data available for analysis." };
 
@@ -207,7 +219,10 @@ export const analyzeFinancesDeeply = async (
     
     Data:
     ${transactionSummary}
-    
+    ${categories.length > 0 ? `
+    Category flags (use them when discussing fixed costs or where to cut back; discretionary variable spending is the easiest to reduce):
+    ${describeCategories(categories)}
+    ` : ''}
     Provide a comprehensive, reasoned answer. 
     IMPORTANT: Only use the provided data. If the user asks about a time period outside the 'Data Time Range', explain that you do not have that data.
     Identify patterns, anomalies, and actionable advice.
@@ -236,7 +251,8 @@ export const analyzeFinancesDeeply = async (
 export const chatWithFinanceAssistant = async (
   history: { role: 'user' | 'model'; content: string }[],
   currentMessage: string,
-  transactions: Transaction[]
+  transactions: Transaction[],
+  categories: CategoryDefinition[] = []
 ): Promise<{ text: string, groundingChunks?: any[] }> => {
     
   // Data Grounding
@@ -251,7 +267,9 @@ export const chatWithFinanceAssistant = async (
       desc: t.description,
       amt: t.amount,
       cat: t.category,
-      type: t.type
+      type: t.type,
+      ...(t.tags?.length ? { tags: t.tags } : {}),
+      ...(t.notes ? { notes: t.notes } : {})
   })));
 
   const systemInstruction = `
@@ -267,7 +285,11 @@ export const chatWithFinanceAssistant = async (
     2. If the user asks about general financial concepts (e.g., "current inflation rate", "what is an ETF"), market data, or facts not in the database, use Google Search to provide up-to-date information.
     3. If the user asks about a month or year NOT in the "Date Range Available", explicitly state that you have no personal data for that period, but you can provide general advice or search for trends if asked.
     4. Keep answers concise unless asked for detail.
+    5. Use the category flags below for questions about fixed costs, essentials or where to save.
     
+    CATEGORY FLAGS:
+    ${describeCategories(categories) || 'None defined.'}
+
     TRANSACTION DATA (JSON):
     ${dataStr}
   `;
@@ -301,14 +323,16 @@ export const chatWithFinanceAssistant = async (
  */
 export const generateDynamicChart = async (
     transactions: Transaction[],
-    userQuery: string
+    userQuery: string,
+    categories: CategoryDefinition[] = []
   ): Promise<any> => {
     // Compress data for the prompt
     const dataStr = JSON.stringify(transactions.map(t => ({
         d: t.date,
         a: t.amount,
         c: t.category,
-        t: t.type
+        t: t.type,
+        ...(t.tags?.length ? { g: t.tags } : {})
     })));
   
     const prompt = `
@@ -316,14 +340,18 @@ export const generateDynamicChart = async (
       
       User Query: "${userQuery}"
       
-      Raw Data (d=date, a=amount, c=category, t=type):
+      Raw Data (d=date, a=amount, c=category, t=type, g=tags; a transaction counts once for each of its tags):
       ${dataStr}
   
       INSTRUCTIONS:
       1. Process the Raw Data to answer the User Query (e.g., aggregate by month, filter by category, sum up totals).
       2. Determine the best chart type: 'bar', 'line', 'area', or 'pie'.
       3. Create a JSON object compatible with Recharts.
-      4. Colors: Use hex codes like #6366f1 (indigo), #10b981 (emerald), #f59e0b (amber), #ef4444 (red), #ec4899 (pink).
+      4. Colors: When a series or pie slice stands for one category, use that category's color from the list below; for pie charts put it on the data item as "color". Otherwise use hex codes like #6366f1 (indigo), #10b981 (emerald), #f59e0b (amber), #ef4444 (red), #ec4899 (pink).
+      5. Queries about fixed vs variable or essential vs discretionary spending use the category flags below.
+
+      Categories (name: color, flags):
+      ${categories.map(c => `- ${c.name}: ${c.color}, ${c.essential ? 'essential' : 'discretionary'}, ${c.fixed ? 'fixed' : 'variable'}`).join('\n      ') || 'None defined.'}
       
       OUTPUT SCHEMA (JSON):
       {
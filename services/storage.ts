@@ -0,0 +1,172 @@
+import { Session } from '../types';
+
+// IndexedDB layout: one record per session, plus a small key/value store for app metadata.
+const DB_NAME = 'finsight-ai';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const META_STORE = 'meta';
+const ACTIVE_SESSION_KEY = 'activeSessionId';
+
+// localStorage keys used when IndexedDB is unavailable (private mode, old browsers, quota errors)
+const LS_SESSIONS_KEY = 'finsight.sessions';
+const LS_ACTIVE_SESSION_KEY = 'finsight.activeSessionId';
+
+export interface PersistedState {
+  sessions: Session[];
+  activeSessionId: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let useLocalStorageFallback = false;
+
+// Sessions written in the last successful save, keyed by id. Lets us skip rewriting untouched sessions.
+const lastSaved = new Map<string, Session>();
+
+// Stored records this build could not read (e.g. written by a newer version). Saves leave them in place.
+const unreadable = new Map<string, unknown>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// --- localStorage fallback ---
+
+const loadFromLocalStorage = (): PersistedState | null => {
+  try {
+    const raw = localStorage.getItem(LS_SESSIONS_KEY);
+    if (!raw) return null;
+    const sessions = JSON.parse(raw);
+    if (!Array.isArray(sessions)) return null;
+    return { sessions, activeSessionId: localStorage.getItem(LS_ACTIVE_SESSION_KEY) };
+  } catch (e) {
+    console.warn('Could not read sessions from localStorage', e);
+    return null;
+  }
+};
+
+const saveToLocalStorage = (sessions: Session[]) => {
+  localStorage.setItem(LS_SESSIONS_KEY, JSON.stringify([...sessions, ...unreadable.values()]));
+};
+
+/**
+ * Loads all stored sessions and the last active session id.
+ * Returns null when nothing has been persisted yet (first visit).
+ */
+export const loadPersistedState = async (): Promise<PersistedState | null> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSION_STORE, META_STORE], 'readonly');
+    const [sessions, activeSessionId] = await Promise.all([
+      requestToPromise(tx.objectStore(SESSION_STORE).getAll() as IDBRequest<Session[]>),
+      requestToPromise(tx.objectStore(META_STORE).get(ACTIVE_SESSION_KEY) as IDBRequest<string | undefined>)
+    ]);
+
+    if (sessions.length > 0) {
+      sessions.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+      sessions.forEach(s => lastSaved.set(s.id, s));
+      return { sessions, activeSessionId: activeSessionId ?? null };
+    }
+    // IndexedDB is empty - data may have been written by the fallback on an earlier visit
+    return loadFromLocalStorage();
+  } catch (e) {
+    console.warn('IndexedDB unavailable, falling back to localStorage', e);
+    useLocalStorageFallback = true;
+    return loadFromLocalStorage();
+  }
+};
+
+/**
+ * Keeps stored records that could not be loaded out of every later save, so they are neither
+ * deleted nor overwritten. Records without an id are kept under their position in storage.
+ */
+export const preserveUnreadableSessions = (records: unknown[]) => {
+  records.forEach((record, i) => {
+    const id = typeof record === 'object' && record !== null && typeof (record as { id?: unknown }).id === 'string'
+      ? (record as { id: string }).id
+      : `unreadable-${i}`;
+    lastSaved.delete(id);
+    unreadable.set(id, record);
+  });
+};
+
+/**
+ * Persists the full session list. Sessions removed from the list are deleted from storage.
+ */
+export const saveSessions = async (sessions: Session[]): Promise<void> => {
+  if (!useLocalStorageFallback) {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(SESSION_STORE, 'readwrite');
+      const store = tx.objectStore(SESSION_STORE);
+      const currentIds = new Set(sessions.map(s => s.id));
+
+      Array.from(lastSaved.keys())
+        .filter(id => !currentIds.has(id) && !unreadable.has(id))
+        .forEach(id => store.delete(id));
+      sessions
+        .filter(s => lastSaved.get(s.id) !== s && !unreadable.has(s.id))
+        .forEach(s => store.put(s));
+
+      await transactionDone(tx);
+      lastSaved.clear();
+      sessions.forEach(s => lastSaved.set(s.id, s));
+      return;
+    } catch (e) {
+      console.warn('Saving to IndexedDB failed, falling back to localStorage', e);
+      useLocalStorageFallback = true;
+    }
+  }
+  saveToLocalStorage(sessions);
+};
+
+/**
+ * Remembers which session was open so it can be restored on the next visit.
+ */
+export const saveActiveSessionId = async (sessionId: string): Promise<void> => {
+  if (!useLocalStorageFallback) {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(sessionId, ACTIVE_SESSION_KEY);
+      await transactionDone(tx);
+      return;
+    } catch (e) {
+      console.warn('Saving active session to IndexedDB failed, falling back to localStorage', e);
+      useLocalStorageFallback = true;
+    }
+  }
+  localStorage.setItem(LS_ACTIVE_SESSION_KEY, sessionId);
+};
@@ -1,6 +1,7 @@
 export enum TransactionType {
   INCOME = 'INCOME',
   EXPENSE = 'EXPENSE',
+  TRANSFER = 'TRANSFER', // Money moved between own accounts; always paired, see `transfer`
 }
 
 export enum Category {
@@ -17,18 +18,29 @@ export enum Category {
   OTHER = 'Other',
 }
 
-export const DEFAULT_CATEGORIES = [
-  'Food & Dining',
-  'Transportation',
-  'Utilities',
-  'Housing',
-  'Entertainment',
-  'Shopping',
-  'Health & Fitness',
-  'Income',
-  'Banking & Loans',
-  'Uncategorized',
-  'Other',
+// Source name for transactions entered by hand
+export const MANUAL_SOURCE = 'Manual Entry';
+
+export interface CategoryDefinition {
+  name: string; // Dot path, e.g. "Utilities.Water"; see utils/categories.ts
+  color: string; // Hex color used for the category in every chart
+  icon: string; // Emoji
+  essential: boolean; // Needed to live (rent, groceries) rather than discretionary
+  fixed: boolean; // Roughly the same amount every month (rent, subscriptions) rather than variable
+}
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { name: 'Food & Dining', color: '#f59e0b', icon: '🍽️', essential: true, fixed: false },
+  { name: 'Transportation', color: '#06b6d4', icon: '🚗', essential: true, fixed: false },
+  { name: 'Utilities', color: '#84cc16', icon: '💡', essential: true, fixed: true },
+  { name: 'Housing', color: '#6366f1', icon: '🏠', essential: true, fixed: true },
+  { name: 'Entertainment', color: '#ec4899', icon: '🎬', essential: false, fixed: false },
+  { name: 'Shopping', color: '#8b5cf6', icon: '🛍️', essential: false, fixed: false },
+  { name: 'Health & Fitness', color: '#10b981', icon: '💪', essential: true, fixed: false },
+  { name: 'Income', color: '#22c55e', icon: '💰', essential: false, fixed: false },
+  { name: 'Banking & Loans', color: '#ef4444', icon: '🏦', essential: true, fixed: true },
+  { name: 'Uncategorized', color: '#64748b', icon: '❔', essential: false, fixed: false },
+  { name: 'Other', color: '#94a3b8', icon: '📦', essential: false, fixed: false },
 ];
 
 export interface Transaction {
@@ -39,15 +51,52 @@ export interface Transaction {
   type: TransactionType;
   category: string; // String to allow AI flexibility, but roughly maps to Category enum
   source?: string; // Identifier for the import source (e.g., "Chase Checking", "Manual")
+  currency?: string; // ISO 4217 code; unset means the session base currency
+  splits?: TransactionSplit[]; // Two or more parts summing to amount; category then mirrors the largest part
+  transfer?: TransferLink; // Set together with type TRANSFER
+  notes?: string;
+  tags?: string[]; // Lowercase labels across categories, e.g. "vacation-2024"
+}
+
+export interface TransferLink {
+  counterpartId: string; // The matching transaction in the other account
+  direction: 'IN' | 'OUT'; // IN was income and OUT an expense before linking
+}
+
+export interface TransactionSplit {
+  category: string;
+  amount: number; // Same direction as the parent amount; negative for e.g. a deposit refund on a receipt
+  note?: string;
+}
+
+export type RuleField = 'description' | 'amount' | 'type' | 'source' | 'date' | 'weekday' | 'tags';
+
+export type RuleOperator =
+  | 'contains' | 'equals' | 'startsWith' | 'regex' // Text, case-insensitive
+  | 'is' // Exact value, e.g. a type or source
+  | 'gt' | 'lt' | 'between' // Amounts
+  | 'before' | 'after' // Dates; 'between' works here too
+  | 'in' // Weekdays
+  | 'has' | 'lacks'; // Tags
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator; // Allowed operators per field: RULE_OPERATORS in utils/rules.ts
+  value: string; // Text, number, YYYY-MM-DD, TransactionType or comma-separated weekdays (0 = Sunday)
+  value2?: string; // Upper bound for 'between', inclusive
 }
 
 export interface CategorizationRule {
   id: string;
-  keyword: string;
+  conditions: RuleCondition[];
+  match: 'all' | 'any'; // AND / OR over the conditions
   category: string;
-  isRegex?: boolean;
+  addTags?: string[]; // Added to matching transactions, existing tags are kept
 }
 
+// 'first': only the highest matching rule applies. 'all': every matching rule adds its tags, the highest sets the category.
+export type RuleMatchMode = 'first' | 'all';
+
 export interface ChartData {
   name: string;
   value: number;
@@ -60,10 +109,27 @@ export interface AIAnalysisResult {
   savingsPotential: number;
 }
 
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1' | 'iso-8859-15';
+
+export type DateFormat =
+  | 'auto'
+  | 'YYYY-MM-DD'
+  | 'DD.MM.YYYY'
+  | 'DD/MM/YYYY'
+  | 'DD-MM-YYYY'
+  | 'MM/DD/YYYY'
+  | 'YYYY/MM/DD'
+  | 'YYYYMMDD'
+  | 'DD MMM YYYY'; // Month names in English, German or French
+
 export interface ImportSettings {
   delimiter: string; // ',' or ';'
-  dateFormat: 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'MM/DD/YYYY';
+  dateFormat: DateFormat; // 'auto' scans the whole date column
   decimalSeparator: '.' | ',';
+  encoding?: 'auto' | TextEncoding; // Text files only; 'auto' (or unset) sniffs the bytes
+  sheetName?: string; // Spreadsheets only; unset picks the sheet with the most rows
+  headerRow?: number; // 1-based row of the column headers; unset detects it
+  currency?: string; // Tabular files: currency of the amounts; unset means the session base currency
 }
 
 export interface Asset {
@@ -72,6 +138,9 @@ export interface Asset {
   value: number;
   type: 'Cash' | 'Stock' | 'Crypto' | 'Real Estate' | 'Other';
   color: string;
+  currency?: string; // ISO 4217 code; unset means the session base currency
+  linkedSource?: string; // Import source whose closing balance can update this value
+  balanceDate?: string; // YYYY-MM-DD of the statement balance last applied
 }
 
 export interface SavingRule {
@@ -90,11 +159,20 @@ export interface Goal {
   icon: string; 
   quickAdjustStep?: number; // Configurable +/- amount (e.g., 100)
   savingRule?: SavingRule; // Defined saving strategy
+  currency?: string; // ISO 4217 code of target and allocation; unset means the session base currency
+}
+
+// 1 unit of currency = rate units of the session base currency, valid from date on
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  date: string; // YYYY-MM-DD
 }
 
 export interface DashboardWidget {
   id: string;
-  type: 'net-worth' | 'assets' | 'cash-flow' | 'spending' | 'sankey' | 'custom';
+  type: 'net-worth' | 'assets' | 'cash-flow' | 'spending' | 'sankey' | 'tags' | 'custom';
   title: string;
   description?: string; // For AI generation context
   query?: string; // The prompt used to generate it
@@ -105,19 +183,40 @@ export interface DashboardWidget {
 }
 
 export interface Session {
+  schemaVersion: number; // See CURRENT_SCHEMA_VERSION in utils/sessionSchema.ts
   id: string;
   name: string;
   transactions: Transaction[];
-  categories: string[];
-  rules: CategorizationRule[];
+  categories: CategoryDefinition[];
+  rules: CategorizationRule[]; // In priority order, highest first
+  ruleMatchMode: RuleMatchMode;
   assets: Asset[];
   goals: Goal[];
   sources: string[]; // List of available import sources
   dashboardWidgets: DashboardWidget[];
   createdAt: number;
   importSettings: ImportSettings;
+  importProfiles: ImportProfile[]; // Remembered settings + mapping per recurring bank export
+  baseCurrency: string; // ISO 4217 code all aggregations are converted to
+  exchangeRates: ExchangeRate[];
+  displayLocale: string; // BCP 47 tag for numbers and dates, e.g. 'de-DE'
 }
 
+export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
+  delimiter: ';',
+  dateFormat: 'auto',
+  decimalSeparator: ','
+};
+
+export const DEFAULT_DASHBOARD_WIDGETS: DashboardWidget[] = [
+  { id: 'w-networth', type: 'net-worth', title: 'Net Worth Trend', visible: true, width: 'full' },
+  { id: 'w-assets', type: 'assets', title: 'Assets', visible: true, width: 'half' },
+  { id: 'w-cashflow', type: 'cash-flow', title: 'Cash Flow', visible: true, width: 'half' },
+  { id: 'w-spending', type: 'spending', title: 'Spending Categories', visible: true, width: 'half' },
+  { id: 'w-sankey', type: 'sankey', title: 'Income to Expense Flow', visible: true, width: 'full' },
+  { id: 'w-tags', type: 'tags', title: 'Spending by Tag', visible: true, width: 'half' },
+];
+
 export interface ImportSelection {
   transactions: boolean;
   categories: boolean;
@@ -133,4 +232,18 @@ export interface ColumnMapping {
   amountIndex: number;
   categoryIndex: number; // -1 if not present
   typeIndex: number; // -1 if not present
+  debitIndex?: number; // Unsigned outgoing column ("Soll"/"Debit"); used with creditIndex instead of amountIndex
+  creditIndex?: number; // Unsigned incoming column ("Haben"/"Credit")
+  invertSign?: boolean; // Positive amounts are expenses (typical for credit card exports)
+  balanceIndex?: number; // Running balance after each row ("Saldo"); used to reconcile the import
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  sourceName: string;
+  settings: ImportSettings;
+  mapping: ColumnMapping;
+  headerFingerprint: string; // See computeHeaderFingerprint in utils/parser.ts
+  createdAt: number;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { renameCategoryPath, reparentPath, rollupCategory, withAncestors, buildCategoryTree, syncCategoryDefinitions, createCategoryLookup } from './categories';
+import { CategoryDefinition } from '../types';
+
+describe('renameCategoryPath', () => {
+  it('renames the category and cascades to its subtree', () => {
+    expect(renameCategoryPath('Utilities', 'Utilities', 'Home')).toBe('Home');
+    expect(renameCategoryPath('Utilities.Water', 'Utilities', 'Home')).toBe('Home.Water');
+    expect(renameCategoryPath('Utilities.Water.Cold', 'Utilities.Water', 'Home.Supply')).toBe('Home.Supply.Cold');
+  });
+
+  it('leaves siblings that only share a prefix alone', () => {
+    expect(renameCategoryPath('UtilitiesExtra', 'Utilities', 'Home')).toBe('UtilitiesExtra');
+    expect(renameCategoryPath('Food', 'Utilities', 'Home')).toBe('Food');
+  });
+});
+
+describe('reparentPath', () => {
+  it('moves a category under another parent or to the top level', () => {
+    expect(reparentPath('Utilities.Water', 'Home')).toBe('Home.Water');
+    expect(reparentPath('Utilities.Water', null)).toBe('Water');
+  });
+
+  it('refuses a move into its own subtree', () => {
+    expect(reparentPath('Utilities', 'Utilities')).toBeNull();
+    expect(reparentPath('Utilities', 'Utilities.Water')).toBeNull();
+    expect(reparentPath('Utilities', 'Utilities.Water.Cold')).toBeNull();
+  });
+
+  it('refuses a move that changes nothing', () => {
+    expect(reparentPath('Utilities.Water', 'Utilities')).toBeNull();
+    expect(reparentPath('Food', null)).toBeNull();
+  });
+
+  it('allows a move into a sibling with a similar name', () => {
+    expect(reparentPath('Utilities', 'UtilitiesExtra')).toBe('UtilitiesExtra.Utilities');
+  });
+});
+
+describe('rollupCategory', () => {
+  it('rolls categories up to the children of the viewed root', () => {
+    expect(rollupCategory('Utilities.Water.Cold', null)).toBe('Utilities');
+    expect(rollupCategory('Utilities.Water.Cold', 'Utilities')).toBe('Utilities.Water');
+    expect(rollupCategory('Utilities', 'Utilities')).toBe('Utilities');
+    expect(rollupCategory('Food', 'Utilities')).toBeNull();
+  });
+});
+
+describe('buildCategoryTree', () => {
+  it('adds implied parents and sorts by name', () => {
+    expect(withAncestors(['Utilities.Water', 'Food'])).toEqual(['Utilities', 'Utilities.Water', 'Food']);
+    const tree = buildCategoryTree(['Utilities.Water', 'Food', 'Utilities.Electricity']);
+    expect(tree.map(n => [n.path, n.implied])).toEqual([['Food', false], ['Utilities', true]]);
+    expect(tree[1].children.map(n => n.name)).toEqual(['Electricity', 'Water']);
+  });
+});
+
+describe('syncCategoryDefinitions', () => {
+  const utilities: CategoryDefinition = { name: 'Utilities', color: '#123456', icon: '💡', essential: true, fixed: true };
+
+  it('keeps metadata across a cascading rename', () => {
+    const synced = syncCategoryDefinitions([utilities], ['Home', 'Home.Water'], name => renameCategoryPath(name, 'Utilities', 'Home'));
+    expect(synced[0]).toEqual({ ...utilities, name: 'Home' });
+    // New children inherit the icon and flags of their parent
+    expect(synced[1]).toMatchObject({ name: 'Home.Water', icon: '💡', essential: true, fixed: true });
+  });
+
+  it('resolves unknown subcategories through their closest parent', () => {
+    expect(createCategoryLookup([utilities])('Utilities.Water')).toEqual({ ...utilities, name: 'Utilities.Water' });
+  });
+});
@@ -0,0 +1,150 @@
+import { CategoryDefinition, DEFAULT_CATEGORIES } from '../types';
+
+// --- Category Hierarchy ---
+// Categories are dot paths ("Utilities.Water"), so the flat string list in a session already describes a tree.
+
+export const CATEGORY_SEPARATOR = '.';
+
+export interface CategoryNode {
+  path: string; // Full path, e.g. "Utilities.Water"
+  name: string; // Last segment, e.g. "Water"
+  children: CategoryNode[];
+  implied: boolean; // Only exists because a child names it; not in the session's list
+}
+
+export const parentOf = (category: string): string | null => {
+  const index = category.lastIndexOf(CATEGORY_SEPARATOR);
+  return index > 0 ? category.slice(0, index) : null;
+};
+
+export const leafName = (category: string): string => category.slice(category.lastIndexOf(CATEGORY_SEPARATOR) + 1);
+
+/** True for the category itself and everything below it. */
+export const isWithin = (category: string, root: string): boolean =>
+  category === root || category.startsWith(root + CATEGORY_SEPARATOR);
+
+/** "A.B.C" -> ["A", "A.B", "A.B.C"] */
+export const ancestorsOf = (category: string): string[] =>
+  category.split(CATEGORY_SEPARATOR).map((_, i, parts) => parts.slice(0, i + 1).join(CATEGORY_SEPARATOR));
+
+/** Adds missing parents so every path in the list has its whole chain, keeping the original order. */
+export const withAncestors = (categories: string[]): string[] =>
+  Array.from(new Set(categories.flatMap(ancestorsOf)));
+
+/**
+ * The category a transaction counts towards when viewing `root`'s children (or the top level when root is null).
+ * Returns null for categories outside `root`. Amounts booked directly on `root` stay on `root`.
+ */
+export const rollupCategory = (category: string, root: string | null): string | null => {
+  if (root === null) return category.split(CATEGORY_SEPARATOR)[0];
+  if (category === root) return root;
+  if (!isWithin(category, root)) return null;
+  const next = category.slice(root.length + 1).split(CATEGORY_SEPARATOR)[0];
+  return root + CATEGORY_SEPARATOR + next;
+};
+
+/** Whether any category sits below `path`, i.e. the view can drill into it. */
+export const hasChildren = (path: string, categories: string[]): boolean =>
+  categories.some(c => c !== path && isWithin(c, path));
+
+/** Builds the tree, sorted by name; parents only named by their children are marked as implied. */
+export const buildCategoryTree = (categories: string[]): CategoryNode[] => {
+  const known = new Set(categories);
+  const nodes = new Map<string, CategoryNode>();
+  const roots: CategoryNode[] = [];
+
+  withAncestors(categories).forEach(path => {
+    const node: CategoryNode = { path, name: leafName(path), children: [], implied: !known.has(path) };
+    nodes.set(path, node);
+    const parent = parentOf(path);
+    if (parent && nodes.has(parent)) nodes.get(parent)!.children.push(node);
+    else roots.push(node);
+  });
+
+  const sort = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(n => sort(n.children));
+  };
+  sort(roots);
+  return roots;
+};
+
+/** Renames `from` and moves its whole subtree along: renameCategoryPath("A.B.C", "A.B", "X") === "X.C". */
+export const renameCategoryPath = (category: string, from: string, to: string): string => {
+  if (category === from) return to;
+  if (category.startsWith(from + CATEGORY_SEPARATOR)) return to + category.slice(from.length);
+  return category;
+};
+
+/** New path of `path` when moved under `newParent` (null = top level). Returns null if the move is impossible. */
+export const reparentPath = (path: string, newParent: string | null): string | null => {
+  if (newParent !== null && isWithin(newParent, path)) return null; // Into its own subtree
+  const moved = newParent ? newParent + CATEGORY_SEPARATOR + leafName(path) : leafName(path);
+  return moved === path ? null : moved;
+};
+
+// --- Category Metadata ---
+
+// Colors for categories without a preset. Picked from the name, so a category keeps its color however charts rank it.
+export const CATEGORY_PALETTE = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#14b8a6', '#a855f7', '#eab308'];
+export const DEFAULT_CATEGORY_ICON = '🏷️';
+
+const paletteColor = (name: string): string => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  return CATEGORY_PALETTE[Math.abs(hash) % CATEGORY_PALETTE.length];
+};
+
+/**
+ * Definition for a category that has none yet: the preset for built-in names, otherwise a color of its own
+ * with the icon and flags of its closest defined parent in `existing`.
+ */
+export const defineCategory = (name: string, existing: CategoryDefinition[] = []): CategoryDefinition => {
+  const preset = DEFAULT_CATEGORIES.find(c => c.name === name);
+  if (preset) return { ...preset };
+  const parent = ancestorsOf(name).slice(0, -1).reverse()
+    .map(path => existing.find(c => c.name === path))
+    .find((c): c is CategoryDefinition => !!c);
+  return {
+    name,
+    color: paletteColor(name),
+    icon: parent?.icon ?? DEFAULT_CATEGORY_ICON,
+    essential: parent?.essential ?? false,
+    fixed: parent?.fixed ?? false
+  };
+};
+
+/**
+ * Returns a resolver for the metadata of any category name. Names missing from the list (e.g. set by an import)
+ * fall back to their closest defined parent, then to a generated definition, so every chart can color them.
+ */
+export const createCategoryLookup = (definitions: CategoryDefinition[]) => {
+  const byName = new Map(definitions.map(c => [c.name, c]));
+  const cache = new Map<string, CategoryDefinition>();
+  return (name: string): CategoryDefinition => {
+    const known = byName.get(name) || cache.get(name);
+    if (known) return known;
+    const parent = ancestorsOf(name).slice(0, -1).reverse().map(path => byName.get(path)).find(c => !!c);
+    const resolved = parent ? { ...parent, name } : defineCategory(name, definitions);
+    cache.set(name, resolved);
+    return resolved;
+  };
+};
+
+export type CategoryLookup = ReturnType<typeof createCategoryLookup>;
+
+/**
+ * Rebuilds the definitions for a new list of names, keeping the metadata of names that survive.
+ * `rename` maps old names to new ones so a renamed category (and its subtree) keeps its color and flags.
+ */
+export const syncCategoryDefinitions = (
+  definitions: CategoryDefinition[],
+  names: string[],
+  rename: (name: string) => string = name => name
+): CategoryDefinition[] => {
+  const kept = new Map(definitions.map(c => [rename(c.name), c]));
+  return names.reduce<CategoryDefinition[]>((result, name) => {
+    const existing = kept.get(name);
+    return [...result, existing ? { ...existing, name } : defineCategory(name, result)];
+  }, []);
+};
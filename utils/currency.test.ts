@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createCurrencyConverter, convertToBase, parseExchangeRatesCsv } from './currency';
+import { Asset, Transaction, TransactionType } from '../types';
+
+const rates = [
+  { id: 'r1', currency: 'USD', rate: 0.9, date: '2024-01-01' },
+  { id: 'r2', currency: 'USD', rate: 0.8, date: '2024-06-01' }
+];
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 't', date: '2024-03-01', description: 'x', amount: 100, type: TransactionType.EXPENSE, category: 'Other', ...overrides
+});
+
+describe('createCurrencyConverter', () => {
+  it('uses the newest rate on or before the date', () => {
+    const converter = createCurrencyConverter('EUR', rates);
+    expect(converter.toBase(100, 'USD', '2024-03-01')).toBeCloseTo(90);
+    expect(converter.toBase(100, 'USD', '2024-07-01')).toBeCloseTo(80);
+    expect(converter.toBase(100, 'USD', '2023-01-01')).toBeCloseTo(90);
+    expect(converter.toBase(100, 'USD')).toBeCloseTo(80);
+  });
+});
+
+describe('convertToBase', () => {
+  it('converts transactions with their splits and assets, and reports missing rates', () => {
+    const converter = createCurrencyConverter('EUR', rates);
+    const base = tx({ id: 'eur' });
+    const split = tx({ id: 'usd', currency: 'USD', splits: [{ category: 'A', amount: 60 }, { category: 'B', amount: 40 }] });
+    const assets: Asset[] = [{ id: 'a', name: 'Broker', value: 1000, type: 'Stock', color: '#000000', currency: 'GBP' }];
+
+    const result = convertToBase([base, split], assets, converter);
+    expect(result.transactions[0]).toBe(base);
+    expect(result.transactions[1].amount).toBeCloseTo(90);
+    expect(result.transactions[1].splits!.map(s => s.amount)).toEqual([expect.closeTo(54), expect.closeTo(36)]);
+    expect(result.transactions[1].currency).toBe('EUR');
+    // No GBP rate: counted as base currency and reported
+    expect(result.assets[0].value).toBe(1000);
+    expect(result.missingRates).toEqual(['GBP']);
+  });
+});
+
+describe('parseExchangeRatesCsv', () => {
+  const read = (text: string) => {
+    const { rates, errors } = parseExchangeRatesCsv(text, '2024-01-01');
+    return { rates: rates.map(({ id, ...r }) => r), errors };
+  };
+
+  it('reads a quoted decimal comma in comma-separated files', () => {
+    expect(read('Currency,Rate,Date\nUSD,"1,08",2024-01-02\nCHF,0.94')).toEqual({
+      rates: [{ currency: 'USD', rate: 1.08, date: '2024-01-02' }, { currency: 'CHF', rate: 0.94, date: '2024-01-01' }],
+      errors: []
+    });
+  });
+
+  it('reads semicolon-separated files with a decimal comma', () => {
+    expect(read('usd;1,08\n\ngbp;0,86;2024-01-05').rates).toEqual([
+      { currency: 'USD', rate: 1.08, date: '2024-01-01' },
+      { currency: 'GBP', rate: 0.86, date: '2024-01-05' }
+    ]);
+  });
+
+  it('reports unreadable lines with their line number', () => {
+    expect(read('USD;abc\nDollar;1,1\nCHF;0,9;02.01.2024\nJPY;"160').errors).toEqual([
+      'Line 1: invalid rate "abc"',
+      'Line 2: "Dollar" is not a currency code',
+      'Line 3: date must be YYYY-MM-DD, got "02.01.2024"',
+      'Line 4: Unterminated quoted field'
+    ]);
+  });
+});
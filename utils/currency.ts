@@ -0,0 +1,120 @@
+import { ExchangeRate, Transaction, Asset } from "../types";
+import { tokenizeCsv } from "./parser";
+
+// --- Currencies & Exchange Rates ---
+
+export const DEFAULT_BASE_CURRENCY = 'EUR';
+
+// Offered in pickers; any other ISO 4217 code can still be typed into an exchange rate
+export const COMMON_CURRENCIES = ['EUR', 'USD', 'CHF', 'GBP', 'JPY', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK'];
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export const isCurrencyCode = (value: string): boolean => CURRENCY_CODE.test(value);
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /** Converts into the base currency with the newest rate on or before the date, or the oldest rate otherwise. */
+  toBase: (amount: number, currency?: string, date?: string) => number;
+  hasRate: (currency?: string) => boolean;
+}
+
+/**
+ * Builds a converter for one session. Rates are "1 unit of currency = rate units of base".
+ * Amounts without a currency, or in a currency without any rate, are taken as base currency;
+ * use findMissingRates to warn about the latter.
+ */
+export const createCurrencyConverter = (baseCurrency: string, rates: ExchangeRate[]): CurrencyConverter => {
+  const byCurrency = new Map<string, ExchangeRate[]>();
+  rates.forEach(r => {
+    if (r.currency === baseCurrency || !(r.rate > 0)) return;
+    if (!byCurrency.has(r.currency)) byCurrency.set(r.currency, []);
+    byCurrency.get(r.currency)!.push(r);
+  });
+  byCurrency.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const rateFor = (currency: string, date?: string): number | null => {
+    const list = byCurrency.get(currency);
+    if (!list || list.length === 0) return null;
+    if (!date) return list[list.length - 1].rate;
+    let match = list[0];
+    for (const r of list) {
+      if (r.date > date) break;
+      match = r;
+    }
+    return match.rate;
+  };
+
+  return {
+    baseCurrency,
+    toBase: (amount, currency, date) => {
+      if (!currency || currency === baseCurrency) return amount;
+      const rate = rateFor(currency, date);
+      return rate === null ? amount : amount * rate;
+    },
+    hasRate: (currency) => !currency || currency === baseCurrency || byCurrency.has(currency)
+  };
+};
+
+/** Currencies in use that have no exchange rate to the base currency. */
+export const findMissingRates = (currencies: (string | undefined)[], converter: CurrencyConverter): string[] =>
+  Array.from(new Set(currencies.filter((c): c is string => !!c && !converter.hasRate(c)))).sort();
+
+export interface BaseCurrencyData {
+  transactions: Transaction[];
+  assets: Asset[];
+  missingRates: string[]; // Currencies counted as base currency for lack of a rate; show MissingRatesWarning
+}
+
+/**
+ * Converts transactions (including their splits) and assets into the base currency for aggregation.
+ * Records already in the base currency are passed through unchanged.
+ */
+export const convertToBase = (transactions: Transaction[], assets: Asset[], converter: CurrencyConverter): BaseCurrencyData => {
+  const currency = converter.baseCurrency;
+  return {
+    transactions: transactions.map(t => t.currency && t.currency !== currency
+      ? {
+          ...t,
+          amount: converter.toBase(t.amount, t.currency, t.date),
+          ...(t.splits ? { splits: t.splits.map(s => ({ ...s, amount: converter.toBase(s.amount, t.currency, t.date) })) } : {}),
+          currency
+        }
+      : t),
+    assets: assets.map(a => a.currency && a.currency !== currency ? { ...a, value: converter.toBase(a.value, a.currency), currency } : a),
+    missingRates: findMissingRates([...transactions.map(t => t.currency), ...assets.map(a => a.currency)], converter)
+  };
+};
+
+/**
+ * Reads exchange rates from CSV lines of "currency;rate" or "currency;rate;date" (comma or
+ * semicolon separated, optional header). Rates may use a decimal comma, quoted where it clashes
+ * with the delimiter. Lines that cannot be read are reported with their line number.
+ */
+export const parseExchangeRatesCsv = (text: string, defaultDate: string): { rates: ExchangeRate[]; errors: string[] } => {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  // The delimiter is taken from the first line, ignoring quoted rates such as "1,08"
+  const firstLine = (text.split(/\r?\n/).find(l => l.trim()) || '').replace(/"[^"]*"/g, '');
+  const delimiter = firstLine.includes(';') ? ';' : firstLine.includes('\t') ? '\t' : ',';
+
+  Array.from(tokenizeCsv(text, delimiter)).forEach((record, i) => {
+    const [code, rateText, dateText] = record.fields;
+    const currency = (code || '').toUpperCase();
+    const line = record.error?.line ?? record.line;
+
+    // Header row
+    if (i === 0 && !isCurrencyCode(currency)) return;
+
+    const rate = parseFloat((rateText || '').replace(',', '.'));
+    const date = dateText || defaultDate;
+    if (record.error) errors.push(`Line ${line}: ${record.error.message}`);
+    else if (!isCurrencyCode(currency)) errors.push(`Line ${line}: "${code}" is not a currency code`);
+    else if (!(rate > 0)) errors.push(`Line ${line}: invalid rate "${rateText}"`);
+    else if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) errors.push(`Line ${line}: date must be YYYY-MM-DD, got "${date}"`);
+    else rates.push({ id: `rate-${Date.now()}-${line}`, currency, rate, date });
+  });
+
+  return { rates, errors };
+};
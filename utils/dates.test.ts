@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { detectDateFormat, expandYear, parseDate } from './dates';
+
+describe('detectDateFormat', () => {
+  it('flags day/month order as ambiguous while no day is above 12', () => {
+    const result = detectDateFormat(['03/04/2024', '05/06/2024']);
+    expect(result.format).toBe('DD/MM/YYYY');
+    expect(result.candidates).toEqual(['DD/MM/YYYY', 'MM/DD/YYYY']);
+    expect(result.ambiguous).toBe(true);
+  });
+
+  it('settles the order once one value has a day above 12', () => {
+    const result = detectDateFormat(['03/04/2024', '13/04/2024']);
+    expect(result.format).toBe('DD/MM/YYYY');
+    expect(result.candidates).toEqual(['DD/MM/YYYY']);
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('picks month-first when a value only fits that order', () => {
+    const result = detectDateFormat(['04/03/2024', '04/13/2024']);
+    expect(result.format).toBe('MM/DD/YYYY');
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('returns no format when nothing parses', () => {
+    expect(detectDateFormat(['n/a', ''])).toEqual({ format: null, candidates: [], ambiguous: false });
+  });
+});
+
+describe('parseDate', () => {
+  it('reads month names in English and German', () => {
+    expect(parseDate('15-Jan-24', 'auto')).toBe('2024-01-15');
+    expect(parseDate('15. März 2024', 'auto')).toBe('2024-03-15');
+    expect(parseDate('Jan 15, 2024', 'auto')).toBe('2024-01-15');
+    expect(parseDate('15 Jan 2024', 'DD MMM YYYY')).toBe('2024-01-15');
+  });
+
+  it('reads spreadsheet serials but not short numbers', () => {
+    expect(parseDate(45306, 'auto')).toBe('2024-01-15');
+    expect(parseDate('45306', 'DD.MM.YYYY')).toBe('2024-01-15');
+    expect(parseDate('2024', 'auto')).toBeNull();
+    expect(parseDate('15', 'auto')).toBeNull();
+  });
+
+  it('rejects impossible calendar days', () => {
+    expect(parseDate('30.02.2024', 'DD.MM.YYYY')).toBeNull();
+    expect(parseDate('30.02.2024', 'auto')).toBeNull();
+    expect(parseDate('29.02.2024', 'DD.MM.YYYY')).toBe('2024-02-29');
+  });
+
+  it('keeps the written date of a timestamp regardless of its offset', () => {
+    expect(parseDate('2024-01-15T23:30:00-05:00', 'YYYY-MM-DD')).toBe('2024-01-15');
+    expect(parseDate('2024-01-15 00:15Z', 'auto')).toBe('2024-01-15');
+  });
+
+  it('follows the given format instead of guessing', () => {
+    expect(parseDate('03/04/2024', 'MM/DD/YYYY')).toBe('2024-03-04');
+    expect(parseDate('03/04/2024', 'DD/MM/YYYY')).toBe('2024-04-03');
+    expect(parseDate('2024-04-03', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('expandYear', () => {
+  it('keeps four-digit years and maps two-digit ones to the nearest century', () => {
+    const nextYear = (new Date().getFullYear() + 1) % 100;
+    expect(expandYear('1998')).toBe(1998);
+    expect(expandYear(String(nextYear).padStart(2, '0'))).toBe(2000 + nextYear);
+    expect(expandYear('99')).toBe(1999);
+  });
+});
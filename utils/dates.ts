@@ -0,0 +1,163 @@
+import { DateFormat } from "../types";
+
+// --- Date Parsing ---
+
+export type ConcreteDateFormat = Exclude<DateFormat, 'auto'>;
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  'auto': 'Auto-detect',
+  'DD.MM.YYYY': 'DD.MM.YYYY (DE)',
+  'DD/MM/YYYY': 'DD/MM/YYYY (UK/FR)',
+  'DD-MM-YYYY': 'DD-MM-YYYY',
+  'MM/DD/YYYY': 'MM/DD/YYYY (US)',
+  'YYYY-MM-DD': 'YYYY-MM-DD (ISO)',
+  'YYYY/MM/DD': 'YYYY/MM/DD',
+  'YYYYMMDD': 'YYYYMMDD',
+  'DD MMM YYYY': 'Month names (15 Jan 2024, 15. März 2024)'
+};
+
+// Order decides which format wins when a file fits several; day-first is the common bank layout
+const CONCRETE_FORMATS: ConcreteDateFormat[] = [
+  'YYYY-MM-DD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'DD-MM-YYYY', 'MM/DD/YYYY', 'YYYY/MM/DD', 'YYYYMMDD', 'DD MMM YYYY'
+];
+
+// English, German and French month names and abbreviations, without accents
+const MONTH_NAMES: Record<string, number> = {};
+[
+  ['january', 'jan', 'januar', 'janner', 'janvier', 'janv'],
+  ['february', 'feb', 'februar', 'feber', 'fevrier', 'fevr', 'fev'],
+  ['march', 'mar', 'marz', 'maerz', 'mrz', 'mars'],
+  ['april', 'apr', 'avril', 'avr'],
+  ['may', 'mai'],
+  ['june', 'jun', 'juni', 'juin'],
+  ['july', 'jul', 'juli', 'juillet', 'juil'],
+  ['august', 'aug', 'aout'],
+  ['september', 'sep', 'sept', 'septembre'],
+  ['october', 'oct', 'oktober', 'okt', 'octobre'],
+  ['november', 'nov', 'novembre'],
+  ['december', 'dec', 'dezember', 'dez', 'decembre']
+].forEach((names, i) => names.forEach(name => { MONTH_NAMES[name] = i + 1; }));
+
+const NUMERIC_PATTERNS: Record<Exclude<ConcreteDateFormat, 'YYYY-MM-DD' | 'DD MMM YYYY'>, { pattern: RegExp; order: 'DMY' | 'MDY' | 'YMD' }> = {
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/, order: 'DMY' },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/, order: 'DMY' },
+  'DD-MM-YYYY': { pattern: /^(\d{1,2})-(\d{1,2})-(\d{2}|\d{4})$/, order: 'DMY' },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/, order: 'MDY' },
+  'YYYY/MM/DD': { pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, order: 'YMD' },
+  'YYYYMMDD': { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: 'YMD' }
+};
+
+// Date and optional time; the offset is ignored because the written calendar date is the booking date
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ]\d{1,2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?\s*(?:Z|[+-]\d{2}(?::?\d{2})?)?)?$/i;
+
+/** Expands a two-digit year to the nearest century, allowing dates up to ten years ahead. */
+export const expandYear = (year: string): number => {
+  const value = Number(year);
+  if (year.length !== 2) return value;
+  const pivot = (new Date().getFullYear() % 100) + 10;
+  return value <= pivot ? 2000 + value : 1900 + value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1) return null;
+  // Round-trip rejects impossible days such as 30 February
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Spreadsheet cells arrive as day counts since 1899-12-30. Only five-digit values (1954–2119)
+// are accepted so short numeric strings such as "2024" or "15" are not mistaken for dates.
+const parseExcelSerial = (value: string | number): string | null => {
+  const text = String(value).trim();
+  if (!/^\d{5}(\.\d+)?$/.test(text)) return null;
+  const serial = Number(text);
+  if (serial < 20000 || serial > 80000) return null;
+  return new Date(Math.round((Math.floor(serial) - 25569) * 86400 * 1000)).toISOString().split('T')[0];
+};
+
+const parseMonthName = (text: string): string | null => {
+  const tokens = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[\s.,\/-]+/)
+    .filter(Boolean);
+  if (tokens.length !== 3) return null;
+
+  const monthPos = tokens.findIndex(token => MONTH_NAMES[token] !== undefined);
+  if (monthPos === -1) return null;
+  const numbers = tokens.filter((_, i) => i !== monthPos);
+  if (!numbers.every(n => /^\d{1,4}$/.test(n))) return null;
+
+  // "15 Jan 2024", "Jan 15, 2024" and "15-Jan-24" all put the day before the year
+  const yearPos = numbers.findIndex(n => n.length === 4);
+  const year = yearPos === -1 ? numbers[1] : numbers[yearPos];
+  const day = yearPos === -1 ? numbers[0] : numbers[1 - yearPos];
+  if (year.length !== 2 && year.length !== 4) return null;
+  return toIsoDate(expandYear(year), MONTH_NAMES[tokens[monthPos]], Number(day));
+};
+
+const parseWithFormat = (text: string, format: ConcreteDateFormat): string | null => {
+  if (format === 'YYYY-MM-DD') {
+    const match = text.match(ISO_PATTERN);
+    return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+  if (format === 'DD MMM YYYY') return parseMonthName(text);
+
+  const { pattern, order } = NUMERIC_PATTERNS[format];
+  const match = text.match(pattern);
+  if (!match) return null;
+  const [a, b, c] = [match[1], match[2], match[3]];
+  if (order === 'YMD') return toIsoDate(Number(a), Number(b), Number(c));
+  if (order === 'MDY') return toIsoDate(expandYear(c), Number(a), Number(b));
+  return toIsoDate(expandYear(c), Number(b), Number(a));
+};
+
+/**
+ * Parses a date cell into YYYY-MM-DD. With 'auto', each value is tried against every
+ * format in priority order; prefer resolving the format once via detectDateFormat.
+ */
+export const parseDate = (value: string | number, format: DateFormat): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const serial = parseExcelSerial(text);
+  if (serial) return serial;
+
+  if (format !== 'auto') return parseWithFormat(text, format);
+  for (const candidate of CONCRETE_FORMATS) {
+    const parsed = parseWithFormat(text, candidate);
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+export interface DateFormatDetection {
+  format: ConcreteDateFormat | null; // null when no format fits any value
+  candidates: ConcreteDateFormat[]; // Every format that fits as many values as the chosen one
+  ambiguous: boolean; // Candidates disagree on at least one value, e.g. 03/04 with no day above 12
+}
+
+/**
+ * Scans every value of a date column and picks the format that parses the most of them.
+ * A single value with a day above 12 is enough to rule out the swapped day/month order.
+ */
+export const detectDateFormat = (values: (string | number)[]): DateFormatDetection => {
+  const texts = values
+    .map(v => (v === null || v === undefined ? '' : String(v).trim()))
+    .filter(t => t && !parseExcelSerial(t));
+
+  const results = CONCRETE_FORMATS.map(format => ({
+    format,
+    parsed: texts.map(t => parseWithFormat(t, format))
+  }));
+  const scored = results.map(r => ({ ...r, hits: r.parsed.filter(Boolean).length }));
+  const best = Math.max(0, ...scored.map(r => r.hits));
+  if (best === 0) return { format: null, candidates: [], ambiguous: false };
+
+  const top = scored.filter(r => r.hits === best);
+  const ambiguous = top.some(r => r.parsed.some((p, i) => p !== top[0].parsed[i]));
+  return { format: top[0].format, candidates: top.map(r => r.format), ambiguous };
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicates, normalizeDescription } from './duplicates';
+import { Transaction, TransactionType } from '../types';
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: `t-${Math.random().toString(36).slice(2)}`,
+  date: '2024-03-10',
+  description: 'AMAZON.DE*Mktp 123',
+  amount: 49.99,
+  type: TransactionType.EXPENSE,
+  category: 'Shopping',
+  source: 'Visa',
+  ...overrides
+});
+
+describe('normalizeDescription', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeDescription('AMAZON.DE*Mktp')).toBe(normalizeDescription('Amazon DE mktp'));
+    expect(normalizeDescription('Café Müller')).toBe('cafe muller');
+  });
+});
+
+describe('findDuplicates', () => {
+  it('flags a re-imported transaction within the day tolerance', () => {
+    const existing = tx({ id: 'old' });
+    const [match] = findDuplicates([tx({ date: '2024-03-12', description: 'Amazon DE mktp 123' })], [existing]);
+    expect(match.existing).toBe(existing);
+    expect(match.dayDiff).toBe(2);
+    expect(match.sameId).toBe(false);
+  });
+
+  it('does not pair a refund with the purchase it reverses', () => {
+    const purchase = tx({ id: 'purchase' });
+    const refund = tx({ type: TransactionType.INCOME, date: '2024-03-11' });
+    expect(findDuplicates([refund], [purchase])).toEqual([]);
+    expect(findDuplicates([purchase], [refund])).toEqual([]);
+  });
+
+  it('still matches a row that was linked as a transfer since', () => {
+    const linked = tx({ id: 'linked', type: TransactionType.TRANSFER, transfer: { counterpartId: 'x', direction: 'OUT' } });
+    expect(findDuplicates([tx({})], [linked])).toHaveLength(1);
+  });
+
+  it('ignores different sources, other days and other descriptions', () => {
+    const existing = [tx({ id: 'old' })];
+    expect(findDuplicates([tx({ source: 'Checking' })], existing)).toEqual([]);
+    expect(findDuplicates([tx({ date: '2024-03-15' })], existing)).toEqual([]);
+    expect(findDuplicates([tx({ description: 'Netflix' })], existing)).toEqual([]);
+  });
+
+  it('consumes each existing transaction only once', () => {
+    const existing = [tx({ id: 'old' })];
+    expect(findDuplicates([tx({}), tx({})], existing)).toHaveLength(1);
+  });
+
+  it('prefers stable bank ids over fuzzy matches', () => {
+    const existing = tx({ id: 'FIT-1' });
+    const matches = findDuplicates([tx({}), tx({ id: 'FIT-1', date: '2024-03-20' })], [existing]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].sameId).toBe(true);
+    expect(matches[0].incoming.id).toBe('FIT-1');
+  });
+});
@@ -0,0 +1,106 @@
+import { Transaction } from "../types";
+import { signedAmount } from "./transactions";
+
+// --- Duplicate Detection ---
+
+// Booking and value dates of the same transaction can differ between exports of the same account
+export const DUPLICATE_DAY_TOLERANCE = 2;
+
+export interface DuplicateMatch {
+  incoming: Transaction;
+  existing: Transaction;
+  dayDiff: number;
+  sameId: boolean; // Stable bank reference matched, so the row cannot be kept
+}
+
+const MS_PER_DAY = 86400000;
+
+const toDayNumber = (date: string): number | null => {
+  const time = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  return isNaN(time) ? null : Math.round(time / MS_PER_DAY);
+};
+
+/** Lowercases and strips punctuation so "AMAZON.DE*Mktp" and "Amazon DE Mktp" compare equal. */
+export const normalizeDescription = (description: string): string =>
+  description
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Banks truncate long descriptions differently, so a long enough prefix also counts
+const descriptionsMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 12 && longer.startsWith(shorter);
+};
+
+// Legacy transactions without a source match any source
+const sourcesMatch = (a?: string, b?: string): boolean =>
+  !a || !b || a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Signed cents, so a refund never matches the purchase it reverses. Linked transfers keep their direction.
+const bucketKey = (tx: Transaction): number => Math.round(signedAmount(tx) * 100);
+
+/**
+ * Pairs each incoming transaction with at most one existing transaction that shares
+ * signed amount, source and description within DUPLICATE_DAY_TOLERANCE days. Every existing
+ * transaction is consumed by one match, so two identical coffees on the same day are
+ * only flagged if both were imported before.
+ */
+export const findDuplicates = (
+  incoming: Transaction[],
+  existing: Transaction[],
+  dayTolerance: number = DUPLICATE_DAY_TOLERANCE
+): DuplicateMatch[] => {
+  const byId = new Map(existing.map(t => [t.id, t]));
+
+  // Bucket by signed amount; the fuzzy checks only run inside a bucket
+  const buckets = new Map<number, { tx: Transaction; day: number | null; desc: string }[]>();
+  existing.forEach(tx => {
+    const key = bucketKey(tx);
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push({ tx, day: toDayNumber(tx.date), desc: normalizeDescription(tx.description) });
+  });
+
+  const used = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+
+  // Stable bank references first, so a fuzzy match cannot take the row an id match needs
+  incoming.forEach(tx => {
+    const sameId = byId.get(tx.id);
+    if (sameId && !used.has(sameId.id)) {
+      used.add(sameId.id);
+      matches.push({ incoming: tx, existing: sameId, dayDiff: 0, sameId: true });
+    }
+  });
+  const matchedIncoming = new Set(matches.map(m => m.incoming));
+
+  incoming.forEach(tx => {
+    if (matchedIncoming.has(tx)) return;
+    const day = toDayNumber(tx.date);
+    const desc = normalizeDescription(tx.description);
+    let best: { tx: Transaction; dayDiff: number } | null = null;
+
+    for (const candidate of buckets.get(bucketKey(tx)) || []) {
+      if (used.has(candidate.tx.id)) continue;
+      if (!sourcesMatch(tx.source, candidate.tx.source)) continue;
+      if (!descriptionsMatch(desc, candidate.desc)) continue;
+      const dayDiff = day === null || candidate.day === null
+        ? (tx.date === candidate.tx.date ? 0 : Infinity)
+        : Math.abs(day - candidate.day);
+      if (dayDiff > dayTolerance) continue;
+      if (!best || dayDiff < best.dayDiff) best = { tx: candidate.tx, dayDiff };
+    }
+
+    if (best) {
+      used.add(best.tx.id);
+      matches.push({ incoming: tx, existing: best.tx, dayDiff: best.dayDiff, sameId: false });
+    }
+  });
+
+  // Keep file order for display
+  const order = new Map(incoming.map((tx, i) => [tx, i]));
+  return matches.sort((a, b) => order.get(a.incoming)! - order.get(b.incoming)!);
+};
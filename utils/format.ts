@@ -0,0 +1,129 @@
+import { ImportSettings } from "../types";
+
+// --- Display Formatting ---
+
+export const DISPLAY_LOCALES: { value: string; label: string }[] = [
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'de-AT', label: 'Deutsch (Österreich)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'fr-CH', label: 'Français (Suisse)' },
+  { value: 'it-IT', label: 'Italiano' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'nl-NL', label: 'Nederlands' }
+];
+
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}/;
+const ISO_MONTH = /^\d{4}-\d{2}$/;
+
+/** Guesses a display locale from the import settings, which already record the user's number and date habits. */
+export const localeFromImportSettings = (settings: Pick<ImportSettings, 'dateFormat' | 'decimalSeparator'>): string => {
+  if (settings.dateFormat === 'MM/DD/YYYY') return 'en-US';
+  if (settings.decimalSeparator === ',') return settings.dateFormat === 'DD/MM/YYYY' ? 'fr-FR' : 'de-DE';
+  return 'en-GB';
+};
+
+export const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Building Intl formatters is slow and charts format thousands of ticks, so they are reused
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+const numberFormat = (locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  if (!numberFormats.has(key)) numberFormats.set(key, new Intl.NumberFormat(locale, options));
+  return numberFormats.get(key)!;
+};
+
+const dateFormat = (locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  // Dates are calendar days without a time zone, so they are read and written as UTC
+  if (!dateFormats.has(key)) dateFormats.set(key, new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }));
+  return dateFormats.get(key)!;
+};
+
+const toUtcDate = (iso: string): Date | null => {
+  const date = new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export interface MoneyOptions {
+  currency?: string; // Defaults to the formatter's currency
+  decimals?: number; // Defaults to 0
+  compact?: boolean; // "€12K" for axis ticks
+}
+
+/** Formats an amount with its currency symbol, e.g. "1.234 €" (de-DE) or "CHF 50.00" (de-CH). */
+export const formatMoney = (amount: number, currency: string, locale?: string, options: Omit<MoneyOptions, 'currency'> = {}): string => {
+  const decimals = options.decimals ?? 0;
+  try {
+    return numberFormat(locale, {
+      style: 'currency',
+      currency,
+      ...(options.compact
+        ? { notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }
+        : { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+    }).format(amount);
+  } catch (e) {
+    // Unknown codes or locales make Intl throw; fall back to a plain number with the code
+    return `${amount.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${currency}`;
+  }
+};
+
+export interface Formatter {
+  locale: string;
+  currency: string;
+  money: (amount: number, options?: MoneyOptions) => string;
+  /** Plain number with up to maxDecimals fraction digits */
+  number: (value: number, maxDecimals?: number) => string;
+  /** Full date, e.g. 31.01.2024 */
+  date: (iso: string) => string;
+  /** Day and month for dense axes, e.g. 31.01. */
+  shortDate: (iso: string) => string;
+  /** Month key (YYYY-MM) or date as "Jan 2024" */
+  month: (isoOrKey: string) => string;
+  /** Formats chart labels that are ISO days or months and passes anything else through. */
+  label: (value: unknown) => string;
+}
+
+/** Formatter for one session's display locale and base currency. Invalid locales fall back to the browser default. */
+export const createFormatter = (locale: string, currency: string): Formatter => {
+  const safeLocale = isSupportedLocale(locale) ? locale : undefined;
+
+  const date = (iso: string) => {
+    const d = toUtcDate(iso);
+    return d ? dateFormat(safeLocale, { year: 'numeric', month: '2-digit', day: '2-digit' }).format(d) : iso;
+  };
+  const shortDate = (iso: string) => {
+    const d = toUtcDate(iso);
+    return d ? dateFormat(safeLocale, { month: '2-digit', day: '2-digit' }).format(d) : iso;
+  };
+  const month = (isoOrKey: string) => {
+    const d = toUtcDate(ISO_MONTH.test(isoOrKey) ? `${isoOrKey}-01` : isoOrKey);
+    return d ? dateFormat(safeLocale, { year: 'numeric', month: 'short' }).format(d) : isoOrKey;
+  };
+
+  return {
+    locale: safeLocale || numberFormat(undefined, {}).resolvedOptions().locale,
+    currency,
+    money: (amount, options = {}) => formatMoney(amount, options.currency || currency, safeLocale, options),
+    number: (value, maxDecimals = 0) => numberFormat(safeLocale, { maximumFractionDigits: maxDecimals }).format(value),
+    date,
+    shortDate,
+    month,
+    label: (value) => {
+      if (typeof value !== 'string') return value === undefined || value === null ? '' : String(value);
+      if (ISO_MONTH.test(value)) return month(value);
+      if (ISO_DAY.test(value)) return date(value);
+      return value;
+    }
+  };
+};
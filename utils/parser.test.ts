@@ -0,0 +1,504 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { tokenizeCsv, detectEncoding, decodeText, readCsvPreview, findAccountSource, parseOfx, parseCamt, parseMt940, parseQif, exportQif, computeHeaderFingerprint, findMatchingProfile, resolveSignedAmount } from './parser';
+import { ColumnMapping, ImportProfile, ImportSettings, TransactionType } from '../types';
+
+const records = (text: string, delimiter = ';') => Array.from(tokenizeCsv(text, delimiter));
+
+describe('tokenizeCsv', () => {
+  it('splits records and trims unquoted fields', () => {
+    expect(records('a; b ;c\n1;2;3').map(r => r.fields)).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    const [record, next] = records('"Rent; May";"say ""hi""";"two\r\nlines"\nx;y;z');
+    expect(record.fields).toEqual(['Rent; May', 'say "hi"', 'two\nlines']);
+    expect(record.error).toBeUndefined();
+    // The record after a multi-line field starts on the right line
+    expect(next.line).toBe(3);
+  });
+
+  it('handles CRLF endings, a BOM and blank lines', () => {
+    expect(records('\uFEFFa,b\r\n\r\nc,d\r\n', ',').map(r => r.fields)).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reads the escaped tab delimiter from the settings select', () => {
+    expect(records('a\tb', '\\t')[0].fields).toEqual(['a', 'b']);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(records('a;;')[0].fields).toEqual(['a', '', '']);
+  });
+
+  it('reports an unterminated quote where it was opened', () => {
+    const [record] = records('a;"open\nnext');
+    expect(record.error).toEqual({ line: 1, column: 3, message: 'Unterminated quoted field' });
+  });
+
+  it('reports stray characters after a closing quote and stray quotes', () => {
+    expect(records('"a"x;b')[0].error?.message).toBe("Unexpected character 'x' after closing quote");
+    expect(records('ab"c;d')[0].error?.message).toBe('Unexpected quote inside unquoted field');
+  });
+});
+
+describe('detectEncoding and decodeText', () => {
+  const bytes = (...values: number[]) => new Uint8Array(values);
+  // "Café 5€" in the encodings banks export
+  const utf8 = new TextEncoder().encode('Café 5€');
+  const cp1252 = bytes(0x43, 0x61, 0x66, 0xE9, 0x20, 0x35, 0x80);
+  const latin9 = bytes(0x43, 0x61, 0x66, 0xE9, 0x20, 0x35, 0xA4);
+
+  it('trusts a byte order mark and strips it when decoding', () => {
+    const withBom = bytes(0xEF, 0xBB, 0xBF, ...utf8);
+    expect(detectEncoding(withBom)).toBe('utf-8');
+    expect(decodeText(withBom, 'utf-8')).toBe('Café 5€');
+    expect(detectEncoding(bytes(0xFF, 0xFE, 0x41, 0x00))).toBe('utf-16le');
+    expect(detectEncoding(bytes(0xFE, 0xFF, 0x00, 0x41))).toBe('utf-16be');
+  });
+
+  it('accepts well-formed UTF-8 without a BOM', () => {
+    expect(detectEncoding(utf8)).toBe('utf-8');
+  });
+
+  it('falls back to windows-1252 for invalid UTF-8 with C1 bytes', () => {
+    expect(detectEncoding(cp1252)).toBe('windows-1252');
+    // Node's decoder drops the C1 range that browsers map to €, so only the accent is checked here
+    expect(decodeText(cp1252, 'windows-1252').startsWith('Café 5')).toBe(true);
+  });
+
+  it('reads 0xA4 next to an amount as the euro sign', () => {
+    expect(detectEncoding(latin9)).toBe('iso-8859-15');
+    expect(decodeText(latin9, 'iso-8859-15')).toBe('Café 5€');
+    // Elsewhere it stays the generic currency sign of ISO-8859-1
+    expect(detectEncoding(bytes(0xE9, 0xA4, 0x41))).toBe('iso-8859-1');
+    expect(decodeText(bytes(0xE9, 0xA4), 'iso-8859-1')).toBe('é¤');
+  });
+});
+
+describe('readCsvPreview', () => {
+  const read = (lines: string[]) =>
+    readCsvPreview(new File([lines.join('\n')], 'export.csv', { type: 'text/csv' }), { delimiter: ';' });
+
+  it('finds the header below a metadata block', async () => {
+    const data = await read([
+      'Konto;DE89370400440532013000',
+      'Zeitraum;01.01.2024 - 31.01.2024',
+      '',
+      'Buchungstag;Verwendungszweck;Betrag',
+      '02.01.2024;Miete;-800,00',
+      '03.01.2024;Gehalt;2500,00'
+    ]);
+    expect(data.headerRow).toBe(4);
+    expect(data.headers).toEqual(['Buchungstag', 'Verwendungszweck', 'Betrag']);
+    expect(data.rows).toHaveLength(2);
+  });
+
+  it('sets aside summary rows below the table', async () => {
+    const data = await read([
+      'Date;Description;Amount',
+      '02.01.2024;Rent;-800,00',
+      'Summe;;1700,00',
+      'Total:;;1700,00',
+      'Endsaldo per 31.01.2024;;4200,00'
+    ]);
+    expect(data.rows).toEqual([['02.01.2024', 'Rent', '-800,00']]);
+    expect(data.footerRows).toBe(3);
+  });
+
+  it('keeps a last transaction whose description starts with a summary word', async () => {
+    const data = await read([
+      'Description;Date;Amount',
+      'Coffee;02.01.2024;-3,50',
+      'Balance transfer fee;03.01.2024;-15,00',
+      'Balance;;1200,00'
+    ]);
+    expect(data.rows.map(r => r[0])).toEqual(['Coffee', 'Balance transfer fee']);
+    expect(data.footerRows).toBe(1);
+  });
+});
+
+describe('findAccountSource', () => {
+  const sources = ['Checking DE89370400440532013000', 'Visa 4711', 'Savings'];
+
+  it('finds the source named after the account id', () => {
+    expect(findAccountSource('DE89370400440532013000', sources)).toBe('Checking DE89370400440532013000');
+    expect(findAccountSource('4711', sources)).toBe('Visa 4711');
+    expect(findAccountSource('Savings', sources)).toBe('Savings');
+  });
+
+  it('does not match ids that only occur inside a longer number or name', () => {
+    expect(findAccountSource('0532', sources)).toBeUndefined();
+    expect(findAccountSource('471', sources)).toBeUndefined();
+    expect(findAccountSource('Sav', sources)).toBeUndefined();
+  });
+
+  it('matches multi-word account names as a whole', () => {
+    expect(findAccountSource('Joint Checking', ['Quicken Joint Checking'])).toBe('Quicken Joint Checking');
+    expect(findAccountSource('Joint Checking', ['Joint Savings'])).toBeUndefined();
+  });
+
+  it('never matches the fallback ids of files without an account', () => {
+    expect(findAccountSource('OFX', ['Bank OFX'])).toBeUndefined();
+    expect(findAccountSource('MT940', ['MT940'])).toBeUndefined();
+  });
+});
+
+describe('parseOfx', () => {
+  const sgml = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    '',
+    '<OFX>',
+    '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+    '<CURDEF>eur',
+    '<BANKACCTFROM><BANKID>37040044<ACCTID>0532013000<ACCTTYPE>CHECKING</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    '<DTPOSTED>20240131120000.000[-5:EST]',
+    '<TRNAMT>-42.50',
+    '<FITID>A1',
+    '<NAME>REWE Markt',
+    '<MEMO>Card payment',
+    '</STMTTRN>',
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    '<DTPOSTED>20240201',
+    '<TRNAMT>15.00',
+    '<FITID>A2',
+    '<NAME>Bank fee refund reversed',
+    '</STMTTRN>',
+    '<STMTTRN>',
+    '<TRNTYPE>OTHER',
+    '<DTPOSTED>20240202',
+    '<TRNAMT>0.00',
+    '<NAME>Nothing',
+    '</STMTTRN>',
+    '</BANKTRANLIST>',
+    '<LEDGERBAL><BALAMT>1234.56<DTASOF>20240202</LEDGERBAL>',
+    '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>'
+  ].join('\n');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4711</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>CREDIT</TRNTYPE>
+        <DTPOSTED>20240305</DTPOSTED>
+        <TRNAMT>-20.00</TRNAMT>
+        <NAME>Refund &amp; Co</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>-310.20</BALAMT><DTASOF>20240331</DTASOF></LEDGERBAL>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+  it('reads SGML statements with FITID-based ids and the ledger balance', () => {
+    const [statement] = parseOfx(sgml);
+    expect(statement.accountId).toBe('0532013000');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.balance).toEqual({ amount: 1234.56, date: '2024-02-02' });
+    expect(statement.transactions.map(t => [t.id, t.date, t.amount, t.type, t.description])).toEqual([
+      ['ofx-0532013000-A1', '2024-01-31', 42.5, TransactionType.EXPENSE, 'REWE Markt - Card payment'],
+      ['ofx-0532013000-A2', '2024-02-01', 15, TransactionType.EXPENSE, 'Bank fee refund reversed']
+    ]);
+    expect(statement.failed).toEqual([{ row: 25, raw: ['OTHER', '20240202', '0.00', 'Nothing', ''], reason: 'Zero amount' }]);
+  });
+
+  it('lets TRNTYPE override the amount sign in XML statements', () => {
+    const [statement] = parseOfx(xml);
+    expect(statement.accountId).toBe('4711');
+    expect(statement.balance).toEqual({ amount: -310.2, date: '2024-03-31' });
+    const [refund] = statement.transactions;
+    expect(refund).toMatchObject({ date: '2024-03-05', amount: 20, type: TransactionType.INCOME, description: 'Refund & Co', currency: 'USD' });
+    // Without a FITID the id falls back to date, amount and position
+    expect(refund.id).toBe('ofx-4711-2024-03-05--20-0');
+  });
+
+  it('keeps ids stable when the same statement is imported again', () => {
+    expect(parseOfx(sgml)[0].transactions.map(t => t.id)).toEqual(parseOfx(sgml)[0].transactions.map(t => t.id));
+  });
+
+  it('rejects files without a statement', () => {
+    expect(() => parseOfx('<OFX></OFX>')).toThrow('No bank or credit card statement found in OFX file');
+  });
+});
+
+describe('parseCamt', () => {
+  const entry = (amount: string, indicator: string, status: string, ref: string, party: string) => `
+      <Ntry>
+        ${ref ? `<AcctSvcrRef>${ref}</AcctSvcrRef>` : ''}
+        <Amt Ccy="EUR">${amount}</Amt>
+        <CdtDbtInd>${indicator}</CdtDbtInd>
+        <Sts><Cd>${status}</Cd></Sts>
+        <BookgDt><Dt>2024-04-02</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>${party}</Nm></Dbtr><Cdtr><Pty><Nm>${party}</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 42</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>`;
+
+  const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">250.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Dt><Dt>2024-04-30</Dt></Dt>
+      </Bal>
+      ${entry('1200.00', 'CRDT', 'BOOK', 'REF-1', 'ACME GmbH')}
+      ${entry('80.00', 'DBIT', 'BOOK', '', 'Stadtwerke')}
+      ${entry('10.00', 'DBIT', 'PDNG', 'REF-3', 'Pending Shop')}
+    </Stmt>
+    <Stmt>
+      <Id>STMT-2</Id>
+      <Acct><Id><Othr><Id>SAVINGS-7</Id></Othr></Id></Acct>
+      ${entry('5.00', 'CRDT', 'BOOK', 'REF-4', 'Interest')}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+  it('turns every Stmt element into its own statement', () => {
+    const statements = parseCamt(camt);
+    expect(statements.map(s => [s.accountId, s.statementId, s.transactions.length])).toEqual([
+      ['DE89370400440532013000', 'STMT-1', 2],
+      ['SAVINGS-7', 'STMT-2', 1]
+    ]);
+    expect(statements[1].currency).toBe('EUR');
+  });
+
+  it('signs entries by CdtDbtInd and names the counterparty on the other side', () => {
+    const [salary, utilities] = parseCamt(camt)[0].transactions;
+    expect(salary).toMatchObject({ date: '2024-04-02', amount: 1200, type: TransactionType.INCOME, description: 'ACME GmbH - Invoice 42', currency: 'EUR' });
+    expect(utilities).toMatchObject({ amount: 80, type: TransactionType.EXPENSE, description: 'Stadtwerke - Invoice 42' });
+  });
+
+  it('uses AcctSvcrRef as the id when the bank provides one', () => {
+    const [salary, utilities] = parseCamt(camt)[0].transactions;
+    expect(salary.id).toBe('camt-DE89370400440532013000-REF-1');
+    expect(utilities.id).toBe('camt-DE89370400440532013000-2024-04-02--80-1');
+  });
+
+  it('skips entries that are not booked yet', () => {
+    const { failed } = parseCamt(camt)[0];
+    expect(failed).toHaveLength(1);
+    expect(failed[0].reason).toBe('Entry not booked yet (PDNG)');
+    expect(failed[0].row).toBe(camt.split('\n').findIndex(line => line.includes('REF-3')));
+  });
+
+  it('reads a debit closing balance as negative', () => {
+    expect(parseCamt(camt)[0].balance).toEqual({ amount: -250, date: '2024-04-30' });
+  });
+
+  it('rejects XML that is not a CAMT statement', () => {
+    expect(() => parseCamt('<Document><Other/></Document>')).toThrow('No CAMT.053 statement or CAMT.052 report found');
+  });
+});
+
+describe('parseMt940', () => {
+  const day1 = [
+    ':20:STARTUMS',
+    ':25:37040044/0532013000',
+    ':28C:00001/001',
+    ':60F:C240102EUR1000,00',
+    ':61:2401020102DR42,50NDDTNONREF',
+    ':86:105?00SEPA-LASTSCHRIFT?20EREF+123 MREF+M-9?21SVWZ+Strom Januar ?22Kunde 77?32STADTWERKE MUE',
+    '?33NCHEN GMBH',
+    ':61:2401020102CR1500,00NTRFNONREF//BANK-1',
+    ':86:Gehalt Januar',
+    ':62F:C240102EUR2457,50',
+    '-'
+  ];
+  const day2 = [
+    ':20:STARTUMS',
+    ':25:37040044/0532013000',
+    ':28C:00002/001',
+    ':60F:C240102EUR2457,50',
+    ':61:2401030103DR7,50NMSCNONREF',
+    ':86:166?00GEBUEHREN?20Kontofuehrung',
+    ':62F:C240103EUR2450,00',
+    '-'
+  ];
+
+  it('reads :86: purpose and counterparty subfields', () => {
+    const [statement] = parseMt940(day1.join('\n'));
+    expect(statement.accountId).toBe('37040044/0532013000');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.transactions.map(t => [t.date, t.amount, t.type, t.description])).toEqual([
+      ['2024-01-02', 42.5, TransactionType.EXPENSE, 'STADTWERKE MUENCHEN GMBH - Strom Januar Kunde 77'],
+      ['2024-01-02', 1500, TransactionType.INCOME, 'Gehalt Januar']
+    ]);
+    expect(statement.balance).toEqual({ amount: 2457.5, date: '2024-01-02' });
+  });
+
+  it('groups daily statements of one account and keeps the last closing balance', () => {
+    const statements = parseMt940([...day1, ...day2].join('\n'));
+    expect(statements).toHaveLength(1);
+    expect(statements[0].transactions.map(t => t.description)).toEqual([
+      'STADTWERKE MUENCHEN GMBH - Strom Januar Kunde 77', 'Gehalt Januar', 'Kontofuehrung'
+    ]);
+    expect(statements[0].balance).toEqual({ amount: 2450, date: '2024-01-03' });
+  });
+
+  it('numbers entries per statement so ids do not depend on the rest of the file', () => {
+    const combined = parseMt940([...day1, ...day2].join('\n'))[0].transactions.map(t => t.id);
+    const alone = parseMt940(day2.join('\n'))[0].transactions.map(t => t.id);
+    expect(combined[2]).toBe(alone[0]);
+    expect(alone[0]).toBe('mt940-37040044/0532013000-00002/001-2024-01-03-0');
+    expect(new Set(combined).size).toBe(3);
+  });
+
+  it('reports unreadable statement lines', () => {
+    const [statement] = parseMt940([':20:X', ':25:ACC', ':61:garbage'].join('\n'));
+    expect(statement.failed).toEqual([{ row: 3, raw: ['garbage'], reason: 'Unreadable :61: statement line' }]);
+  });
+});
+
+describe('parseQif', () => {
+  const categories = ['Food.Groceries', 'Household', 'Salary'];
+  const bank = [
+    '!Type:Bank',
+    "D1/15'24",
+    'T-120.00',
+    'PREWE',
+    'LFood:Groceries',
+    'SFood:Groceries',
+    'EWeekly shop',
+    '$-100.00',
+    'SHousehold',
+    '$-20.00',
+    '^',
+    'D01/16/2024',
+    'T2,500.00',
+    'PEmployer',
+    'Lsalary',
+    '^',
+    'D01/16/2024',
+    'T-5.00',
+    'PTransfer to savings',
+    'L[Savings]',
+    '^'
+  ].join('\n');
+
+  it('turns S/$/E lines into splits in the direction of the transaction', () => {
+    const [shop] = parseQif(bank, categories)[0].transactions;
+    expect(shop).toMatchObject({ date: '2024-01-15', amount: 120, type: TransactionType.EXPENSE, description: 'REWE', category: 'Food.Groceries' });
+    expect(shop.splits).toEqual([
+      { category: 'Food.Groceries', amount: 100, note: 'Weekly shop' },
+      { category: 'Household', amount: 20 }
+    ]);
+  });
+
+  it('maps L categories onto session categories and transfers to uncategorized', () => {
+    const [, salary, transfer] = parseQif(bank, categories)[0].transactions;
+    expect(salary).toMatchObject({ amount: 2500, type: TransactionType.INCOME, category: 'Salary' });
+    expect(transfer.category).toBe('Uncategorized');
+  });
+
+  it('reads credit card registers under their !Account name', () => {
+    const text = ['!Account', 'NVisa Card', 'TCCard', '^', '!Type:CCard', 'D03/01/2024', 'T-9.99', 'PStreaming', '^'].join('\n');
+    const [statement] = parseQif(text, categories);
+    expect(statement.accountId).toBe('Visa Card');
+    expect(statement.transactions[0]).toMatchObject({ date: '2024-03-01', amount: 9.99, type: TransactionType.EXPENSE });
+  });
+
+  it('numbers ids per account, date and amount', () => {
+    const record = (date: string, amount: string) => [`D${date}`, `T${amount}`, 'PCoffee', '^'];
+    const ids = (records: string[][]) => parseQif(['!Type:Bank', ...records.flat()].join('\n'), [])[0].transactions.map(t => t.id);
+    const original = ids([record('02/01/2024', '-3.50'), record('02/01/2024', '-3.50')]);
+    expect(original).toEqual(['qif-QIF-2024-02-01--3.5-0', 'qif-QIF-2024-02-01--3.5-1']);
+    // An earlier, unrelated record does not shift the ids of the others
+    expect(ids([record('01/31/2024', '-8.00'), record('02/01/2024', '-3.50'), record('02/01/2024', '-3.50')]).slice(1)).toEqual(original);
+  });
+
+  it('reads back what exportQif writes', () => {
+    const original = parseQif(bank, categories)[0].transactions;
+    const reimported = parseQif(exportQif(original), categories)[0].transactions;
+    expect(reimported.map(({ id, ...t }) => t)).toEqual(original.map(({ id, ...t }) => t));
+  });
+});
+
+describe('computeHeaderFingerprint', () => {
+  it('ignores case, surrounding whitespace and empty trailing columns', () => {
+    expect(computeHeaderFingerprint([' Buchungstag', 'Verwendungs  zweck ', 'Betrag', '', ''])).toBe('buchungstag|verwendungs zweck|betrag');
+  });
+
+  it('keeps column order and inner empty columns', () => {
+    expect(computeHeaderFingerprint(['Date', '', 'Amount'])).not.toBe(computeHeaderFingerprint(['Date', 'Amount']));
+    expect(computeHeaderFingerprint(['Amount', 'Date'])).not.toBe(computeHeaderFingerprint(['Date', 'Amount']));
+  });
+});
+
+describe('findMatchingProfile', () => {
+  const profile = (id: string, delimiter: string, headers: string[]): ImportProfile => ({
+    id,
+    name: id,
+    sourceName: id,
+    settings: { delimiter, dateFormat: 'auto', decimalSeparator: ',' },
+    mapping: { dateIndex: 0, descriptionIndex: 1, amountIndex: 2, categoryIndex: -1, typeIndex: -1 },
+    headerFingerprint: computeHeaderFingerprint(headers),
+    createdAt: 0
+  });
+  const file = new File(['Datum;Text;Betrag\n02.01.2024;Miete;-800,00\n'], 'export.csv', { type: 'text/csv' });
+
+  it('matches the profile whose layout reproduces the header', async () => {
+    const profiles = [
+      profile('comma', ',', ['Datum', 'Text', 'Betrag']),
+      profile('other bank', ';', ['Date', 'Payee', 'Amount']),
+      profile('semicolon', ';', ['datum', 'text', 'betrag'])
+    ];
+    const match = await findMatchingProfile(file, profiles);
+    expect(match?.profile.id).toBe('semicolon');
+    expect(match?.data.headers).toEqual(['Datum', 'Text', 'Betrag']);
+  });
+
+  it('returns null when no profile fits', async () => {
+    expect(await findMatchingProfile(file, [profile('other bank', ';', ['Date', 'Payee', 'Amount'])])).toBeNull();
+  });
+});
+
+describe('resolveSignedAmount', () => {
+  const settings: ImportSettings = { delimiter: ';', dateFormat: 'auto', decimalSeparator: ',' };
+  const columns: ColumnMapping = { dateIndex: 0, descriptionIndex: 1, amountIndex: -1, categoryIndex: -1, typeIndex: -1, debitIndex: 2, creditIndex: 3 };
+  const single: ColumnMapping = { ...columns, amountIndex: 2, debitIndex: undefined, creditIndex: undefined };
+  const row = (...cells: string[]) => ['02.01.2024', 'Test', ...cells];
+
+  it('signs the debit and credit columns', () => {
+    expect(resolveSignedAmount(row('12,50', ''), columns, settings)).toBe(-12.5);
+    expect(resolveSignedAmount(row('', '1.200,00'), columns, settings)).toBe(1200);
+  });
+
+  it('nets rows that fill both columns', () => {
+    expect(resolveSignedAmount(row('10,00', '25,00'), columns, settings)).toBe(15);
+  });
+
+  it('treats a minus in the debit column as money out', () => {
+    expect(resolveSignedAmount(row('-12,50', ''), columns, settings)).toBe(-12.5);
+  });
+
+  it('returns NaN when both columns are empty', () => {
+    expect(resolveSignedAmount(row(' ', ''), columns, settings)).toBeNaN();
+  });
+
+  it('reads a single signed amount column', () => {
+    expect(resolveSignedAmount(row('-1.234,56'), single, settings)).toBe(-1234.56);
+    expect(resolveSignedAmount(row('1,234.56'), single, { ...settings, decimalSeparator: '.' })).toBe(1234.56);
+  });
+
+  it('inverts credit card exports that list charges as positive amounts', () => {
+    const card = { ...single, invertSign: true };
+    expect(resolveSignedAmount(row('49,99'), card, settings)).toBe(-49.99);
+    expect(resolveSignedAmount(row('-20,00'), card, settings)).toBe(20);
+    expect(resolveSignedAmount(row('', '20,00'), { ...columns, invertSign: true }, settings)).toBe(-20);
+  });
+});
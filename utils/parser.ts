@@ -1,50 +1,8 @@
-import { Transaction, TransactionType, Category, ImportSettings, ColumnMapping } from "../types";
+import { Transaction, TransactionType, Category, ImportSettings, ColumnMapping, TextEncoding, ImportProfile } from "../types";
 import * as XLSX from 'xlsx';
-
-// Helper to parse date string based on format
-const parseDate = (dateStr: string, format: string): string | null => {
-  if (!dateStr) return null;
-  
-  let cleanStr = String(dateStr).trim();
-  // Handle Excel serial dates (numbers)
-  if (!isNaN(Number(cleanStr)) && cleanStr.length < 8 && !cleanStr.includes('.') && !cleanStr.includes('/')) {
-      const date = new Date(Math.round((Number(cleanStr) - 25569) * 86400 * 1000));
-      return date.toISOString().split('T')[0];
-  }
-
-  let day, month, year;
-
-  try {
-    if (format === 'DD.MM.YYYY') {
-        const parts = cleanStr.split('.');
-        if (parts.length === 3) {
-            day = parts[0];
-            month = parts[1];
-            year = parts[2];
-            // Fix year if 2 digits
-            if(year.length === 2) year = `20${year}`;
-            return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        }
-    } else if (format === 'MM/DD/YYYY') {
-        const parts = cleanStr.split('/');
-        if (parts.length === 3) {
-            month = parts[0];
-            day = parts[1];
-            year = parts[2];
-             if(year.length === 2) year = `20${year}`;
-            return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        }
-    } else {
-        // Try standard ISO parsing
-        const d = new Date(cleanStr);
-        if (!isNaN(d.getTime())) return d.toISOString().split('T')[0];
-    }
-  } catch(e) {
-      return null;
-  }
-  
-  return null;
-};
+import { parseDate, detectDateFormat } from './dates';
+import { BalanceEntry } from './reconciliation';
+import { applySplits, isSplit, signedAmount, splitRemainder } from './transactions';
 
 // Helper to parse number based on separator
 const parseAmount = (amountStr: string | number, decimalSeparator: '.' | ','): number => {
@@ -68,51 +26,344 @@ const parseAmount = (amountStr: string | number, decimalSeparator: '.' | ','): n
   return parseFloat(cleanStr);
 };
 
+// --- CSV Tokenizer (RFC 4180) ---
+
+export interface ImportFailure {
+    row: number; // 1-based line in the source file (first line of the record for multi-line fields)
+    column?: number; // 1-based character position, for structural errors
+    raw: string[];
+    reason: string;
+}
+
+export interface CsvRecord {
+    fields: string[];
+    line: number; // Line the record starts on
+    error?: { line: number; column: number; message: string };
+}
+
+/**
+ * Splits CSV text into records. Handles quoted delimiters, escaped quotes (""),
+ * line breaks inside quoted fields, CRLF/LF endings and a leading BOM.
+ * Malformed records are still yielded (with a best-effort reading) and carry the first error found.
+ */
+export function* tokenizeCsv(text: string, delimiter: string): Generator<CsvRecord> {
+    // The delimiter select stores tab as a literal backslash + "t"
+    const delim = delimiter === '\\t' ? '\t' : delimiter;
+    const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let wasQuoted = false; // Current field started with a quote
+    let afterClosingQuote = false;
+    let line = 1;
+    let column = 0;
+    let recordLine = 1;
+    let quoteLine = 0;
+    let quoteColumn = 0;
+    let error: CsvRecord['error'];
+
+    const fail = (message: string, atLine = line, atColumn = column) => {
+        if (!error) error = { line: atLine, column: atColumn, message };
+    };
+
+    const endField = () => {
+        fields.push(wasQuoted ? field : field.trim());
+        field = '';
+        wasQuoted = false;
+        afterClosingQuote = false;
+    };
+
+    const takeRecord = (): CsvRecord | null => {
+        endField();
+        const record: CsvRecord = { fields, line: recordLine, error };
+        const isBlank = fields.length === 1 && fields[0] === '' && !error;
+        fields = [];
+        error = undefined;
+        return isBlank ? null : record;
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        column++;
+
+        if (inQuotes) {
+            if (ch === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                    column++;
+                } else {
+                    inQuotes = false;
+                    afterClosingQuote = true;
+                }
+            } else if (ch === '\r' || ch === '\n') {
+                // Normalize embedded line breaks to \n
+                if (ch === '\r' && input[i + 1] === '\n') i++;
+                field += '\n';
+                line++;
+                column = 0;
+            } else {
+                field += ch;
+            }
+            continue;
+        }
+
+        if (ch === delim) {
+            endField();
+        } else if (ch === '\r' || ch === '\n') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            const record = takeRecord();
+            if (record) yield record;
+            line++;
+            column = 0;
+            recordLine = line;
+        } else if (afterClosingQuote) {
+            // Only whitespace may sit between a closing quote and the next delimiter
+            if (ch.trim()) {
+                fail(`Unexpected character '${ch}' after closing quote`);
+                field += ch;
+            }
+        } else if (ch === '"') {
+            if (!wasQuoted && !field.trim()) {
+                inQuotes = true;
+                wasQuoted = true;
+                field = '';
+                quoteLine = line;
+                quoteColumn = column;
+            } else {
+                fail('Unexpected quote inside unquoted field');
+                field += ch;
+            }
+        } else {
+            field += ch;
+        }
+    }
+
+    if (inQuotes) fail('Unterminated quoted field', quoteLine, quoteColumn);
+    if (inQuotes || field !== '' || fields.length > 0 || wasQuoted) {
+        const record = takeRecord();
+        if (record) yield record;
+    }
+}
+
+// --- Character Encoding ---
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Guesses the encoding of a text file: BOM first, then a strict UTF-8 check,
+ * then single-byte heuristics for the legacy Western code pages banks still use.
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+    // Pure ASCII or well-formed multi-byte sequences. Legacy text almost never passes this by accident.
+    if (isValidUtf8(bytes)) return 'utf-8';
+
+    let hasC1Range = false;
+    let currencyNearDigit = false;
+    for (let i = 0; i < bytes.length; i++) {
+        const b = bytes[i];
+        // 0x80-0x9F are control codes in ISO-8859-x but printable in 1252 (€, „, “, –, ...)
+        if (b >= 0x80 && b <= 0x9F) {
+            hasC1Range = true;
+            break;
+        }
+        // 0xA4 is € in 8859-15 but the generic ¤ in 8859-1; next to an amount it is almost certainly €
+        if (b === 0xA4) {
+            const isDigitOrSpace = (c?: number) => c !== undefined && ((c >= 0x30 && c <= 0x39) || c === 0x20);
+            if (isDigitOrSpace(bytes[i - 1]) || isDigitOrSpace(bytes[i + 1])) currencyNearDigit = true;
+        }
+    }
+    if (hasC1Range) return 'windows-1252';
+    if (currencyNearDigit) return 'iso-8859-15';
+    return 'iso-8859-1';
+};
+
+/**
+ * Decodes raw file bytes. ISO-8859-1 is mapped byte-for-byte because the
+ * WHATWG TextDecoder silently treats that label as windows-1252.
+ */
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding): string => {
+    if (encoding === 'iso-8859-1') {
+        let text = '';
+        const CHUNK = 0x8000;
+        for (let i = 0; i < bytes.length; i += CHUNK) {
+            text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+        }
+        return text;
+    }
+    // BOMs are stripped by TextDecoder itself
+    return new TextDecoder(encoding).decode(bytes);
+};
+
 // --- New Functions for Smart Import ---
 
+// Options that decide which cells form the table; matches the corresponding ImportSettings fields
+export type TableLayout = Pick<ImportSettings, 'delimiter' | 'encoding' | 'sheetName' | 'headerRow'>;
+
 export interface RawCsvData {
     headers: string[];
     rows: string[][]; // 2D array of strings
     preview: string[][]; // First 5 rows for UI
+    lineNumbers: number[]; // Source line of each entry in rows, for error reporting
+    errors: ImportFailure[]; // Structurally broken records, excluded from rows
+    encoding: TextEncoding | null; // Encoding used to decode text files; null for spreadsheets
+    sheets: { name: string; rowCount: number }[]; // Every sheet of a workbook; empty for text files
+    sheetName: string | null; // Sheet the table was read from
+    headerRow: number; // Line (or spreadsheet row) of the header, detected or chosen
+    footerRows: number; // Trailing summary rows such as "Total" that were left out
 }
 
-export const readCsvPreview = async (file: File, delimiter: string): Promise<RawCsvData> => {
+interface TableRecord {
+    fields: string[];
+    line: number;
+}
+
+// First cell of a trailing summary row: the label alone, optionally with a colon and an as-of date.
+// Descriptions such as "Balance transfer fee" continue with other words and stay data rows.
+const SUMMARY_ROW = /^(total|totals|grand total|sum|subtotal|summe|zwischensumme|gesamt\w*|saldo|anfangssaldo|endsaldo|kontostand|opening balance|closing balance|balance|solde)\s*:?(\s*((per|am|zum|as of|au)\s+)?[\d./-]+)?\s*:?$/i;
+const AMOUNT_LIKE = /^[-+]?[\d\s.,']*\d[\d\s.,']*\s*[€$£]?$/;
+
+const cellText = (cell: unknown): string => (cell === null || cell === undefined ? '' : String(cell).trim());
+const filledCells = (fields: unknown[]): string[] => fields.map(cellText).filter(Boolean);
+
+// Header cells are labels; a date or amount means the row is data or a metadata value
+const looksLikeHeader = (fields: unknown[]): boolean => {
+    const cells = filledCells(fields);
+    return cells.length >= 2 && cells.every(c => !AMOUNT_LIKE.test(c) && !parseDate(c, 'auto'));
+};
+
+/**
+ * Finds the header and the end of the table body. Bank exports often put account number,
+ * period and balance lines above the table and a "Total" line below it. Each label-only row
+ * is scored by its width times the number of later rows of similar width, so the real table
+ * header beats short metadata lines even in small files.
+ */
+const locateTable = (records: TableRecord[], headerRow?: number): { headerIndex: number; bodyEnd: number } => {
+    let headerIndex = 0;
+    if (headerRow && headerRow > 0) {
+        headerIndex = records.findIndex(r => r.line >= headerRow);
+        if (headerIndex === -1) throw new Error(`The file has no row ${headerRow}`);
+    } else {
+        const widths = records.map(r => filledCells(r.fields).length);
+        let bestScore = 0;
+        // Metadata blocks are short; only the top of the file is searched
+        records.slice(0, 50).forEach((record, i) => {
+            if (!looksLikeHeader(record.fields)) return;
+            const width = widths[i];
+            const fits = widths.slice(i + 1).filter(w => w <= width && w >= width / 2).length;
+            if (width * fits > bestScore) {
+                bestScore = width * fits;
+                headerIndex = i;
+            }
+        });
+    }
+
+    let bodyEnd = records.length;
+    while (bodyEnd > headerIndex + 1) {
+        const cells = filledCells(records[bodyEnd - 1].fields);
+        if (cells.length > 0 && !SUMMARY_ROW.test(cells[0])) break;
+        bodyEnd--;
+    }
+    return { headerIndex, bodyEnd };
+};
+
+type TableData = Omit<RawCsvData, 'preview' | 'encoding' | 'sheets' | 'sheetName'>;
+
+// Splits CSV text into header + data rows, setting aside records that cannot be trusted
+const readCsvText = (text: string, delimiter: string, headerRow?: number): TableData => {
+    // Every record is needed: footer rows are only recognisable from the end of the file
+    const records = Array.from(tokenizeCsv(text, delimiter));
+    if (records.length === 0) throw new Error("File is empty");
+
+    const { headerIndex, bodyEnd } = locateTable(records, headerRow);
+    const headerRecord = records[headerIndex];
+
+    // Exports that end every line with a delimiter produce an empty trailing column; drop it
+    const hasTrailingDelimiter = headerRecord.fields.length > 1 && headerRecord.fields[headerRecord.fields.length - 1] === '';
+    const fieldsOf = (record: CsvRecord) =>
+        hasTrailingDelimiter && record.fields[record.fields.length - 1] === '' ? record.fields.slice(0, -1) : record.fields;
+
+    const headers = fieldsOf(headerRecord);
+    const rows: string[][] = [];
+    const lineNumbers: number[] = [];
+    const errors: ImportFailure[] = [];
+
+    records.slice(headerIndex + 1, bodyEnd).forEach(record => {
+        const fields = fieldsOf(record);
+        if (record.error) {
+            errors.push({ row: record.error.line, column: record.error.column, raw: fields, reason: record.error.message });
+        } else if (fields.length !== headers.length) {
+            errors.push({ row: record.line, raw: fields, reason: `Expected ${headers.length} fields, found ${fields.length}` });
+        } else {
+            rows.push(fields);
+            lineNumbers.push(record.line);
+        }
+    });
+
+    return { headers, rows, lineNumbers, errors, headerRow: headerRecord.line, footerRows: records.length - bodyEnd };
+};
+
+// Non-empty rows of a sheet, keeping spreadsheet row numbers so failures point at the right row
+const sheetRecords = (worksheet: XLSX.WorkSheet): TableRecord[] => {
+    const json = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '', blankrows: true }) as string[][];
+    return json
+        .map((row, i) => ({ fields: row, line: i + 1 }))
+        .filter(({ fields }) => fields.length > 0 && fields.some(c => !!c));
+};
+
+const readWorkbook = (data: string, layout: TableLayout): Omit<RawCsvData, 'preview' | 'encoding'> => {
+    const workbook = XLSX.read(data, { type: 'binary' });
+    const recordsBySheet = new Map(workbook.SheetNames.map(name => [name, sheetRecords(workbook.Sheets[name])]));
+    const sheets = workbook.SheetNames.map(name => ({ name, rowCount: recordsBySheet.get(name)!.length }));
+
+    // A remembered sheet name may not exist in next month's export; fall back to the largest sheet
+    const largest = sheets.reduce((best, sheet) => (sheet.rowCount > (best?.rowCount ?? 0) ? sheet : best), null as { name: string; rowCount: number } | null);
+    const sheetName = layout.sheetName && recordsBySheet.has(layout.sheetName) ? layout.sheetName : largest?.name;
+    const records = sheetName ? recordsBySheet.get(sheetName)! : [];
+    if (records.length === 0) throw new Error("File is empty");
+
+    const { headerIndex, bodyEnd } = locateTable(records, layout.headerRow);
+    const body = records.slice(headerIndex + 1, bodyEnd);
+    return {
+        headers: records[headerIndex].fields,
+        rows: body.map(r => r.fields),
+        lineNumbers: body.map(r => r.line),
+        errors: [],
+        sheets,
+        sheetName,
+        headerRow: records[headerIndex].line,
+        footerRows: records.length - bodyEnd
+    };
+};
+
+export const readCsvPreview = async (file: File, layout: TableLayout): Promise<RawCsvData> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (e) => {
             try {
                 const data = e.target?.result;
-                let rows: string[][] = [];
 
                 if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-                     const workbook = XLSX.read(data, { type: 'binary' });
-                     const firstSheetName = workbook.SheetNames[0];
-                     const worksheet = workbook.Sheets[firstSheetName];
-                     const json = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as string[][];
-                     rows = json.filter(row => row.length > 0 && row.some(c => !!c));
+                     const parsed = readWorkbook(data as string, layout);
+                     resolve({ ...parsed, preview: parsed.rows.slice(0, 5), encoding: null });
                 } else {
-                    const text = data as string;
-                    // Basic CSV parser logic (handles quotes?)
-                    // For MVP simplicity we use split, but ideally use a library or regex for quoted fields containing delimiters
-                    rows = text.split(/\r\n|\n/)
-                        .filter(line => line.trim() !== '')
-                        .map(line => {
-                             // Handle quotes vaguely: split by delimiter if not inside quotes
-                             // Simplification: simple split. 
-                             return line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, ''));
-                        });
+                    const bytes = new Uint8Array(data as ArrayBuffer);
+                    const resolvedEncoding = !layout.encoding || layout.encoding === 'auto' ? detectEncoding(bytes) : layout.encoding;
+                    const parsed = readCsvText(decodeText(bytes, resolvedEncoding), layout.delimiter, layout.headerRow);
+                    resolve({ ...parsed, preview: parsed.rows.slice(0, 5), encoding: resolvedEncoding, sheets: [], sheetName: null });
                 }
-                
-                if (rows.length === 0) throw new Error("File is empty");
-
-                const headers = rows[0];
-                const dataRows = rows.slice(1);
-
-                resolve({
-                    headers,
-                    rows: dataRows,
-                    preview: dataRows.slice(0, 5)
-                });
 
             } catch(err) {
                 reject(err);
@@ -122,33 +373,753 @@ export const readCsvPreview = async (file: File, delimiter: string): Promise<Raw
         if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
             reader.readAsBinaryString(file);
         } else {
-            reader.readAsText(file, 'ISO-8859-1'); // Default to latin1 for CSVs often used in EU banking
+            reader.readAsArrayBuffer(file);
+        }
+    });
+};
+
+// --- Structured Statement Formats ---
+
+export interface ParsedStatement {
+    accountId: string; // Account identifier from the file, used to suggest a source name
+    statementId?: string; // Distinguishes several statements of the same account in one file
+    transactions: Transaction[];
+    failed: ImportFailure[];
+    balance?: { amount: number; date: string }; // Closing/ledger balance reported by the bank
+    currency?: string; // Account currency, when the file states it
+}
+
+export type StatementFormat = 'ofx' | 'camt' | 'mt940' | 'qif';
+
+// Account id used when a file does not name its account; never matched against existing sources
+const FALLBACK_ACCOUNT_IDS: Record<StatementFormat, string> = { ofx: 'OFX', camt: 'CAMT', mt940: 'MT940', qif: 'QIF' };
+
+/**
+ * Existing source a statement account was imported into before: the source name has to contain the
+ * account id as whole words (e.g. "Checking DE89370400440532013000"), so a short id never matches inside
+ * a longer number. Fallback ids of files without an account never match.
+ */
+export const findAccountSource = (accountId: string, sources: string[]): string | undefined => {
+    const idTokens = accountId.trim().split(/\s+/);
+    if (!idTokens[0] || Object.values(FALLBACK_ACCOUNT_IDS).includes(accountId.trim())) return undefined;
+    return sources.find(source => {
+        const tokens = source.trim().split(/\s+/);
+        for (let start = 0; start + idTokens.length <= tokens.length; start++) {
+            if (idTokens.every((token, i) => tokens[start + i] === token)) return true;
+        }
+        return false;
+    });
+};
+
+// 1-based line of a character offset, so failures can point into the file
+const lineAt = (text: string, offset: number): number => {
+    let line = 1;
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (text[i] === '\n') line++;
+    }
+    return line;
+};
+
+/**
+ * Recognizes self-describing statement files by extension or content.
+ * Returns null for tabular files that need the column-mapping step.
+ */
+export const detectStatementFormat = (fileName: string, head: string): StatementFormat | null => {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.ofx') || name.endsWith('.qfx')) return 'ofx';
+    if (name.endsWith('.sta') || name.endsWith('.mt940') || name.endsWith('.940')) return 'mt940';
+    if (name.endsWith('.qif')) return 'qif';
+    if (/OFXHEADER\s*[:=]|<OFX>/i.test(head)) return 'ofx';
+    if (/camt\.05[23]|BkToCstmrStmt|BkToCstmrAcctRpt/.test(head)) return 'camt';
+    if (/^:20:/m.test(head) && /^:25:/m.test(head)) return 'mt940';
+    if (/^!(Type|Account|Option):?/m.test(head)) return 'qif';
+    return null;
+};
+
+// --- OFX / QFX ---
+
+const OFX_INCOME_TYPES = ['CREDIT', 'DEP', 'INT', 'DIV', 'DIRECTDEP'];
+const OFX_EXPENSE_TYPES = ['DEBIT', 'FEE', 'SRVCHG', 'CHECK', 'DIRECTDEBIT'];
+
+const decodeXmlEntities = (value: string): string =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+
+// Reads a leaf element. Works for SGML (OFX 1.x, no closing tag) and XML (OFX 2.x) alike.
+const ofxValue = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeXmlEntities(match[1].trim()) : '';
+};
+
+// Aggregates (STMTRS, STMTTRN, ...) are closed in both OFX versions
+const ofxBlocks = (text: string, tag: string): { body: string; offset: number }[] => {
+    const blocks: { body: string; offset: number }[] = [];
+    const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        blocks.push({ body: match[1], offset: match.index + tag.length + 2 }); // offset of the body
+    }
+    return blocks;
+};
+
+// OFX dates look like 20240131, 20240131120000 or 20240131120000.000[-5:EST]
+const parseOfxDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const parseOfxAmount = (value: string): number => parseFloat(value.replace(',', '.').replace(/[^0-9.+-]/g, ''));
+
+/**
+ * Parses OFX 1.x (SGML) and 2.x (XML) bank and credit card statements.
+ * Each STMTRS/CCSTMTRS aggregate becomes one statement.
+ */
+export const parseOfx = (text: string): ParsedStatement[] => {
+    const statementBlocks = [...ofxBlocks(text, 'STMTRS'), ...ofxBlocks(text, 'CCSTMTRS')]
+        .sort((a, b) => a.offset - b.offset);
+    if (statementBlocks.length === 0) throw new Error("No bank or credit card statement found in OFX file");
+
+    return statementBlocks.map(statement => {
+        const accountId = ofxValue(statement.body, 'ACCTID') || FALLBACK_ACCOUNT_IDS.ofx;
+        const currency = ofxValue(statement.body, 'CURDEF').toUpperCase() || undefined;
+        const transactions: Transaction[] = [];
+        const failed: ImportFailure[] = [];
+
+        ofxBlocks(statement.body, 'STMTTRN').forEach((block, index) => {
+            const trnType = ofxValue(block.body, 'TRNTYPE').toUpperCase();
+            const fitId = ofxValue(block.body, 'FITID');
+            const date = parseOfxDate(ofxValue(block.body, 'DTPOSTED'));
+            const amount = parseOfxAmount(ofxValue(block.body, 'TRNAMT'));
+            const name = ofxValue(block.body, 'NAME');
+            const memo = ofxValue(block.body, 'MEMO');
+            const raw = [trnType, ofxValue(block.body, 'DTPOSTED'), ofxValue(block.body, 'TRNAMT'), name, memo];
+            const row = lineAt(text, statement.offset + block.offset);
+
+            if (!date || isNaN(amount)) {
+                failed.push({ row, raw, reason: "Invalid Date or Amount" });
+                return;
+            }
+            if (amount === 0) {
+                failed.push({ row, raw, reason: "Zero amount" });
+                return;
+            }
+
+            let type = amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE;
+            if (OFX_INCOME_TYPES.includes(trnType)) type = TransactionType.INCOME;
+            if (OFX_EXPENSE_TYPES.includes(trnType)) type = TransactionType.EXPENSE;
+
+            transactions.push({
+                // FITID is unique per account, so re-importing the same statement yields the same ids
+                id: fitId ? `ofx-${accountId}-${fitId}` : `ofx-${accountId}-${date}-${amount}-${index}`,
+                date,
+                description: name && memo && memo !== name ? `${name} - ${memo}` : (name || memo || 'Unknown'),
+                amount: Math.abs(amount),
+                type,
+                category: Category.UNCATEGORIZED,
+                currency
+            });
+        });
+
+        const ledger = ofxBlocks(statement.body, 'LEDGERBAL')[0];
+        const balanceAmount = ledger ? parseOfxAmount(ofxValue(ledger.body, 'BALAMT')) : NaN;
+        const balanceDate = ledger ? parseOfxDate(ofxValue(ledger.body, 'DTASOF')) : null;
+
+        return {
+            accountId,
+            transactions,
+            failed,
+            balance: !isNaN(balanceAmount) && balanceDate ? { amount: balanceAmount, date: balanceDate } : undefined,
+            currency
+        };
+    });
+};
+
+// --- ISO 20022 CAMT.053 / CAMT.052 ---
+
+// CAMT files use versioned namespaces (camt.053.001.02, .08, ...), so elements are matched by local name
+const camtChild = (el: Element | null | undefined, name: string): Element | null => {
+    if (!el) return null;
+    for (let i = 0; i < el.children.length; i++) {
+        if (el.children[i].localName === name) return el.children[i];
+    }
+    return null;
+};
+
+const camtChildren = (el: Element | null | undefined, name: string): Element[] =>
+    el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+// Follows a slash-separated path of child elements, e.g. 'Acct/Id/IBAN'
+const camtPath = (el: Element | null | undefined, path: string): Element | null =>
+    path.split('/').reduce<Element | null>((current, name) => camtChild(current, name), el || null);
+
+const camtText = (el: Element | null | undefined, path: string): string => camtPath(el, path)?.textContent?.trim() || '';
+
+const camtDate = (el: Element | null): string | null => {
+    const value = camtText(el, 'Dt') || camtText(el, 'DtTm');
+    return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+};
+
+// Party names moved under Pty in camt.053.001.08+
+const camtPartyName = (party: Element | null): string => camtText(party, 'Nm') || camtText(party, 'Pty/Nm');
+
+const CAMT_BALANCE_PREFERENCE = ['CLBD', 'CLAV', 'ITBD'];
+
+/**
+ * Parses CAMT.053 (statements) and CAMT.052 (intraday reports). Each Stmt/Rpt element becomes one statement.
+ */
+export const parseCamt = (text: string): ParsedStatement[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const parserError = doc.getElementsByTagName('parsererror')[0];
+    if (parserError) throw new Error(`Invalid XML: ${parserError.textContent?.trim().split('\n')[0]}`);
+
+    const root = camtChild(doc.documentElement, 'BkToCstmrStmt') || camtChild(doc.documentElement, 'BkToCstmrAcctRpt');
+    if (!root) throw new Error("No CAMT.053 statement or CAMT.052 report found");
+    const statements = [...camtChildren(root, 'Stmt'), ...camtChildren(root, 'Rpt')];
+
+    // DOM nodes carry no positions, so locate each <Ntry> in the raw text for failure line numbers
+    const entryOffsets: number[] = [];
+    const entryPattern = /<(?:[\w-]+:)?Ntry[\s>]/g;
+    let entryMatch: RegExpExecArray | null;
+    while ((entryMatch = entryPattern.exec(text)) !== null) entryOffsets.push(entryMatch.index);
+    let entryCounter = 0;
+
+    return statements.map(stmt => {
+        const accountId = camtText(stmt, 'Acct/Id/IBAN') || camtText(stmt, 'Acct/Id/Othr/Id') || FALLBACK_ACCOUNT_IDS.camt;
+        const accountCurrency = camtText(stmt, 'Acct/Ccy') || undefined;
+        const transactions: Transaction[] = [];
+        const failed: ImportFailure[] = [];
+
+        camtChildren(stmt, 'Ntry').forEach((entry, index) => {
+            const row = lineAt(text, entryOffsets[entryCounter++] ?? 0);
+            const isCredit = camtText(entry, 'CdtDbtInd') === 'CRDT';
+            const amount = parseFloat(camtText(entry, 'Amt'));
+            const date = camtDate(camtChild(entry, 'BookgDt')) || camtDate(camtChild(entry, 'ValDt'));
+            const status = camtText(entry, 'Sts/Cd') || camtText(entry, 'Sts');
+            const ref = camtText(entry, 'AcctSvcrRef');
+
+            // Batch bookings list several TxDtls; the first one describes the entry well enough
+            const details = camtPath(entry, 'NtryDtls/TxDtls');
+            const counterparty = camtPartyName(camtPath(details, isCredit ? 'RltdPties/Dbtr' : 'RltdPties/Cdtr'));
+            const remittance = camtChildren(camtChild(details, 'RmtInf'), 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' ');
+            const description = [counterparty, remittance].filter(Boolean).join(' - ') || camtText(entry, 'AddtlNtryInf') || 'Unknown';
+            const raw = [camtText(entry, 'BookgDt/Dt') || camtText(entry, 'BookgDt/DtTm'), camtText(entry, 'CdtDbtInd'), camtText(entry, 'Amt'), description];
+
+            if (status && status !== 'BOOK') {
+                failed.push({ row, raw, reason: `Entry not booked yet (${status})` });
+                return;
+            }
+            if (!date || isNaN(amount)) {
+                failed.push({ row, raw, reason: "Invalid Date or Amount" });
+                return;
+            }
+            if (amount === 0) {
+                failed.push({ row, raw, reason: "Zero amount" });
+                return;
+            }
+
+            transactions.push({
+                // AcctSvcrRef is the bank's own reference and survives re-exports of the same period
+                id: ref ? `camt-${accountId}-${ref}` : `camt-${accountId}-${date}-${isCredit ? '' : '-'}${amount}-${index}`,
+                date,
+                description,
+                amount: Math.abs(amount),
+                type: isCredit ? TransactionType.INCOME : TransactionType.EXPENSE,
+                category: Category.UNCATEGORIZED,
+                // Amt carries its currency as an attribute; it is the account currency for booked entries
+                currency: camtChild(entry, 'Amt')?.getAttribute('Ccy') || accountCurrency
+            });
+        });
+
+        const balances = camtChildren(stmt, 'Bal');
+        const balanceEl = CAMT_BALANCE_PREFERENCE
+            .map(code => balances.find(b => camtText(b, 'Tp/CdOrPrtry/Cd') === code))
+            .find(Boolean);
+        const balanceAmount = balanceEl ? parseFloat(camtText(balanceEl, 'Amt')) : NaN;
+        const balanceDate = balanceEl ? camtDate(camtChild(balanceEl, 'Dt')) : null;
+
+        return {
+            accountId,
+            statementId: camtText(stmt, 'Id') || undefined,
+            transactions,
+            failed,
+            balance: !isNaN(balanceAmount) && balanceDate
+                ? { amount: camtText(balanceEl, 'CdtDbtInd') === 'DBIT' ? -balanceAmount : balanceAmount, date: balanceDate }
+                : undefined,
+            currency: accountCurrency || transactions[0]?.currency
+        };
+    });
+};
+
+// --- SWIFT MT940 ---
+
+// :61: value date (YYMMDD), optional entry date (MMDD), debit/credit mark, optional funds code, amount,
+// N + transaction type, customer reference, optional //bank reference
+const MT940_LINE_61 = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)N?([A-Z0-9]{3})?([^/]*)(?:\/\/(.*))?/;
+// :60F:/:62F: balances: mark, date (YYMMDD), currency, amount
+const MT940_BALANCE = /^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d+,\d*)/;
+
+const mt940Amount = (value: string): number => parseFloat(value.replace(',', '.'));
+
+// SWIFT years are two digits; bank statements are never from the last century
+const mt940Date = (yy: string, mm: string, dd: string): string => `20${yy}-${mm}-${dd}`;
+
+interface Mt940Field {
+    tag: string;
+    value: string;
+    line: number;
+}
+
+/**
+ * Reads the :86: information field. German banks structure it as a 3-digit business code followed by
+ * ?NN subfields: ?00 booking text, ?20-?29 and ?60-?63 purpose, ?32/?33 counterparty name.
+ */
+const parseMt940Details = (value: string): { counterparty: string; purpose: string; bookingText: string } => {
+    const structured = value.match(/^\d{3}(\?|\/|\+)/);
+    if (!structured) return { counterparty: '', purpose: value.replace(/\s+/g, ' ').trim(), bookingText: '' };
+
+    const separator = structured[1];
+    const subfields: Record<string, string> = {};
+    value.slice(3).split(separator).forEach(part => {
+        const key = part.slice(0, 2);
+        if (/^\d{2}$/.test(key)) subfields[key] = (subfields[key] || '') + part.slice(2);
+    });
+
+    const purposeKeys = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    let purpose = purposeKeys.map(k => subfields[k] || '').join('');
+    // SEPA purpose lines carry keyed parts (EREF+, MREF+, SVWZ+, ...); SVWZ is the actual remittance text
+    const sepaText = purpose.match(/SVWZ\+(.*?)(?=(?:EREF|KREF|MREF|CRED|DEBT|ABWA|ABWE|IBAN|BIC)\+|$)/);
+    if (sepaText) purpose = sepaText[1];
+
+    return {
+        counterparty: `${subfields['32'] || ''}${subfields['33'] || ''}`.trim(),
+        purpose: purpose.replace(/\s+/g, ' ').trim(),
+        bookingText: (subfields['00'] || '').trim()
+    };
+};
+
+/**
+ * Parses SWIFT MT940 customer statements. Statements (:20: blocks) are grouped by their :25: account,
+ * so a file with daily statements of one account yields a single source.
+ */
+export const parseMt940 = (text: string): ParsedStatement[] => {
+    // Collect tagged fields; untagged lines continue the previous field (SWIFT wraps at 65 chars)
+    const fields: Mt940Field[] = [];
+    text.split(/\r\n|\n|\r/).forEach((rawLine, i) => {
+        const line = rawLine.replace(/^\{[^}]*\}(\{[^}]*\})*(\{4:)?/, ''); // SWIFT envelope headers
+        const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+        if (tagMatch) {
+            fields.push({ tag: tagMatch[1], value: tagMatch[2], line: i + 1 });
+        } else if (line.startsWith('-') || !line.trim()) {
+            return; // Message trailer or blank line
+        } else if (fields.length > 0) {
+            const last = fields[fields.length - 1];
+            // :86: subfields run across lines; free-text lines are separate words
+            last.value += last.tag === '86' && /^\d{3}\?/.test(last.value) ? line : ` ${line}`;
+        }
+    });
+
+    if (!fields.some(f => f.tag === '61' || f.tag === '25')) throw new Error("No MT940 statement found in file");
+
+    const byAccount = new Map<string, ParsedStatement>();
+    let statement: ParsedStatement | null = null;
+    let statementNo = '';
+    let currency: string | undefined;
+    let lastEntry: { transaction: Transaction; raw: string[] } | null = null;
+    let entryIndex = 0;
+
+    const finishEntry = () => {
+        if (lastEntry && statement) statement.transactions.push(lastEntry.transaction);
+        lastEntry = null;
+    };
+
+    fields.forEach(field => {
+        switch (field.tag) {
+            case '20':
+                finishEntry();
+                statement = null;
+                currency = undefined;
+                // Positions count per statement; the reference stands in until :28C: numbers the statement
+                statementNo = field.value.trim();
+                entryIndex = 0;
+                break;
+            case '25': {
+                finishEntry();
+                const accountId = field.value.trim();
+                if (!byAccount.has(accountId)) byAccount.set(accountId, { accountId, transactions: [], failed: [] });
+                statement = byAccount.get(accountId)!;
+                break;
+            }
+            case '28C':
+                statementNo = field.value.trim();
+                entryIndex = 0;
+                break;
+            case '60F':
+            case '60M': {
+                // The opening balance is the only place MT940 states the account currency
+                const match = field.value.match(MT940_BALANCE);
+                currency = match ? match[5] : undefined;
+                if (currency && statement) statement.currency = currency;
+                break;
+            }
+            case '61': {
+                finishEntry();
+                if (!statement) {
+                    const accountId = FALLBACK_ACCOUNT_IDS.mt940;
+                    byAccount.set(accountId, byAccount.get(accountId) || { accountId, transactions: [], failed: [] });
+                    statement = byAccount.get(accountId)!;
+                }
+                const match = field.value.match(MT940_LINE_61);
+                if (!match) {
+                    statement.failed.push({ row: field.line, raw: [field.value], reason: "Unreadable :61: statement line" });
+                    break;
+                }
+                const [, yy, mm, dd, entryDate, mark, , amountRaw, , customerRef, bankRef] = match;
+                const amount = mt940Amount(amountRaw);
+                if (isNaN(amount) || amount === 0) {
+                    statement.failed.push({ row: field.line, raw: [field.value], reason: isNaN(amount) ? "Invalid Date or Amount" : "Zero amount" });
+                    break;
+                }
+
+                // Prefer the booking (entry) date; it shares the value date's year except around New Year
+                let date = mt940Date(yy, mm, dd);
+                if (entryDate) {
+                    const entryMonth = Number(entryDate.slice(0, 2));
+                    let year = 2000 + Number(yy);
+                    if (entryMonth - Number(mm) > 6) year--;
+                    if (Number(mm) - entryMonth > 6) year++;
+                    date = `${year}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`;
+                }
+                // Reversals flip the direction: RC undoes a credit, RD undoes a debit
+                const isCredit = mark === 'C' || mark === 'RD';
+
+                lastEntry = {
+                    raw: [field.value],
+                    transaction: {
+                        // Statement number + position in that statement is stable across imports of any file containing it
+                        id: `mt940-${statement.accountId}-${statementNo || 'x'}-${date}-${entryIndex++}`,
+                        date,
+                        description: [customerRef, bankRef].map(r => r?.trim()).filter(r => r && r !== 'NONREF').join(' ') || 'Unknown',
+                        amount,
+                        type: isCredit ? TransactionType.INCOME : TransactionType.EXPENSE,
+                        category: Category.UNCATEGORIZED,
+                        currency
+                    }
+                };
+                break;
+            }
+            case '86': {
+                if (!lastEntry) break;
+                const details = parseMt940Details(field.value);
+                const description = [details.counterparty, details.purpose].filter(Boolean).join(' - ') || details.bookingText;
+                if (description) lastEntry.transaction.description = description;
+                finishEntry();
+                break;
+            }
+            case '62F':
+            case '62M': {
+                finishEntry();
+                const match = field.value.match(MT940_BALANCE);
+                if (match && statement) {
+                    const amount = mt940Amount(match[6]);
+                    // Later statements in the file overwrite earlier closing balances
+                    statement.balance = { amount: match[1] === 'D' ? -amount : amount, date: mt940Date(match[2], match[3], match[4]) };
+                    statement.currency = match[5];
+                }
+                break;
+            }
+        }
+    });
+    finishEntry();
+
+    return Array.from(byAccount.values());
+};
+
+// --- QIF ---
+
+const QIF_SUPPORTED_TYPES = ['bank', 'ccard', 'cash'];
+
+// QIF dates come as M/D/YY, M/D'YY (Quicken), D.M.YYYY (European exports) or ISO
+const parseQifDate = (value: string): string | null => {
+    const clean = value.trim().replace(/\s+/g, '');
+    const iso = clean.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+
+    const parts = clean.match(/^(\d{1,2})[/.\-](\d{1,2})[/.\-']+(\d{2,4})$/);
+    if (!parts) return null;
+    let [, first, second, year] = parts;
+    // Dots mean day first; slashes are month first unless the first part cannot be a month
+    const dayFirst = clean.includes('.') || Number(first) > 12;
+    const month = dayFirst ? second : first;
+    const day = dayFirst ? first : second;
+    // Old Quicken files reach back into the 1990s
+    if (year.length === 2) year = Number(year) < 50 ? `20${year}` : `19${year}`;
+    // Rejects impossible days such as 2/30
+    const check = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    if (check.getUTCMonth() !== Number(month) - 1 || check.getUTCDate() !== Number(day)) return null;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+const parseQifAmount = (value: string): number => {
+    const clean = value.trim().replace(/[^0-9.,-]/g, '');
+    // 1.234,56 style if the last separator is a comma followed by two digits
+    if (/,\d{1,2}$/.test(clean)) return parseFloat(clean.replace(/\./g, '').replace(',', '.'));
+    return parseFloat(clean.replace(/,/g, ''));
+};
+
+// QIF uses Category:Subcategory; sessions write hierarchies as Category.Subcategory
+const matchQifCategory = (value: string, categories: string[]): string => {
+    const name = value.trim().replace(/:/g, '.');
+    if (!name || name.startsWith('[')) return Category.UNCATEGORIZED; // [Account] marks a transfer
+    return categories.find(c => c.toLowerCase() === name.toLowerCase()) || name;
+};
+
+/**
+ * Parses QIF bank, credit card and cash registers. Each !Account block (Quicken multi-account exports)
+ * becomes its own statement; files without one yield a single statement.
+ * Split lines (S/$/E) become transaction splits; when the parts do not add up, the largest one decides the category.
+ */
+export const parseQif = (text: string, categories: string[]): ParsedStatement[] => {
+    const statements: ParsedStatement[] = [];
+    let current: ParsedStatement | null = null;
+    let section = '';
+    let pendingAccountName = '';
+    let record: Record<string, string> = {};
+    let splits: { category: string; amount: number; note?: string }[] = [];
+    let recordLine = 0;
+    // Occurrences per account, date and amount, so an id does not shift when unrelated records are added
+    const occurrences = new Map<string, number>();
+
+    const statementFor = (accountId: string): ParsedStatement => {
+        let statement = statements.find(st => st.accountId === accountId);
+        if (!statement) {
+            statement = { accountId, transactions: [], failed: [] };
+            statements.push(statement);
+        }
+        return statement;
+    };
+
+    const finishRecord = () => {
+        if (section === 'account') {
+            if (record.N) pendingAccountName = record.N;
+        } else if (QIF_SUPPORTED_TYPES.includes(section) && Object.keys(record).length > 0) {
+            const statement = current || (current = statementFor(pendingAccountName || FALLBACK_ACCOUNT_IDS.qif));
+            const raw = [record.D || '', record.T || record.U || '', record.P || '', record.L || ''];
+            const date = parseQifDate(record.D || '');
+            const amount = parseQifAmount(record.T || record.U || '');
+
+            if (!date || isNaN(amount)) {
+                statement.failed.push({ row: recordLine, raw, reason: "Invalid Date or Amount" });
+            } else if (amount === 0) {
+                statement.failed.push({ row: recordLine, raw, reason: "Zero amount" });
+            } else {
+                const largestSplit = [...splits].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0];
+                const payee = (record.P || '').trim();
+                const memo = (record.M || '').trim();
+                // Split amounts carry the sign of the total; parts are stored in the direction of the transaction
+                const parts = splits.map(sp => ({
+                    category: matchQifCategory(sp.category, categories),
+                    amount: amount < 0 ? -sp.amount : sp.amount,
+                    ...(sp.note ? { note: sp.note } : {})
+                }));
+                const partsAddUp = parts.length > 1 && parts.every(p => !isNaN(p.amount)) && splitRemainder(Math.abs(amount), parts) === 0;
+                const key = `${statement.accountId}-${date}-${amount}`;
+                const occurrence = occurrences.get(key) || 0;
+                occurrences.set(key, occurrence + 1);
+                const transaction: Transaction = {
+                    // QIF has no transaction ids; account + date + amount + occurrence is stable across re-imports
+                    id: `qif-${key}-${occurrence}`,
+                    date,
+                    description: payee && memo && memo !== payee ? `${payee} - ${memo}` : (payee || memo || 'Unknown'),
+                    amount: Math.abs(amount),
+                    type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+                    category: matchQifCategory(largestSplit ? largestSplit.category : (record.L || ''), categories)
+                };
+                statement.transactions.push(partsAddUp ? applySplits(transaction, parts) : transaction);
+            }
+        }
+        record = {};
+        splits = [];
+    };
+
+    text.split(/\r\n|\n|\r/).forEach((rawLine, i) => {
+        const line = rawLine.trimEnd();
+        if (!line) return;
+
+        if (line.startsWith('!')) {
+            finishRecord();
+            const header = line.slice(1).toLowerCase();
+            if (header.startsWith('type:')) {
+                section = header.slice(5).trim();
+                // A register directly after an !Account block belongs to that account
+                current = pendingAccountName ? statementFor(pendingAccountName) : null;
+                pendingAccountName = '';
+            } else if (header === 'account') {
+                section = 'account';
+            } else {
+                section = ''; // !Option:AutoSwitch, !Clear:AutoSwitch, ...
+            }
+            return;
+        }
+        if (line === '^') {
+            finishRecord();
+            return;
         }
+
+        if (Object.keys(record).length === 0 && splits.length === 0) recordLine = i + 1;
+        const code = line[0];
+        const value = line.slice(1);
+        if (code === 'S') splits.push({ category: value, amount: NaN });
+        else if (code === '$' && splits.length > 0) splits[splits.length - 1].amount = parseQifAmount(value);
+        else if (code === 'E' && splits.length > 0) splits[splits.length - 1].note = value.trim() || undefined;
+        else record[code] = value;
     });
+    finishRecord();
+
+    if (statements.length === 0) throw new Error("No bank, credit card or cash register found in QIF file");
+    return statements;
+};
+
+// Dates in QIF exports are written US-style, which every desktop finance tool accepts
+const formatQifDate = (isoDate: string): string => {
+    const [year, month, day] = isoDate.split('-');
+    return `${month}/${day}/${year}`;
+};
+
+/**
+ * Writes transactions as a QIF bank register. Categories are converted back to Category:Subcategory,
+ * and split transactions get one S/E/$ group per part.
+ */
+export const exportQif = (transactions: Transaction[]): string => {
+    const lines = ['!Type:Bank'];
+    [...transactions]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(t => {
+            const signed = signedAmount(t);
+            lines.push(`D${formatQifDate(t.date)}`);
+            lines.push(`T${signed.toFixed(2)}`);
+            lines.push(`P${t.description.replace(/[\r\n]+/g, ' ')}`);
+            if (t.category && t.category !== Category.UNCATEGORIZED) lines.push(`L${t.category.replace(/\./g, ':')}`);
+            if (isSplit(t)) {
+                t.splits!.forEach(part => {
+                    lines.push(`S${part.category === Category.UNCATEGORIZED ? '' : part.category.replace(/\./g, ':')}`);
+                    if (part.note) lines.push(`E${part.note.replace(/[\r\n]+/g, ' ')}`);
+                    lines.push(`$${(Math.sign(signed) * part.amount).toFixed(2)}`);
+                });
+            }
+            lines.push('^');
+        });
+    return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Reads a self-describing statement file (see detectStatementFormat).
+ * Returns null when the file is tabular and must go through column mapping instead.
+ */
+export const readStatementFile = async (file: File, encoding: ImportSettings['encoding'] = 'auto', categories: string[] = []): Promise<ParsedStatement[] | null> => {
+    if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) return null;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const text = decodeText(bytes, !encoding || encoding === 'auto' ? detectEncoding(bytes) : encoding);
+
+    const format = detectStatementFormat(file.name, text.slice(0, 1000));
+    if (format === 'ofx') return parseOfx(text);
+    if (format === 'camt') return parseCamt(text);
+    if (format === 'mt940') return parseMt940(text);
+    if (format === 'qif') return parseQif(text, categories);
+    return null;
+};
+
+// --- Import Profiles ---
+
+/**
+ * Identifies a recurring export layout by its header row. Case, surrounding whitespace and
+ * empty trailing columns are ignored so small cosmetic differences still match.
+ */
+export const computeHeaderFingerprint = (headers: string[]): string => {
+    const normalized = headers.map(h => String(h ?? '').trim().toLowerCase().replace(/\s+/g, ' '));
+    while (normalized.length > 0 && normalized[normalized.length - 1] === '') normalized.pop();
+    return normalized.join('|');
+};
+
+/**
+ * Finds the saved profile whose header fingerprint matches the file. Each profile's own
+ * table layout is used, since delimiter, encoding, sheet and header row decide what the header looks like.
+ */
+export const findMatchingProfile = async (file: File, profiles: ImportProfile[]): Promise<{ profile: ImportProfile; data: RawCsvData } | null> => {
+    const cache = new Map<string, RawCsvData | null>();
+    for (const profile of profiles) {
+        const { delimiter, encoding, sheetName, headerRow } = profile.settings;
+        const key = `${delimiter}|${encoding || 'auto'}|${sheetName || ''}|${headerRow || 'auto'}`;
+        if (!cache.has(key)) {
+            try {
+                cache.set(key, await readCsvPreview(file, profile.settings));
+            } catch (e) {
+                cache.set(key, null);
+            }
+        }
+        const data = cache.get(key);
+        if (data && computeHeaderFingerprint(data.headers) === profile.headerFingerprint) return { profile, data };
+    }
+    return null;
+};
+
+// True when the mapping reads amounts from separate debit/credit columns
+export const usesDebitCreditColumns = (mapping: ColumnMapping): boolean =>
+    (mapping.debitIndex ?? -1) >= 0 || (mapping.creditIndex ?? -1) >= 0;
+
+/**
+ * Signed amount of a row (negative = money out), from either the single amount column
+ * or the debit/credit pair, with the optional sign inversion applied.
+ */
+export const resolveSignedAmount = (row: string[], mapping: ColumnMapping, settings: ImportSettings): number => {
+    let amount: number;
+    if (usesDebitCreditColumns(mapping)) {
+        const debitRaw = (mapping.debitIndex ?? -1) >= 0 ? row[mapping.debitIndex!] : '';
+        const creditRaw = (mapping.creditIndex ?? -1) >= 0 ? row[mapping.creditIndex!] : '';
+        if (String(debitRaw ?? '').trim() === '' && String(creditRaw ?? '').trim() === '') return NaN;
+        // Some banks still put a minus in the debit column, so only the magnitude counts
+        const debit = Math.abs(parseAmount(debitRaw, settings.decimalSeparator) || 0);
+        const credit = Math.abs(parseAmount(creditRaw, settings.decimalSeparator) || 0);
+        amount = credit - debit;
+    } else {
+        amount = parseAmount(row[mapping.amountIndex], settings.decimalSeparator);
+    }
+    return mapping.invertSign ? -amount : amount;
 };
 
 export const parseMappedData = (
     rawData: string[][], 
     mapping: ColumnMapping, 
-    settings: ImportSettings
-): { success: Transaction[], failed: any[] } => {
+    settings: ImportSettings,
+    lineNumbers?: number[]
+): { success: Transaction[], failed: ImportFailure[], balances: BalanceEntry[] } => {
     const success: Transaction[] = [];
-    const failed: any[] = [];
+    const failed: ImportFailure[] = [];
+    const balances: BalanceEntry[] = []; // Only filled when a running balance column is mapped
+    const balanceIndex = mapping.balanceIndex ?? -1;
+
+    // Resolve 'auto' once over the whole column so every row is read the same way
+    const dateFormat = settings.dateFormat === 'auto'
+        ? detectDateFormat(rawData.map(row => row[mapping.dateIndex])).format || 'auto'
+        : settings.dateFormat;
 
     rawData.forEach((row, index) => {
         try {
             // 1. Extract raw values based on index
             const dateRaw = row[mapping.dateIndex];
             const descRaw = row[mapping.descriptionIndex];
-            const amountRaw = row[mapping.amountIndex];
             
             // Optional columns
             const catRaw = mapping.categoryIndex >= 0 ? row[mapping.categoryIndex] : '';
             const typeRaw = mapping.typeIndex >= 0 ? row[mapping.typeIndex] : '';
 
             // 2. Parse Validations
-            const date = parseDate(dateRaw, settings.dateFormat);
-            const amount = parseAmount(amountRaw, settings.decimalSeparator);
+            const date = parseDate(dateRaw, dateFormat);
+            const amount = resolveSignedAmount(row, mapping, settings);
             const description = descRaw ? String(descRaw).trim() : 'Unknown';
 
             if (!date || isNaN(amount)) {
@@ -165,8 +1136,8 @@ export const parseMappedData = (
                 // Infer from sign
                 if (amount > 0) {
                      // In some exports, positive is income, negative is expense.
-                     // But sometimes Expense is positive in a "Debit" column.
-                     // We assume standard banking export: - is expense, + is income.
+                     // Exports where expenses are positive are handled by mapping.invertSign
+                     // or separate debit/credit columns, both already folded into the sign here.
                      type = TransactionType.INCOME;
                 } else {
                      type = TransactionType.EXPENSE;
@@ -178,6 +1149,12 @@ export const parseMappedData = (
 
             if (finalAmount === 0) throw new Error("Zero amount");
 
+            if (balanceIndex >= 0) {
+                const balanceRaw = row[balanceIndex];
+                const balance = String(balanceRaw ?? '').trim() === '' ? NaN : parseAmount(balanceRaw, settings.decimalSeparator);
+                balances.push({ row: lineNumbers?.[index] ?? index + 2, date, amount, balance: isNaN(balance) ? null : balance });
+            }
+
             success.push({
                 id: `imp-${Date.now()}-${index}`,
                 date,
@@ -188,11 +1165,12 @@ export const parseMappedData = (
             });
 
         } catch (e) {
-            failed.push({ row: index + 2, raw: row, reason: (e as Error).message }); // +2 for header and 0-index
+            // Without line numbers, assume one line per record: +2 for header and 0-index
+            failed.push({ row: lineNumbers?.[index] ?? index + 2, raw: row, reason: (e as Error).message });
         }
     });
 
-    return { success, failed };
+    return { success, failed, balances };
 };
 
 // Keep old function for legacy compatibility if needed, or remove.
@@ -201,7 +1179,7 @@ export const parseMappedData = (
 // though the app will switch to readCsvPreview + parseMappedData.
 export const parseFile = async (file: File, settings: ImportSettings): Promise<Transaction[]> => {
     // This function is effectively deprecated by SmartImportModal but kept for fallback
-    const { rows, headers } = await readCsvPreview(file, settings.delimiter);
+    const { rows, headers, lineNumbers } = await readCsvPreview(file, settings);
     // Naive mapping
     const mapping: ColumnMapping = {
         dateIndex: headers.findIndex(h => h.toLowerCase().includes('date') || h.toLowerCase().includes('datum')),
@@ -216,6 +1194,6 @@ export const parseFile = async (file: File, settings: ImportSettings): Promise<T
     if(mapping.descriptionIndex === -1) mapping.descriptionIndex = 1;
     if(mapping.amountIndex === -1) mapping.amountIndex = 2;
 
-    const { success } = parseMappedData(rows, mapping, settings);
+    const { success } = parseMappedData(rows, mapping, settings, lineNumbers);
     return success;
 };
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileBalances, BalanceEntry } from './reconciliation';
+
+// Opening balance 100.00, then -20, +50.10, -30.05
+const oldestFirst: BalanceEntry[] = [
+  { row: 2, date: '2024-01-01', amount: -20, balance: 80 },
+  { row: 3, date: '2024-01-02', amount: 50.1, balance: 130.1 },
+  { row: 4, date: '2024-01-03', amount: -30.05, balance: 100.05 }
+];
+
+const newestFirst: BalanceEntry[] = [
+  { row: 2, date: '2024-01-03', amount: -30.05, balance: 100.05 },
+  { row: 3, date: '2024-01-02', amount: 50.1, balance: 130.1 },
+  { row: 4, date: '2024-01-01', amount: -20, balance: 80 }
+];
+
+describe('reconcileBalances', () => {
+  it('reconciles rows listed oldest-first', () => {
+    expect(reconcileBalances(oldestFirst)).toEqual({
+      order: 'oldest-first',
+      checked: 2,
+      gaps: [],
+      openingBalance: 100,
+      closingBalance: { amount: 100.05, date: '2024-01-03' }
+    });
+  });
+
+  it('reconciles rows listed newest-first', () => {
+    expect(reconcileBalances(newestFirst)).toEqual({
+      order: 'newest-first',
+      checked: 2,
+      gaps: [],
+      openingBalance: 100,
+      closingBalance: { amount: 100.05, date: '2024-01-03' }
+    });
+  });
+
+  it('reports a missing row as a gap worth its amount', () => {
+    const result = reconcileBalances([oldestFirst[0], oldestFirst[2]])!;
+    expect(result.checked).toBe(1);
+    expect(result.gaps).toEqual([{ afterRow: 2, beforeRow: 4, expected: 49.95, actual: 100.05, difference: 50.1 }]);
+  });
+
+  it('carries the balance through rows with an empty balance cell', () => {
+    const entries = oldestFirst.map((e, i) => (i === 1 ? { ...e, balance: null } : e));
+    const result = reconcileBalances(entries)!;
+    expect(result.checked).toBe(1);
+    expect(result.gaps).toEqual([]);
+    expect(result.openingBalance).toBe(100);
+  });
+
+  it('extends the opening and closing balances past rows without one', () => {
+    const entries = oldestFirst.map((e, i) => (i === 1 ? e : { ...e, balance: null }));
+    const result = reconcileBalances(entries)!;
+    expect(result.checked).toBe(0);
+    expect(result.openingBalance).toBe(100);
+    expect(result.closingBalance).toEqual({ amount: 100.05, date: '2024-01-03' });
+  });
+
+  it('returns null when no row has a balance', () => {
+    expect(reconcileBalances(oldestFirst.map(e => ({ ...e, balance: null })))).toBeNull();
+  });
+});
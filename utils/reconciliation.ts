@@ -0,0 +1,89 @@
+// --- Statement Reconciliation ---
+
+export interface BalanceEntry {
+  row: number; // Source line, for messages
+  date: string;
+  amount: number; // Signed, negative = money out
+  balance: number | null; // Running balance printed after this row; null when the cell is empty
+}
+
+export interface BalanceGap {
+  afterRow: number;
+  beforeRow: number;
+  expected: number;
+  actual: number;
+  difference: number; // Sum of the rows that are missing between the two
+}
+
+export interface ReconciliationResult {
+  order: 'oldest-first' | 'newest-first';
+  checked: number; // Balances compared against the running total
+  gaps: BalanceGap[];
+  openingBalance: number | null; // Balance before the first transaction
+  closingBalance: { amount: number; date: string } | null;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Walks the rows oldest-first, carrying the last printed balance forward through rows without one
+const walk = (entries: BalanceEntry[]): { checked: number; gaps: BalanceGap[] } => {
+  let running: number | null = null;
+  let lastRow = 0;
+  let checked = 0;
+  const gaps: BalanceGap[] = [];
+
+  entries.forEach(entry => {
+    if (running !== null) running = roundCents(running + entry.amount);
+    if (entry.balance === null) return;
+    if (running !== null) {
+      checked++;
+      if (Math.abs(running - entry.balance) >= 0.005) {
+        gaps.push({
+          afterRow: lastRow,
+          beforeRow: entry.row,
+          expected: running,
+          actual: entry.balance,
+          difference: roundCents(entry.balance - running)
+        });
+      }
+    }
+    running = entry.balance;
+    lastRow = entry.row;
+  });
+
+  return { checked, gaps };
+};
+
+/**
+ * Checks that every printed running balance equals the previous balance plus the signed
+ * amounts in between. Exports list rows either oldest- or newest-first, so both orders are
+ * tried and the one with fewer gaps wins. Returns null when no row carries a balance.
+ */
+export const reconcileBalances = (entries: BalanceEntry[]): ReconciliationResult | null => {
+  const withBalance = entries.filter(e => e.balance !== null);
+  if (withBalance.length === 0) return null;
+
+  const forward = walk(entries);
+  const reversed = [...entries].reverse();
+  const backward = walk(reversed);
+  const newestFirst = backward.gaps.length < forward.gaps.length;
+  const chronological = newestFirst ? reversed : entries;
+  const { checked, gaps } = newestFirst ? backward : forward;
+
+  const first = chronological.find(e => e.balance !== null)!;
+  const firstIndex = chronological.indexOf(first);
+  const amountsUpToFirst = chronological.slice(0, firstIndex + 1).reduce((sum, e) => sum + e.amount, 0);
+  const last = [...chronological].reverse().find(e => e.balance !== null)!;
+  const amountsAfterLast = chronological.slice(chronological.indexOf(last) + 1).reduce((sum, e) => sum + e.amount, 0);
+
+  return {
+    order: newestFirst ? 'newest-first' : 'oldest-first',
+    checked,
+    gaps,
+    openingBalance: roundCents(first.balance! - amountsUpToFirst),
+    closingBalance: {
+      amount: roundCents(last.balance! + amountsAfterLast),
+      date: chronological[chronological.length - 1].date
+    }
+  };
+};
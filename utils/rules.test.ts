@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { conditionMatches, conditionError, ruleMatches, describeRule, ruleSignature, createDescriptionRule, applyRules, applyRulesToTransactions, findRuleConflicts, sortRulesBySpecificity } from './rules';
+import { CategorizationRule, RuleCondition, Transaction, TransactionType } from '../types';
+
+// Saturday
+const coffee: Transaction = {
+  id: 't1', date: '2024-03-09', description: 'Starbucks Berlin', amount: 4.5, type: TransactionType.EXPENSE,
+  category: 'Uncategorized', source: 'Amex Gold', tags: ['trip']
+};
+
+const matches = (condition: RuleCondition, t: Transaction = coffee) => conditionMatches(condition, t);
+
+describe('conditionMatches', () => {
+  it('compares text case-insensitively', () => {
+    expect(matches({ field: 'description', operator: 'contains', value: 'BUCKS' })).toBe(true);
+    expect(matches({ field: 'description', operator: 'startsWith', value: 'star' })).toBe(true);
+    expect(matches({ field: 'description', operator: 'equals', value: 'starbucks' })).toBe(false);
+    expect(matches({ field: 'description', operator: 'regex', value: '^star.*berlin$' })).toBe(true);
+    expect(matches({ field: 'source', operator: 'is', value: 'amex gold' })).toBe(true);
+  });
+
+  it('never matches an invalid regex', () => {
+    expect(matches({ field: 'description', operator: 'regex', value: '(' })).toBe(false);
+  });
+
+  it('compares amounts, including an inclusive range in either order', () => {
+    expect(matches({ field: 'amount', operator: 'lt', value: '5' })).toBe(true);
+    expect(matches({ field: 'amount', operator: 'between', value: '10', value2: '4,5' })).toBe(true);
+    expect(matches({ field: 'amount', operator: 'equals', value: '4.50' })).toBe(true);
+  });
+
+  it('compares dates, weekdays, types and tags', () => {
+    expect(matches({ field: 'date', operator: 'between', value: '2024-03-01', value2: '2024-03-09' })).toBe(true);
+    expect(matches({ field: 'date', operator: 'before', value: '2024-03-09' })).toBe(false);
+    expect(matches({ field: 'weekday', operator: 'in', value: '0,6' })).toBe(true);
+    expect(matches({ field: 'type', operator: 'is', value: TransactionType.INCOME })).toBe(false);
+    expect(matches({ field: 'tags', operator: 'has', value: '#Trip' })).toBe(true);
+    expect(matches({ field: 'tags', operator: 'lacks', value: 'trip' })).toBe(false);
+  });
+});
+
+describe('conditionError', () => {
+  it('explains conditions that cannot be evaluated', () => {
+    expect(conditionError({ field: 'amount', operator: 'between', value: '5' })).toBe('Amount range needs an upper bound');
+    expect(conditionError({ field: 'type', operator: 'gt', value: 'x' })).toBe('"gt" does not apply to type');
+    expect(conditionError({ field: 'weekday', operator: 'in', value: '' })).toBe('Pick at least one weekday');
+    expect(conditionError({ field: 'date', operator: 'after', value: '2024-03-01' })).toBeNull();
+  });
+});
+
+describe('ruleMatches', () => {
+  const rule = (match: 'all' | 'any', conditions: RuleCondition[]): CategorizationRule => ({ id: 'r', match, category: 'Food', conditions });
+  const isAmex: RuleCondition = { field: 'source', operator: 'contains', value: 'amex' };
+  const isLarge: RuleCondition = { field: 'amount', operator: 'gt', value: '500' };
+
+  it('combines conditions with AND or OR', () => {
+    expect(ruleMatches(rule('all', [isAmex, isLarge]), coffee)).toBe(false);
+    expect(ruleMatches(rule('any', [isAmex, isLarge]), coffee)).toBe(true);
+  });
+
+  it('never matches without conditions', () => {
+    expect(ruleMatches(rule('all', []), coffee)).toBe(false);
+  });
+
+  it('matches regex conditions on the source and skips invalid ones silently', () => {
+    const warn = vi.spyOn(console, 'warn');
+    expect(ruleMatches(rule('all', [{ field: 'source', operator: 'regex', value: 'gold$' }]), coffee)).toBe(true);
+    expect(ruleMatches(rule('any', [{ field: 'description', operator: 'regex', value: '(' }]), coffee)).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('describes the rule for lists and history labels', () => {
+    expect(describeRule(rule('all', [isAmex, isLarge]))).toBe('source contains "amex" AND amount more than 500');
+  });
+});
+
+describe('ruleSignature', () => {
+  it('ignores condition order, case and the target category', () => {
+    const a = createDescriptionRule('Uber', 'Transportation');
+    const b = { ...createDescriptionRule('uber', 'Food & Dining'), addTags: ['x'] };
+    expect(ruleSignature(a)).toBe(ruleSignature(b));
+    expect(ruleSignature(a)).not.toBe(ruleSignature(createDescriptionRule('uber', 'Transportation', true)));
+  });
+});
+
+describe('applyRules', () => {
+  const byDescription = { ...createDescriptionRule('starbucks', 'Food & Dining'), id: 'food', addTags: ['coffee'] };
+  const byCard = { id: 'travel', match: 'all' as const, category: 'Travel', addTags: ['amex'], conditions: [{ field: 'source' as const, operator: 'contains' as const, value: 'amex' }] };
+
+  it('applies only the highest matching rule in first-match mode', () => {
+    const result = applyRules(coffee, [byCard, byDescription], 'first');
+    expect(result.category).toBe('Travel');
+    expect(result.tags).toEqual(['trip', 'amex']);
+  });
+
+  it('lets the highest rule set the category and every match add tags in all-match mode', () => {
+    const result = applyRules(coffee, [byDescription, byCard], 'all');
+    expect(result.category).toBe('Food & Dining');
+    expect(result.tags).toEqual(['trip', 'coffee', 'amex']);
+  });
+
+  it('returns the same transaction when nothing changes', () => {
+    const done = { ...coffee, category: 'Food & Dining', tags: ['trip', 'coffee', 'amex'] };
+    expect(applyRules(done, [byDescription, byCard], 'all')).toBe(done);
+    const unmatched = { ...coffee, description: 'Rent', source: 'Checking' };
+    expect(applyRulesToTransactions([unmatched], [byDescription, byCard], 'first')[0]).toBe(unmatched);
+  });
+
+  it('keeps the categories of split transactions but still adds tags', () => {
+    const split = { ...coffee, splits: [{ category: 'A', amount: 2 }, { category: 'B', amount: 2.5 }], category: 'B' };
+    const result = applyRules(split, [byDescription], 'first');
+    expect(result.category).toBe('B');
+    expect(result.tags).toEqual(['trip', 'coffee']);
+  });
+});
+
+describe('sortRulesBySpecificity', () => {
+  it('puts rules with more conditions, then longer text, first', () => {
+    const short = { ...createDescriptionRule('uber', 'Transportation'), id: 'short' };
+    const long = { ...createDescriptionRule('uber eats', 'Food & Dining'), id: 'long' };
+    const combined = { ...short, id: 'combined', conditions: [...short.conditions, { field: 'amount' as const, operator: 'gt' as const, value: '50' }] };
+    expect(sortRulesBySpecificity([short, long, combined]).map(r => r.id)).toEqual(['combined', 'long', 'short']);
+  });
+});
+
+describe('findRuleConflicts', () => {
+  const food = { ...createDescriptionRule('starbucks', 'Food & Dining'), id: 'food' };
+  const travel = { ...createDescriptionRule('berlin', 'Travel'), id: 'travel' };
+  const alsoFood = { ...createDescriptionRule('bucks', 'Food & Dining'), id: 'also-food' };
+
+  it('groups transactions matched by rules that set different categories', () => {
+    const other = { ...coffee, id: 't2' };
+    const [conflict, ...rest] = findRuleConflicts([coffee, other], [travel, food]);
+    expect(rest).toEqual([]);
+    expect(conflict.rules.map(r => r.id)).toEqual(['travel', 'food']);
+    expect(conflict.transactions).toEqual([coffee, other]);
+  });
+
+  it('ignores overlaps that agree on the category and split transactions', () => {
+    expect(findRuleConflicts([coffee], [food, alsoFood])).toEqual([]);
+    const split = { ...coffee, splits: [{ category: 'A', amount: 2 }, { category: 'B', amount: 2.5 }] };
+    expect(findRuleConflicts([split], [travel, food])).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+import { Transaction, TransactionType, CategorizationRule, RuleCondition, RuleField, RuleOperator, RuleMatchMode } from "../types";
+import { isSplit, retag, normalizeTag } from "./transactions";
+
+// --- Rule Conditions ---
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  description: 'Description',
+  amount: 'Amount',
+  type: 'Type',
+  source: 'Source',
+  date: 'Date',
+  weekday: 'Weekday',
+  tags: 'Tags'
+};
+
+/** Operators offered per field; the first one is the default for a new condition. */
+export const RULE_OPERATORS: Record<RuleField, RuleOperator[]> = {
+  description: ['contains', 'startsWith', 'equals', 'regex'],
+  amount: ['gt', 'lt', 'between', 'equals'],
+  type: ['is'],
+  source: ['is', 'contains'],
+  date: ['after', 'before', 'between'],
+  weekday: ['in'],
+  tags: ['has', 'lacks']
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: 'contains',
+  startsWith: 'starts with',
+  equals: 'equals',
+  regex: 'matches regex',
+  is: 'is',
+  gt: 'more than',
+  lt: 'less than',
+  between: 'between',
+  before: 'before',
+  after: 'after',
+  in: 'is one of',
+  has: 'has tag',
+  lacks: 'lacks tag'
+};
+
+// Index = Date.getUTCDay()
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const createCondition = (field: RuleField = 'description'): RuleCondition => ({
+  field,
+  operator: RULE_OPERATORS[field][0],
+  value: field === 'type' ? TransactionType.EXPENSE : ''
+});
+
+/** The classic rule: description contains a keyword (or matches a regex). */
+export const createDescriptionRule = (keyword: string, category: string, isRegex = false): CategorizationRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+  conditions: [{ field: 'description', operator: isRegex ? 'regex' : 'contains', value: keyword }],
+  match: 'all',
+  category
+});
+
+/** Keyword of a rule that only looks at the description, or null for rules with other conditions. */
+export const keywordOfRule = (rule: CategorizationRule): { keyword: string; isRegex: boolean } | null => {
+  if (rule.conditions.length !== 1) return null;
+  const [c] = rule.conditions;
+  if (c.field !== 'description' || (c.operator !== 'contains' && c.operator !== 'regex')) return null;
+  return { keyword: c.value, isRegex: c.operator === 'regex' };
+};
+
+/** Identifies rules with the same conditions regardless of order, case or target category. */
+export const ruleSignature = (rule: CategorizationRule): string => {
+  const conditions = rule.conditions
+    .map(c => [c.field, c.operator, c.operator === 'regex' ? c.value : c.value.toLowerCase(), c.value2 ?? ''].join(':'))
+    .sort();
+  return `${conditions.length > 1 ? rule.match : 'all'}|${conditions.join('|')}`;
+};
+
+const parseAmount = (value: string): number => parseFloat(value.replace(',', '.'));
+
+const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const parseWeekdays = (value: string): number[] =>
+  value.split(',').map(v => parseInt(v, 10)).filter(d => d >= 0 && d <= 6);
+
+/** Problem with a condition's values, or null when it can be evaluated. */
+export const conditionError = (c: RuleCondition): string | null => {
+  if (!RULE_OPERATORS[c.field]?.includes(c.operator)) return `"${c.operator}" does not apply to ${c.field}`;
+  if (c.field !== 'weekday' && !c.value.trim()) return `${RULE_FIELD_LABELS[c.field]} needs a value`;
+  if (c.operator === 'regex') {
+    try {
+      new RegExp(c.value, 'i');
+    } catch (e) {
+      return `Invalid regex: ${c.value}`;
+    }
+  }
+  if (c.field === 'amount') {
+    if (isNaN(parseAmount(c.value))) return `"${c.value}" is not an amount`;
+    if (c.operator === 'between' && isNaN(parseAmount(c.value2 ?? ''))) return 'Amount range needs an upper bound';
+  }
+  if (c.field === 'date') {
+    if (!ISO_DATE.test(c.value)) return `"${c.value}" is not a YYYY-MM-DD date`;
+    if (c.operator === 'between' && !ISO_DATE.test(c.value2 ?? '')) return 'Date range needs an end date';
+  }
+  if (c.field === 'weekday' && parseWeekdays(c.value).length === 0) return 'Pick at least one weekday';
+  if (c.field === 'type' && !(Object.values(TransactionType) as string[]).includes(c.value)) return `"${c.value}" is not a transaction type`;
+  return null;
+};
+
+// Invalid patterns never match; saving a rule already rejects them (see conditionError)
+const compileRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (e) {
+    return null;
+  }
+};
+
+const matchesText = (text: string, c: RuleCondition): boolean => {
+  const haystack = text.toLowerCase();
+  const needle = c.value.toLowerCase();
+  switch (c.operator) {
+    case 'contains': return haystack.includes(needle);
+    case 'startsWith': return haystack.startsWith(needle);
+    case 'equals':
+    case 'is': return haystack.trim() === needle.trim();
+    case 'regex': return compileRegex(c.value)?.test(text) ?? false;
+    default: return false;
+  }
+};
+
+export const conditionMatches = (c: RuleCondition, t: Transaction): boolean => {
+  switch (c.field) {
+    case 'description':
+      return matchesText(t.description, c);
+    case 'source':
+      return matchesText(t.source || '', c);
+    case 'type':
+      return t.type === c.value;
+    case 'amount': {
+      const value = parseAmount(c.value);
+      if (isNaN(value)) return false;
+      if (c.operator === 'gt') return t.amount > value;
+      if (c.operator === 'lt') return t.amount < value;
+      if (c.operator === 'equals') return Math.abs(t.amount - value) < 0.005;
+      const upper = parseAmount(c.value2 ?? '');
+      return !isNaN(upper) && t.amount >= Math.min(value, upper) && t.amount <= Math.max(value, upper);
+    }
+    case 'date':
+      // ISO dates compare correctly as strings
+      if (c.operator === 'after') return t.date > c.value;
+      if (c.operator === 'before') return t.date < c.value;
+      return !!c.value2 && t.date >= c.value && t.date <= c.value2;
+    case 'weekday':
+      return parseWeekdays(c.value).includes(weekdayOf(t.date));
+    case 'tags': {
+      const has = (t.tags || []).includes(normalizeTag(c.value));
+      return c.operator === 'has' ? has : !has;
+    }
+    default:
+      return false;
+  }
+};
+
+type TransactionTest = (t: Transaction) => boolean;
+
+// Regex conditions are compiled here once instead of for every transaction they are tested against
+const compileCondition = (c: RuleCondition): TransactionTest => {
+  if (c.operator !== 'regex') return t => conditionMatches(c, t);
+  const regex = compileRegex(c.value);
+  if (!regex) return () => false;
+  return t => regex.test(c.field === 'source' ? t.source || '' : t.description);
+};
+
+/** Rules without conditions never match, so a half-built rule cannot recategorize everything. */
+const compileRule = (rule: CategorizationRule): TransactionTest => {
+  const tests = rule.conditions.map(compileCondition);
+  if (tests.length === 0) return () => false;
+  return rule.match === 'any' ? t => tests.some(test => test(t)) : t => tests.every(test => test(t));
+};
+
+export const ruleMatches = (rule: CategorizationRule, t: Transaction): boolean => compileRule(rule)(t);
+
+/**
+ * Compiles the rules once for checking many transactions. The returned function lists the rules
+ * matching a transaction in priority order; with `firstOnly` it stops at the first match.
+ */
+export const createRuleMatcher = (rules: CategorizationRule[]) => {
+  const compiled = rules.map(rule => ({ rule, test: compileRule(rule) }));
+  return (t: Transaction, firstOnly = false): CategorizationRule[] => {
+    if (!firstOnly) return compiled.filter(c => c.test(t)).map(c => c.rule);
+    const first = compiled.find(c => c.test(t));
+    return first ? [first.rule] : [];
+  };
+};
+
+export const describeCondition = (c: RuleCondition): string => {
+  const field = RULE_FIELD_LABELS[c.field].toLowerCase();
+  const operator = RULE_OPERATOR_LABELS[c.operator];
+  if (c.field === 'weekday') return `${field} ${operator} ${parseWeekdays(c.value).map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  if (c.field === 'tags') return `${operator} #${normalizeTag(c.value)}`;
+  if (c.operator === 'between') return `${field} ${operator} ${c.value} and ${c.value2 ?? '?'}`;
+  if (c.field === 'amount' || c.field === 'date' || c.field === 'type') return `${field} ${operator} ${c.value}`;
+  return `${field} ${operator} "${c.value}"`;
+};
+
+/** e.g. `source is "Amex" AND amount more than 500` */
+export const describeRule = (rule: CategorizationRule): string =>
+  rule.conditions.map(describeCondition).join(rule.match === 'any' ? ' OR ' : ' AND ') || 'no conditions';
+
+// --- Categorization Rules ---
+// Rules are kept in priority order: the first matching rule in the list wins the category.
+
+// AND rules get more specific with every condition; an OR rule is as specific as its loosest condition
+const ruleSpecificity = (rule: CategorizationRule): number => {
+  const textLength = rule.conditions.reduce((sum, c) => sum + (c.field === 'description' ? c.value.length : 0), 0);
+  const conditionCount = rule.match === 'any' ? 1 : rule.conditions.length;
+  return conditionCount * 1000 + textLength;
+};
+
+/** More conditions, then longer description text, first. The order rules had before priorities were explicit. */
+export const sortRulesBySpecificity = (rules: CategorizationRule[]): CategorizationRule[] =>
+  [...rules].sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a));
+
+/** Highest-priority rule matching the transaction. */
+export const findMatchingRule = (t: Transaction, rules: CategorizationRule[]): CategorizationRule | undefined =>
+  createRuleMatcher(rules)(t, true)[0];
+
+/**
+ * Sets the rule's category and adds its tags. Splits keep their categories because they were
+ * set by hand and would be lost if a rule replaced the category; tags still apply.
+ */
+export const applyRule = (t: Transaction, rule: CategorizationRule): Transaction => {
+  const categorized = isSplit(t) || t.category === rule.category ? t : { ...t, category: rule.category };
+  return rule.addTags?.length ? retag(categorized, rule.addTags) : categorized;
+};
+
+/**
+ * Prepares the rules for a batch: the returned function applies the matching rules according to
+ * the mode. Unchanged transactions are returned as is.
+ */
+export const createRuleApplier = (rules: CategorizationRule[], mode: RuleMatchMode) => {
+  const match = createRuleMatcher(rules);
+  return (t: Transaction): Transaction => {
+    const matching = match(t, mode === 'first');
+    if (matching.length === 0) return t;
+    if (matching.length === 1) return applyRule(t, matching[0]);
+    return applyRule(t, { ...matching[0], addTags: matching.flatMap(r => r.addTags || []) });
+  };
+};
+
+/** Applies the rules to one transaction; use createRuleApplier when going through many. */
+export const applyRules = (t: Transaction, rules: CategorizationRule[], mode: RuleMatchMode): Transaction =>
+  createRuleApplier(rules, mode)(t);
+
+export const applyRulesToTransactions = (transactions: Transaction[], rules: CategorizationRule[], mode: RuleMatchMode): Transaction[] => {
+  if (rules.length === 0) return transactions;
+  return transactions.map(createRuleApplier(rules, mode));
+};
+
+// --- Conflicts ---
+
+export interface RuleConflict {
+  rules: CategorizationRule[]; // Matching rules in priority order; the first one wins
+  transactions: Transaction[];
+}
+
+/**
+ * Transactions matched by rules that set different categories, grouped by the set of rules involved.
+ * Splits are left out because rules never change their categories.
+ */
+export const findRuleConflicts = (transactions: Transaction[], rules: CategorizationRule[]): RuleConflict[] => {
+  const conflicts = new Map<string, RuleConflict>();
+  const match = createRuleMatcher(rules);
+  transactions.forEach(t => {
+    if (isSplit(t)) return;
+    const matching = match(t);
+    if (new Set(matching.map(r => r.category)).size < 2) return;
+    const key = matching.map(r => r.id).join('|');
+    const conflict = conflicts.get(key);
+    if (conflict) conflict.transactions.push(t);
+    else conflicts.set(key, { rules: matching, transactions: [t] });
+  });
+  return Array.from(conflicts.values()).sort((a, b) => b.transactions.length - a.transactions.length);
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateSession, validateSession, parseSessionData, upgradeStoredSession } from './sessionSchema';
+
+// A backup from before schema versioning: only transactions and plain category names
+const legacyBackup = () => ({
+  id: 'legacy',
+  name: 'Old backup',
+  transactions: [
+    { id: 't1', date: '2024-01-05', description: 'Rent', amount: 900, type: 'EXPENSE', category: 'Housing', source: 'Checking' }
+  ],
+  categories: ['Housing', 'Utilities.Water'],
+  rules: [
+    { id: 'r1', keyword: 'uber', category: 'Transportation' },
+    { id: 'r2', keyword: 'uber eats', category: 'Food & Dining' }
+  ],
+  importSettings: { delimiter: ',', dateFormat: 'MM/DD/YYYY', decimalSeparator: '.' }
+});
+
+describe('migrateSession', () => {
+  it('upgrades a pre-versioning backup to a valid current session', () => {
+    const session = migrateSession(legacyBackup());
+    expect(session.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(session.sources).toEqual(['Checking']);
+    expect(session.displayLocale).toBe('en-US');
+    expect(session.categories.map(c => c.name)).toEqual(['Housing', 'Utilities.Water']);
+    expect(session.ruleMatchMode).toBe('first');
+    expect(session.dashboardWidgets.some(w => w.type === 'tags')).toBe(true);
+  });
+
+  it('turns keyword rules into description conditions, more specific first', () => {
+    const session = migrateSession(legacyBackup());
+    expect(session.rules.map(r => r.id)).toEqual(['r2', 'r1']);
+    expect(session.rules[1]).toEqual({
+      id: 'r1',
+      category: 'Transportation',
+      match: 'all',
+      conditions: [{ field: 'description', operator: 'contains', value: 'uber' }]
+    });
+  });
+
+  it('leaves its input untouched', () => {
+    const backup = legacyBackup();
+    const copy = JSON.parse(JSON.stringify(backup));
+    migrateSession(backup);
+    expect(backup).toEqual(copy);
+  });
+
+  it('rejects sessions from a newer version', () => {
+    expect(() => migrateSession({ ...legacyBackup(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+  });
+
+  it('rejects data that is not a valid session', () => {
+    expect(() => migrateSession(null)).toThrow(/expected object/);
+    expect(() => migrateSession({ ...legacyBackup(), transactions: 'none' })).toThrow(/session\.transactions: expected array/);
+  });
+});
+
+describe('validateSession', () => {
+  it('reports each issue with the path of the offending field', () => {
+    const session = migrateSession(legacyBackup());
+    const broken = {
+      ...session,
+      transactions: [
+        { ...session.transactions[0], type: 'REFUND' },
+        { ...session.transactions[0], id: 't2', splits: [{ category: 'Housing', amount: 100 }, { category: 'Utilities', amount: 100 }] }
+      ],
+      rules: [{ ...session.rules[0], conditions: [{ field: 'amount', operator: 'contains', value: '5' }] }]
+    };
+    expect(validateSession(broken)).toEqual([
+      'transactions[0].type: expected one of INCOME, EXPENSE, TRANSFER, got "REFUND"',
+      'transactions[1].splits: parts sum to 200.00, expected 900.00',
+      'rules[0].conditions[0].operator: expected one of gt, lt, between, equals, got "contains"'
+    ]);
+  });
+});
+
+describe('parseSessionData', () => {
+  it('returns errors instead of throwing', () => {
+    const result = parseSessionData({ ...legacyBackup(), schemaVersion: 99 });
+    expect(result.session).toBeNull();
+    expect(result.errors[0]).toMatch(/schema v99/);
+  });
+});
+
+describe('upgradeStoredSession', () => {
+  it('keeps stored sessions with validation issues and reports them', () => {
+    const { session, issues } = upgradeStoredSession({ ...legacyBackup(), name: 42 });
+    expect(session.id).toBe('legacy');
+    expect(issues).toEqual(['session.name: expected string, got number']);
+  });
+
+  it('throws when a stored record cannot be upgraded', () => {
+    expect(() => upgradeStoredSession({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,469 @@
+import { Session, CategorizationRule, CategoryDefinition, ImportSettings, DateFormat, TransactionType, DEFAULT_IMPORT_SETTINGS, DEFAULT_DASHBOARD_WIDGETS } from '../types';
+import { DEFAULT_BASE_CURRENCY } from './currency';
+import { localeFromImportSettings } from './format';
+import { defineCategory } from './categories';
+import { RULE_OPERATORS, sortRulesBySpecificity } from './rules';
+
+/**
+ * Version of the Session shape written by this build.
+ * Bump it together with a new entry in MIGRATIONS whenever a field is added, renamed or restructured.
+ */
+export const CURRENT_SCHEMA_VERSION = 8;
+
+// Untrusted session data while it is migrated and validated; only validateSession makes it a Session
+type SessionRecord = Record<string, unknown>;
+
+type Migration = (data: SessionRecord) => SessionRecord;
+
+const isRecord = (value: unknown): value is SessionRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Import settings as far as they can be read, for seeding values derived from them
+const importSettingsOf = (data: SessionRecord): ImportSettings => {
+  const stored = isRecord(data.importSettings) ? data.importSettings : {};
+  return {
+    ...DEFAULT_IMPORT_SETTINGS,
+    ...stored,
+    dateFormat: DATE_FORMATS.find(f => f === stored.dateFormat) ?? DEFAULT_IMPORT_SETTINGS.dateFormat,
+    decimalSeparator: stored.decimalSeparator === '.' ? '.' : stored.decimalSeparator === ',' ? ',' : DEFAULT_IMPORT_SETTINGS.decimalSeparator
+  };
+};
+
+// Rules whose conditions can be ordered by specificity; anything else is left for validation to report
+const isSortableRule = (rule: unknown): rule is CategorizationRule =>
+  isRecord(rule) && Array.isArray(rule.conditions) && rule.conditions.every(c => isRecord(c) && typeof c.value === 'string');
+
+// MIGRATIONS[n] upgrades a session object from version n to n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 -> v1: backups written before versioning. Collections were added over time, so any may be missing.
+  0: (data) => {
+    const sourcesFromTransactions = Array.isArray(data.transactions)
+      ? Array.from(new Set(data.transactions.map(t => isRecord(t) ? t.source : undefined).filter(src => typeof src === 'string' && src)))
+      : [];
+    return {
+      ...data,
+      id: data.id ?? `session-${Date.now()}`,
+      name: data.name ?? 'Imported Session',
+      rules: data.rules ?? [],
+      assets: data.assets ?? [],
+      goals: data.goals ?? [],
+      sources: data.sources ?? sourcesFromTransactions,
+      dashboardWidgets: data.dashboardWidgets ?? DEFAULT_DASHBOARD_WIDGETS.map(w => ({ ...w })),
+      importSettings: { ...DEFAULT_IMPORT_SETTINGS, ...(isRecord(data.importSettings) ? data.importSettings : {}) },
+      createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+      schemaVersion: 1
+    };
+  },
+  // v1 -> v2: saved import profiles
+  1: (data) => ({
+    ...data,
+    importProfiles: data.importProfiles ?? [],
+    schemaVersion: 2
+  }),
+  // v2 -> v3: multi-currency. Existing amounts carry no code and are read as the base currency.
+  2: (data) => ({
+    ...data,
+    baseCurrency: data.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+    exchangeRates: data.exchangeRates ?? [],
+    schemaVersion: 3
+  }),
+  // v3 -> v4: display locale, seeded from the number and date habits in the import settings
+  3: (data) => ({
+    ...data,
+    displayLocale: data.displayLocale ?? localeFromImportSettings(importSettingsOf(data)),
+    schemaVersion: 4
+  }),
+  // v4 -> v5: tags, with a standard widget for spending per tag
+  4: (data) => {
+    const widgets = Array.isArray(data.dashboardWidgets) ? data.dashboardWidgets : [];
+    const tagsWidget = DEFAULT_DASHBOARD_WIDGETS.find(w => w.type === 'tags')!;
+    return {
+      ...data,
+      dashboardWidgets: widgets.some(w => isRecord(w) && w.type === 'tags') ? widgets : [...widgets, { ...tagsWidget }],
+      schemaVersion: 5
+    };
+  },
+  // v5 -> v6: categories become definitions with color, icon and essential/fixed flags
+  5: (data) => {
+    if (!Array.isArray(data.categories)) return { ...data, schemaVersion: 6 };
+    const categories = data.categories.reduce<unknown[]>((defined, c) => {
+      if (typeof c !== 'string') return [...defined, c]; // Left for validation to report
+      const existing = defined.filter((d): d is CategoryDefinition => isRecord(d) && typeof d.name === 'string');
+      return [...defined, defineCategory(c, existing)];
+    }, []);
+    return { ...data, categories, schemaVersion: 6 };
+  },
+  // v6 -> v7: rules become condition lists; a keyword rule is a single description condition
+  6: (data) => ({
+    ...data,
+    rules: Array.isArray(data.rules)
+      ? data.rules.map(r => {
+          if (!isRecord(r) || typeof r.keyword !== 'string') return r; // Left for validation to report
+          const { keyword, isRegex, ...rest } = r;
+          return { ...rest, match: 'all', conditions: [{ field: 'description', operator: isRegex ? 'regex' : 'contains', value: keyword }] };
+        })
+      : data.rules,
+    schemaVersion: 7
+  }),
+  // v7 -> v8: rule priority becomes the list order, seeded from the specificity order used until now
+  7: (data) => ({
+    ...data,
+    rules: Array.isArray(data.rules) && data.rules.every(isSortableRule) ? sortRulesBySpecificity(data.rules) : data.rules,
+    ruleMatchMode: data.ruleMatchMode ?? 'first',
+    schemaVersion: 8
+  })
+};
+
+/**
+ * Upgrades a raw session object step by step to CURRENT_SCHEMA_VERSION without checking the result.
+ * Throws if it is not an object or newer than this build understands.
+ */
+const upgradeSession = (raw: unknown): SessionRecord => {
+  if (!isRecord(raw)) throw new Error(`session: expected object, got ${describe(raw)}`);
+  let data = raw;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Backup was created by a newer version of the app (schema v${version}, supported up to v${CURRENT_SCHEMA_VERSION}).`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration available from schema v${version}`);
+    data = migrate(data);
+    version = data.schemaVersion as number;
+  }
+  return data;
+};
+
+/**
+ * Upgrades a raw session object (stored or from a backup) to CURRENT_SCHEMA_VERSION and validates it.
+ * Throws if the data is newer than this build understands or not a valid session afterwards.
+ */
+export const migrateSession = (raw: unknown): Session => {
+  const { session, errors } = parseSessionData(raw);
+  if (!session) throw new Error(`Invalid session:\n${formatValidationErrors(errors)}`);
+  return session;
+};
+
+/**
+ * Upgrades a session record written by this app. Unlike backups, our own stored data is kept even when
+ * validation complains, so nothing disappears over a minor issue; the issues are returned for logging.
+ * Throws only when the record cannot be upgraded at all.
+ */
+export const upgradeStoredSession = (raw: unknown): { session: Session; issues: string[] } => {
+  const upgraded = upgradeSession(raw);
+  return { session: upgraded as unknown as Session, issues: validateSession(upgraded) };
+};
+
+// --- Validation ---
+
+const TRANSACTION_TYPES = Object.values(TransactionType) as string[];
+const ASSET_TYPES = ['Cash', 'Stock', 'Crypto', 'Real Estate', 'Other'];
+const GOAL_TYPES = ['GOAL', 'POCKET'];
+const RULE_FIELDS = ['description', 'amount', 'type', 'source', 'date', 'weekday', 'tags'];
+const WIDGET_TYPES = ['net-worth', 'assets', 'cash-flow', 'spending', 'sankey', 'tags', 'custom'];
+const DATE_FORMATS: DateFormat[] = ['auto', 'YYYY-MM-DD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'DD-MM-YYYY', 'MM/DD/YYYY', 'YYYY/MM/DD', 'YYYYMMDD', 'DD MMM YYYY'];
+const ENCODINGS = ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1', 'iso-8859-15'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// Small collector so each check can report the exact path of the offending field
+const createIssueCollector = () => {
+  const issues: string[] = [];
+
+  const add = (path: string, message: string) => {
+    issues.push(`${path}: ${message}`);
+  };
+
+  const string = (obj: SessionRecord, key: string, path: string, options: { optional?: boolean; nonEmpty?: boolean } = {}) => {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (typeof value !== 'string') add(`${path}.${key}`, `expected string, got ${describe(value)}`);
+    else if (options.nonEmpty && !value.trim()) add(`${path}.${key}`, 'must not be empty');
+  };
+
+  const number = (obj: SessionRecord, key: string, path: string, options: { optional?: boolean; min?: number } = {}) => {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) add(`${path}.${key}`, `expected number, got ${describe(value)}`);
+    else if (options.min !== undefined && value < options.min) add(`${path}.${key}`, `must be >= ${options.min}`);
+  };
+
+  const boolean = (obj: SessionRecord, key: string, path: string, options: { optional?: boolean } = {}) => {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (typeof value !== 'boolean') add(`${path}.${key}`, `expected boolean, got ${describe(value)}`);
+  };
+
+  const oneOf = (obj: SessionRecord, key: string, path: string, allowed: string[], options: { optional?: boolean } = {}) => {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) add(`${path}.${key}`, `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  };
+
+  // Returns the array when valid so callers can validate its items
+  const array = (obj: SessionRecord, key: string, path: string): unknown[] | null => {
+    const value = obj[key];
+    if (!Array.isArray(value)) {
+      add(`${path}.${key}`, `expected array, got ${describe(value)}`);
+      return null;
+    }
+    return value;
+  };
+
+  const object = (value: unknown, path: string): value is SessionRecord => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      add(path, `expected object, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  };
+
+  return { issues, add, string, number, boolean, oneOf, array, object };
+};
+
+type IssueCollector = ReturnType<typeof createIssueCollector>;
+
+const validateCurrency = (c: IssueCollector, obj: SessionRecord, key: string, path: string, options: { optional?: boolean } = {}) => {
+  c.string(obj, key, path, options);
+  const value = obj[key];
+  if (typeof value === 'string' && !CURRENCY_CODE.test(value)) c.add(`${path}.${key}`, `expected a 3-letter currency code, got "${value}"`);
+};
+
+const validateTags = (c: IssueCollector, obj: SessionRecord, path: string, key = 'tags') => {
+  c.array(obj, key, path)?.forEach((tag, j) => {
+    if (typeof tag !== 'string') c.add(`${path}.${key}[${j}]`, `expected string, got ${describe(tag)}`);
+    else if (!tag.trim()) c.add(`${path}.${key}[${j}]`, 'empty tag');
+  });
+};
+
+const validateImportSettings = (c: IssueCollector, settings: SessionRecord, path: string) => {
+  c.string(settings, 'delimiter', path, { nonEmpty: true });
+  c.oneOf(settings, 'dateFormat', path, DATE_FORMATS);
+  c.oneOf(settings, 'decimalSeparator', path, ['.', ',']);
+  c.oneOf(settings, 'encoding', path, ENCODINGS, { optional: true });
+  c.string(settings, 'sheetName', path, { optional: true });
+  c.number(settings, 'headerRow', path, { optional: true, min: 1 });
+  validateCurrency(c, settings, 'currency', path, { optional: true });
+};
+
+/**
+ * Strictly checks a (migrated) session object. Returns a list of human-readable issues, empty when valid.
+ */
+export const validateSession = (data: unknown): string[] => {
+  const c = createIssueCollector();
+  if (!c.object(data, 'session')) return c.issues;
+
+  c.number(data, 'schemaVersion', 'session');
+  if (data.schemaVersion !== CURRENT_SCHEMA_VERSION) c.add('session.schemaVersion', `expected ${CURRENT_SCHEMA_VERSION}, got ${JSON.stringify(data.schemaVersion)}`);
+  c.string(data, 'id', 'session', { nonEmpty: true });
+  c.string(data, 'name', 'session');
+  c.number(data, 'createdAt', 'session');
+
+  const transactions = c.array(data, 'transactions', 'session');
+  const seenIds = new Set<string>();
+  transactions?.forEach((t, i) => {
+    const path = `transactions[${i}]`;
+    if (!c.object(t, path)) return;
+    c.string(t, 'id', path, { nonEmpty: true });
+    if (typeof t.id === 'string') {
+      if (seenIds.has(t.id)) c.add(`${path}.id`, `duplicate id "${t.id}"`);
+      seenIds.add(t.id);
+    }
+    c.string(t, 'date', path);
+    if (typeof t.date === 'string' && !ISO_DATE.test(t.date)) c.add(`${path}.date`, `expected YYYY-MM-DD, got "${t.date}"`);
+    c.string(t, 'description', path);
+    c.number(t, 'amount', path, { min: 0 });
+    c.oneOf(t, 'type', path, TRANSACTION_TYPES);
+    c.string(t, 'category', path);
+    c.string(t, 'source', path, { optional: true });
+    validateCurrency(c, t, 'currency', path, { optional: true });
+    if (t.splits !== undefined) {
+      const splits = c.array(t, 'splits', path);
+      splits?.forEach((s, j) => {
+        const splitPath = `${path}.splits[${j}]`;
+        if (!c.object(s, splitPath)) return;
+        c.string(s, 'category', splitPath, { nonEmpty: true });
+        c.number(s, 'amount', splitPath);
+        c.string(s, 'note', splitPath, { optional: true });
+      });
+      const total = splits?.reduce<number>((sum, s) => sum + (isRecord(s) && typeof s.amount === 'number' ? s.amount : 0), 0);
+      if (splits && total !== undefined && typeof t.amount === 'number' && Math.abs(total - t.amount) >= 0.005) {
+        c.add(`${path}.splits`, `parts sum to ${total.toFixed(2)}, expected ${t.amount.toFixed(2)}`);
+      }
+    }
+    c.string(t, 'notes', path, { optional: true });
+    if (t.tags !== undefined) validateTags(c, t, path);
+    if (t.transfer !== undefined && c.object(t.transfer, `${path}.transfer`)) {
+      c.string(t.transfer, 'counterpartId', `${path}.transfer`, { nonEmpty: true });
+      c.oneOf(t.transfer, 'direction', `${path}.transfer`, ['IN', 'OUT']);
+    }
+    if ((t.type === TransactionType.TRANSFER) !== (t.transfer !== undefined)) {
+      c.add(`${path}.transfer`, t.transfer === undefined ? 'transfers need a counterpart' : `only transfers can be linked, type is ${t.type}`);
+    }
+  });
+
+  const categories = c.array(data, 'categories', 'session');
+  const seenCategories = new Set<string>();
+  categories?.forEach((cat, i) => {
+    const path = `categories[${i}]`;
+    if (!c.object(cat, path)) return;
+    c.string(cat, 'name', path, { nonEmpty: true });
+    if (typeof cat.name === 'string') {
+      if (seenCategories.has(cat.name)) c.add(`${path}.name`, `duplicate category "${cat.name}"`);
+      seenCategories.add(cat.name);
+    }
+    c.string(cat, 'color', path);
+    if (typeof cat.color === 'string' && !HEX_COLOR.test(cat.color)) c.add(`${path}.color`, `expected a hex color like #6366f1, got "${cat.color}"`);
+    c.string(cat, 'icon', path, { nonEmpty: true });
+    c.boolean(cat, 'essential', path);
+    c.boolean(cat, 'fixed', path);
+  });
+
+  c.oneOf(data, 'ruleMatchMode', 'session', ['first', 'all']);
+  const rules = c.array(data, 'rules', 'session');
+  rules?.forEach((r, i) => {
+    const path = `rules[${i}]`;
+    if (!c.object(r, path)) return;
+    c.string(r, 'id', path, { nonEmpty: true });
+    c.oneOf(r, 'match', path, ['all', 'any']);
+    c.string(r, 'category', path);
+    c.array(r, 'conditions', path)?.forEach((cond, j) => {
+      const condPath = `${path}.conditions[${j}]`;
+      if (!c.object(cond, condPath)) return;
+      c.oneOf(cond, 'field', condPath, RULE_FIELDS);
+      const operators: string[] = RULE_OPERATORS[cond.field as keyof typeof RULE_OPERATORS];
+      if (operators) c.oneOf(cond, 'operator', condPath, operators);
+      c.string(cond, 'value', condPath);
+      c.string(cond, 'value2', condPath, { optional: true });
+    });
+    if (r.addTags !== undefined) validateTags(c, r, path, 'addTags');
+  });
+
+  const assets = c.array(data, 'assets', 'session');
+  assets?.forEach((a, i) => {
+    const path = `assets[${i}]`;
+    if (!c.object(a, path)) return;
+    c.string(a, 'id', path, { nonEmpty: true });
+    c.string(a, 'name', path);
+    c.number(a, 'value', path);
+    c.oneOf(a, 'type', path, ASSET_TYPES);
+    c.string(a, 'color', path);
+    validateCurrency(c, a, 'currency', path, { optional: true });
+    c.string(a, 'linkedSource', path, { optional: true });
+    if (typeof a.balanceDate === 'string' && !ISO_DATE.test(a.balanceDate)) c.add(`${path}.balanceDate`, `expected YYYY-MM-DD, got "${a.balanceDate}"`);
+    else c.string(a, 'balanceDate', path, { optional: true });
+  });
+
+  const goals = c.array(data, 'goals', 'session');
+  goals?.forEach((g, i) => {
+    const path = `goals[${i}]`;
+    if (!c.object(g, path)) return;
+    c.string(g, 'id', path, { nonEmpty: true });
+    c.oneOf(g, 'type', path, GOAL_TYPES);
+    c.string(g, 'title', path);
+    c.number(g, 'targetAmount', path, { min: 0 });
+    c.number(g, 'allocatedAmount', path, { min: 0 });
+    c.string(g, 'targetDate', path);
+    c.number(g, 'priority', path);
+    c.string(g, 'icon', path);
+    c.number(g, 'quickAdjustStep', path, { optional: true });
+    validateCurrency(c, g, 'currency', path, { optional: true });
+    if (g.savingRule !== undefined && c.object(g.savingRule, `${path}.savingRule`)) {
+      c.number(g.savingRule, 'amount', `${path}.savingRule`);
+      c.oneOf(g.savingRule, 'frequency', `${path}.savingRule`, ['monthly', 'once', 'custom']);
+    }
+  });
+
+  const sources = c.array(data, 'sources', 'session');
+  sources?.forEach((src, i) => {
+    if (typeof src !== 'string') c.add(`sources[${i}]`, `expected string, got ${describe(src)}`);
+  });
+
+  const widgets = c.array(data, 'dashboardWidgets', 'session');
+  widgets?.forEach((w, i) => {
+    const path = `dashboardWidgets[${i}]`;
+    if (!c.object(w, path)) return;
+    c.string(w, 'id', path, { nonEmpty: true });
+    c.oneOf(w, 'type', path, WIDGET_TYPES);
+    c.string(w, 'title', path);
+    c.boolean(w, 'visible', path);
+    c.oneOf(w, 'width', path, ['full', 'half']);
+  });
+
+  if (c.object(data.importSettings, 'session.importSettings')) validateImportSettings(c, data.importSettings, 'importSettings');
+
+  const profiles = c.array(data, 'importProfiles', 'session');
+  profiles?.forEach((p, i) => {
+    const path = `importProfiles[${i}]`;
+    if (!c.object(p, path)) return;
+    c.string(p, 'id', path, { nonEmpty: true });
+    c.string(p, 'name', path, { nonEmpty: true });
+    c.string(p, 'sourceName', path, { nonEmpty: true });
+    c.string(p, 'headerFingerprint', path);
+    c.number(p, 'createdAt', path);
+    if (c.object(p.settings, `${path}.settings`)) validateImportSettings(c, p.settings, `${path}.settings`);
+    const mapping = p.mapping;
+    if (c.object(mapping, `${path}.mapping`)) {
+      const mappingPath = `${path}.mapping`;
+      ['dateIndex', 'descriptionIndex', 'amountIndex', 'categoryIndex', 'typeIndex'].forEach(key => c.number(mapping, key, mappingPath, { min: -1 }));
+      ['debitIndex', 'creditIndex', 'balanceIndex'].forEach(key => c.number(mapping, key, mappingPath, { optional: true, min: -1 }));
+      c.boolean(mapping, 'invertSign', mappingPath, { optional: true });
+    }
+  });
+
+  validateCurrency(c, data, 'baseCurrency', 'session');
+  c.string(data, 'displayLocale', 'session', { nonEmpty: true });
+  const rates = c.array(data, 'exchangeRates', 'session');
+  rates?.forEach((r, i) => {
+    const path = `exchangeRates[${i}]`;
+    if (!c.object(r, path)) return;
+    c.string(r, 'id', path, { nonEmpty: true });
+    validateCurrency(c, r, 'currency', path);
+    c.number(r, 'rate', path, { min: 0 });
+    c.string(r, 'date', path);
+    if (typeof r.date === 'string' && !ISO_DATE.test(r.date)) c.add(`${path}.date`, `expected YYYY-MM-DD, got "${r.date}"`);
+  });
+
+  return c.issues;
+};
+
+export interface SessionParseResult {
+  session: Session | null; // null whenever errors is non-empty
+  errors: string[];
+}
+
+/**
+ * Migrates and validates untrusted session data (backup files, stored records).
+ * Nothing is returned unless the whole object passes validation.
+ */
+export const parseSessionData = (raw: unknown): SessionParseResult => {
+  let upgraded: SessionRecord;
+  try {
+    // Migrations never mutate their input, so the caller's object stays untouched
+    upgraded = upgradeSession(raw);
+  } catch (e) {
+    return { session: null, errors: [(e as Error).message] };
+  }
+
+  const errors = validateSession(upgraded);
+  if (errors.length > 0) return { session: null, errors };
+  // Every field of Session was checked above
+  return { session: upgraded as unknown as Session, errors: [] };
+};
+
+/**
+ * Formats validation issues for an alert, truncating very long lists.
+ */
+export const formatValidationErrors = (errors: string[], limit = 10): string => {
+  const shown = errors.slice(0, limit).map(e => `• ${e}`).join('\n');
+  return errors.length > limit ? `${shown}\n…and ${errors.length - limit} more` : shown;
+};
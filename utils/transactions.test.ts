@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { applySplits, splitRemainder, expandSplits, mapCategories, categoryParts, isSplit } from './transactions';
+import { Transaction, TransactionType } from '../types';
+
+const shop: Transaction = {
+  id: 't1', date: '2024-03-09', description: 'Supermarket', amount: 12.3, type: TransactionType.EXPENSE, category: 'Food'
+};
+
+describe('splitRemainder', () => {
+  it('rounds to cents so float sums still add up', () => {
+    expect(splitRemainder(12.3, [{ category: 'Food', amount: 10.1 }, { category: 'Household', amount: 2.2 }])).toBe(0);
+    expect(splitRemainder(4.35, [{ category: 'Food', amount: 1.15 }, { category: 'Household', amount: 1.1 }])).toBe(2.1);
+  });
+
+  it('reports what is left and ignores parts without an amount', () => {
+    expect(splitRemainder(12.3, [{ category: 'Food', amount: 10.1 }, { category: 'Household', amount: NaN }])).toBe(2.2);
+  });
+});
+
+describe('applySplits', () => {
+  it('stores rounded parts and follows the largest part for the category', () => {
+    const split = applySplits(shop, [{ category: 'Household', amount: 2.2 }, { category: 'Food.Groceries', amount: 10.1000001 }]);
+    expect(isSplit(split)).toBe(true);
+    expect(split.category).toBe('Food.Groceries');
+    expect(split.splits).toEqual([{ category: 'Household', amount: 2.2 }, { category: 'Food.Groceries', amount: 10.1 }]);
+  });
+
+  it('collapses a single part into the category', () => {
+    const split = applySplits(shop, [{ category: 'Household', amount: 2.2 }, { category: 'Food', amount: 10.1 }]);
+    const collapsed = applySplits(split, [{ category: 'Household', amount: 12.3 }]);
+    expect(collapsed).toEqual({ ...shop, category: 'Household' });
+    expect(categoryParts(collapsed)).toEqual([{ category: 'Household', amount: 12.3 }]);
+  });
+
+  it('removes the splits and keeps the category when cleared', () => {
+    const split = applySplits(shop, [{ category: 'Household', amount: 2.2 }, { category: 'Food', amount: 10.1 }]);
+    expect(applySplits(split, null)).toEqual(shop);
+  });
+});
+
+describe('expandSplits', () => {
+  it('turns every part into a row of its own', () => {
+    const split = applySplits(shop, [{ category: 'Food', amount: 10.1 }, { category: 'Household', amount: 2.2, note: 'Soap' }]);
+    expect(expandSplits([split]).map(t => [t.id, t.category, t.amount, t.description])).toEqual([
+      ['t1#0', 'Food', 10.1, 'Supermarket'],
+      ['t1#1', 'Household', 2.2, 'Supermarket (Soap)']
+    ]);
+    expect(expandSplits([shop])).toEqual([shop]);
+  });
+});
+
+describe('mapCategories', () => {
+  const rename = (category: string) => (category === 'Household' ? 'Home.Supplies' : category);
+
+  it('renames categories inside the parts', () => {
+    const split = applySplits(shop, [{ category: 'Food', amount: 10.1 }, { category: 'Household', amount: 2.2 }]);
+    const renamed = mapCategories(split, rename);
+    expect(renamed.category).toBe('Food');
+    expect(renamed.splits).toEqual([{ category: 'Food', amount: 10.1 }, { category: 'Home.Supplies', amount: 2.2 }]);
+  });
+
+  it('returns the same transaction when nothing is renamed', () => {
+    expect(mapCategories(shop, rename)).toBe(shop);
+    expect(mapCategories({ ...shop, category: 'Household' }, rename).category).toBe('Home.Supplies');
+  });
+});
@@ -0,0 +1,89 @@
+import { Transaction, TransactionSplit, TransactionType } from "../types";
+
+// --- Split Transactions ---
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/** A transaction counts as split once it has at least two parts; a single part is just its category. */
+export const isSplit = (t: Transaction): boolean => !!t.splits && t.splits.length > 1;
+
+/** The (category, amount) parts a transaction contributes to category totals. */
+export const categoryParts = (t: Transaction): TransactionSplit[] =>
+  isSplit(t) ? t.splits! : [{ category: t.category, amount: t.amount }];
+
+/** What is left of the total after the parts; zero when the splits are complete. */
+export const splitRemainder = (total: number, splits: TransactionSplit[]): number =>
+  roundCents(total - splits.reduce((sum, s) => sum + (isNaN(s.amount) ? 0 : s.amount), 0));
+
+/**
+ * Returns the transaction with new splits, or without splits when fewer than two parts are given.
+ * `category` follows the largest part so lists, filters and rules still see a sensible category.
+ */
+export const applySplits = (t: Transaction, splits: TransactionSplit[] | null): Transaction => {
+  const { splits: _previous, ...rest } = t;
+  if (!splits || splits.length < 2) {
+    return { ...rest, category: splits?.[0]?.category ?? t.category };
+  }
+  const largest = [...splits].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0];
+  return { ...rest, category: largest.category, splits: splits.map(s => ({ ...s, amount: roundCents(s.amount) })) };
+};
+
+/**
+ * Replaces every split transaction by one row per part, for aggregations by category.
+ * Part rows keep the parent's date, type and source; their ids are `<parent id>#<index>`.
+ */
+export const expandSplits = (transactions: Transaction[]): Transaction[] =>
+  transactions.flatMap(t => {
+    if (!isSplit(t)) return [t];
+    const { splits, ...parent } = t;
+    return splits!.map((s, i) => ({
+      ...parent,
+      id: `${t.id}#${i}`,
+      amount: s.amount,
+      category: s.category,
+      description: s.note ? `${t.description} (${s.note})` : t.description
+    }));
+  });
+
+/** Renames or reassigns categories on a transaction and all of its parts. */
+export const mapCategories = (t: Transaction, rename: (category: string) => string): Transaction => {
+  const category = rename(t.category);
+  const splits = t.splits?.map(s => ({ ...s, category: rename(s.category) }));
+  const changed = category !== t.category || (splits && splits.some((s, i) => s.category !== t.splits![i].category));
+  return changed ? { ...t, category, ...(splits ? { splits } : {}) } : t;
+};
+
+// --- Direction ---
+
+/** Amount as seen from the account: positive for money coming in, negative for money going out. */
+export const signedAmount = (t: Transaction): number => {
+  const incoming = t.type === TransactionType.INCOME || (t.type === TransactionType.TRANSFER && t.transfer?.direction === 'IN');
+  return incoming ? t.amount : -t.amount;
+};
+
+// --- Tags ---
+
+/** Tags are compared case-insensitively and written like "vacation-2024"; a leading # is dropped. */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+/** Reads a comma-separated tag list as typed by the user. */
+export const parseTagList = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
+
+/** Adds and removes tags, keeping the transaction unchanged when nothing differs. */
+export const retag = (t: Transaction, add: string[], remove: string[] = []): Transaction => {
+  const current = t.tags || [];
+  const removed = new Set(remove.map(normalizeTag));
+  const next = Array.from(new Set([...current.filter(tag => !removed.has(tag)), ...add.map(normalizeTag).filter(Boolean)]));
+  if (next.length === current.length && next.every((tag, i) => tag === current[i])) return t;
+  const { tags: _previous, ...rest } = t;
+  return next.length > 0 ? { ...rest, tags: next } : rest;
+};
+
+/** All tags in use, most used first. */
+export const collectTags = (transactions: Transaction[]): string[] => {
+  const counts = new Map<string, number>();
+  transactions.forEach(t => t.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
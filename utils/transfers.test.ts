@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { findTransferPairs, linkTransfers, unlinkTransfer, dropOrphanTransfers } from './transfers';
+import { Transaction, TransactionType } from '../types';
+
+const tx = (id: string, overrides: Partial<Transaction>): Transaction => ({
+  id,
+  date: '2024-05-02',
+  description: 'Transfer to savings',
+  amount: 500,
+  type: TransactionType.EXPENSE,
+  category: 'Other',
+  source: 'Checking',
+  ...overrides
+});
+
+const out = tx('out', {});
+const inc = tx('in', { type: TransactionType.INCOME, source: 'Savings', date: '2024-05-03', description: 'Incoming payment' });
+
+describe('findTransferPairs', () => {
+  it('pairs an expense with matching income in another source', () => {
+    const [pair] = findTransferPairs([out, inc]);
+    expect(pair.outgoing).toBe(out);
+    expect(pair.incoming).toBe(inc);
+    expect(pair.dayGap).toBe(1);
+  });
+
+  it('ignores equal amounts without anything that reads like a transfer', () => {
+    const purchase = tx('out', { description: 'Electronics Store', source: 'Visa' });
+    const salary = tx('in', { type: TransactionType.INCOME, source: 'Checking', description: 'ACME Payroll' });
+    expect(findTransferPairs([purchase, salary])).toEqual([]);
+  });
+
+  it('accepts a description naming the other account or a shared reference', () => {
+    const payment = tx('out', { description: 'Visa statement', source: 'Checking' });
+    const credit = tx('in', { type: TransactionType.INCOME, source: 'Visa', description: 'Thanks' });
+    expect(findTransferPairs([payment, credit])).toHaveLength(1);
+
+    const sent = tx('out', { description: 'Jane Doe REF8841', source: 'Checking' });
+    const received = tx('in', { type: TransactionType.INCOME, source: 'Broker', description: 'Deposit REF8841' });
+    expect(findTransferPairs([sent, received])).toHaveLength(1);
+  });
+
+  it('requires different sources, equal currency and dates within the window', () => {
+    expect(findTransferPairs([out, { ...inc, source: 'Checking' }])).toEqual([]);
+    expect(findTransferPairs([out, { ...inc, currency: 'USD' }])).toEqual([]);
+    expect(findTransferPairs([out, { ...inc, date: '2024-05-10' }])).toEqual([]);
+  });
+
+  it('uses every transaction once, closest dates first', () => {
+    const later = tx('in2', { type: TransactionType.INCOME, source: 'Savings', date: '2024-05-05', description: 'Transfer' });
+    const pairs = findTransferPairs([out, later, inc]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].incoming).toBe(inc);
+  });
+
+  it('only proposes pairs that involve the given ids', () => {
+    expect(findTransferPairs([out, inc], 4, new Set(['other']))).toEqual([]);
+    expect(findTransferPairs([out, inc], 4, new Set(['in']))).toHaveLength(1);
+  });
+});
+
+describe('linkTransfers / unlinkTransfer', () => {
+  it('links both sides and restores them when unlinked', () => {
+    const linked = linkTransfers([out, inc], findTransferPairs([out, inc]));
+    expect(linked.map(t => [t.type, t.transfer])).toEqual([
+      [TransactionType.TRANSFER, { counterpartId: 'in', direction: 'OUT' }],
+      [TransactionType.TRANSFER, { counterpartId: 'out', direction: 'IN' }]
+    ]);
+    expect(unlinkTransfer(linked, 'in')).toEqual([out, inc]);
+  });
+
+  it('unlinks transfers whose counterpart was removed', () => {
+    const [linkedOut] = linkTransfers([out, inc], findTransferPairs([out, inc]));
+    expect(dropOrphanTransfers([linkedOut])).toEqual([out]);
+  });
+});
@@ -0,0 +1,113 @@
+import { Transaction, TransactionType } from "../types";
+import { normalizeDescription } from "./duplicates";
+
+// --- Transfers Between Own Accounts ---
+
+/** Bank transfers usually land within a working day or two; weekends and holidays stretch that. */
+export const TRANSFER_MATCH_DAYS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TransferPair {
+  outgoing: Transaction; // The expense side in the sending account
+  incoming: Transaction; // The income side in the receiving account
+  dayGap: number;
+}
+
+export const isTransfer = (t: Transaction): boolean => t.type === TransactionType.TRANSFER;
+
+const dayDistance = (a: string, b: string): number =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS;
+
+const sourceOf = (t: Transaction): string => (t.source || '').trim().toLowerCase();
+
+// Booking texts banks use for moving money between accounts (accents already stripped)
+const TRANSFER_KEYWORDS = /\b(transfer|xfer|uberweisung|umbuchung|ubertrag|dauerauftrag|sparplan|virement|transferencia|bonifico|own account|savings|payment thank you|card payment|autopay)\b/;
+
+const wordsOf = (text: string): string[] => normalizeDescription(text).split(' ').filter(Boolean);
+
+/**
+ * Equal amounts alone are not enough: one side has to read like a transfer, name the other account,
+ * or both have to share a distinctive word such as a reference number or the account holder's name.
+ */
+const hasTransferSignal = (out: Transaction, inc: Transaction): boolean => {
+  const outText = normalizeDescription(out.description);
+  const incText = normalizeDescription(inc.description);
+  if (TRANSFER_KEYWORDS.test(outText) || TRANSFER_KEYWORDS.test(incText)) return true;
+
+  const outWords = new Set(outText.split(' '));
+  const incWords = new Set(incText.split(' '));
+  const namesAccount = (words: Set<string>, source?: string) => wordsOf(source || '').some(w => w.length >= 3 && words.has(w));
+  if (namesAccount(outWords, inc.source) || namesAccount(incWords, out.source)) return true;
+
+  return Array.from(outWords).some(w => incWords.has(w) && (w.length >= 6 || (w.length >= 4 && /\d/.test(w))));
+};
+
+/**
+ * Pairs expenses with income of the same amount and currency in a different source within `maxDays`,
+ * when their descriptions suggest a transfer (see hasTransferSignal). Closest dates win, and every transaction is used at most once. Split and already linked
+ * transactions are left out. With `onlyIds`, a pair must involve at least one of those
+ * (e.g. the rows of a new import), so pairs the user unlinked earlier are not proposed again.
+ */
+export const findTransferPairs = (transactions: Transaction[], maxDays = TRANSFER_MATCH_DAYS, onlyIds?: Set<string>): TransferPair[] => {
+  const candidates = transactions.filter(t => !t.splits?.length && sourceOf(t));
+  const outgoing = candidates.filter(t => t.type === TransactionType.EXPENSE);
+  // Income indexed by amount + currency keeps this linear for typical sessions
+  const incomingByKey = new Map<string, Transaction[]>();
+  candidates
+    .filter(t => t.type === TransactionType.INCOME)
+    .forEach(t => {
+      const key = `${t.amount.toFixed(2)}|${t.currency || ''}`;
+      incomingByKey.set(key, [...(incomingByKey.get(key) || []), t]);
+    });
+
+  const options: TransferPair[] = [];
+  outgoing.forEach(out => {
+    const matches = incomingByKey.get(`${out.amount.toFixed(2)}|${out.currency || ''}`) || [];
+    matches.forEach(inc => {
+      if (sourceOf(inc) === sourceOf(out)) return;
+      if (!hasTransferSignal(out, inc)) return;
+      if (onlyIds && !onlyIds.has(out.id) && !onlyIds.has(inc.id)) return;
+      const dayGap = dayDistance(out.date, inc.date);
+      if (dayGap <= maxDays) options.push({ outgoing: out, incoming: inc, dayGap });
+    });
+  });
+
+  const used = new Set<string>();
+  return options
+    .sort((a, b) => a.dayGap - b.dayGap || a.outgoing.date.localeCompare(b.outgoing.date))
+    .filter(pair => {
+      if (used.has(pair.outgoing.id) || used.has(pair.incoming.id)) return false;
+      used.add(pair.outgoing.id);
+      used.add(pair.incoming.id);
+      return true;
+    });
+};
+
+/** Turns both sides of each pair into linked TRANSFER transactions. */
+export const linkTransfers = (transactions: Transaction[], pairs: TransferPair[]): Transaction[] => {
+  const links = new Map<string, Transaction['transfer']>();
+  pairs.forEach(({ outgoing, incoming }) => {
+    links.set(outgoing.id, { counterpartId: incoming.id, direction: 'OUT' });
+    links.set(incoming.id, { counterpartId: outgoing.id, direction: 'IN' });
+  });
+  return transactions.map(t => links.has(t.id) ? { ...t, type: TransactionType.TRANSFER, transfer: links.get(t.id) } : t);
+};
+
+/** Restores both sides of a transfer to the income and expense they were before linking. */
+export const unlinkTransfer = (transactions: Transaction[], transactionId: string): Transaction[] => {
+  const target = transactions.find(t => t.id === transactionId);
+  const ids = new Set([transactionId, target?.transfer?.counterpartId]);
+  return transactions.map(t => {
+    if (!ids.has(t.id) || !t.transfer) return t;
+    const { transfer, ...rest } = t;
+    return { ...rest, type: transfer.direction === 'IN' ? TransactionType.INCOME : TransactionType.EXPENSE };
+  });
+};
+
+/** Unlinks transfers whose counterpart no longer exists, e.g. after its source was deleted. */
+export const dropOrphanTransfers = (transactions: Transaction[]): Transaction[] => {
+  const ids = new Set(transactions.map(t => t.id));
+  const orphans = transactions.filter(t => t.transfer && !ids.has(t.transfer.counterpartId));
+  return orphans.reduce((list, t) => unlinkTransfer(list, t.id), transactions);
+};